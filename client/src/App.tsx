@@ -15,6 +15,11 @@ import NotFound from "@/pages/not-found";
 import Home from "@/pages/home";
 import Categories from "@/pages/categories";
 import Settings from "@/pages/settings";
+import Playlists from "@/pages/playlists";
+import Library from "@/pages/library";
+import Discover from "@/pages/discover";
+import Publisher from "@/pages/publisher";
+import Stats from "@/pages/stats";
 import AuthCallback from "@/pages/auth-callback";
 import { NewsletterSelection } from "@/components/newsletter-selection";
 import React from "react"; // Import React
@@ -53,6 +58,51 @@ function Router() {
               </>
             </Route>
 
+            <Route path="/discover">
+              <>
+                <Header title="Discover" onMenuToggle={toggleSidebar} />
+                <div className="flex-1 overflow-y-auto">
+                  <Discover />
+                </div>
+              </>
+            </Route>
+
+            <Route path="/discover/:publisher">
+              <>
+                <Header title="Publisher" onMenuToggle={toggleSidebar} />
+                <div className="flex-1 overflow-y-auto">
+                  <Publisher />
+                </div>
+              </>
+            </Route>
+
+            <Route path="/library">
+              <>
+                <Header title="My Library" onMenuToggle={toggleSidebar} />
+                <div className="flex-1 overflow-y-auto">
+                  <Library />
+                </div>
+              </>
+            </Route>
+
+            <Route path="/stats">
+              <>
+                <Header title="Listening Stats" onMenuToggle={toggleSidebar} />
+                <div className="flex-1 overflow-y-auto">
+                  <Stats />
+                </div>
+              </>
+            </Route>
+
+            <Route path="/playlists">
+              <>
+                <Header title="Playlists" onMenuToggle={toggleSidebar} />
+                <div className="flex-1 overflow-y-auto">
+                  <Playlists />
+                </div>
+              </>
+            </Route>
+
             <Route path="/settings">
               <>
                 <Header title="Settings" onMenuToggle={toggleSidebar} />
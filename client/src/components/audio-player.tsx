@@ -1,6 +1,9 @@
 import { useAudio } from "@/hooks/use-audio";
 import { formatTime } from "@/lib/utils";
 import { useEffect, useRef, useState } from "react";
+import { PlayQueue } from "@/components/play-queue";
+import { TranscriptPanel } from "@/components/transcript-panel";
+import { ChapterList, findChapterIndex } from "@/components/chapter-list";
 
 export function AudioPlayer() {
   const { 
@@ -46,6 +49,9 @@ export function AudioPlayer() {
     return null;
   }
 
+  const chapters = currentNewsletter.chapters || [];
+  const currentChapter = chapters[findChapterIndex(chapters, currentTime || 0)];
+
   return (
     <div className="bg-white dark:bg-gray-800 border-t border-gray-200 dark:border-gray-700 p-3 shadow-md">
       <div className="flex items-center">
@@ -57,7 +63,10 @@ export function AudioPlayer() {
         />
         <div className="mr-4">
           <h4 className="font-medium text-sm text-gray-900 dark:text-white">{currentNewsletter.title}</h4>
-          <p className="text-xs text-gray-500 dark:text-gray-400">{currentNewsletter.publisher}</p>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {currentNewsletter.publisher}
+            {currentChapter && ` · ${currentChapter.title}`}
+          </p>
         </div>
         
         {/* Playback Controls */}
@@ -120,6 +129,9 @@ export function AudioPlayer() {
           <button className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300">
             <span className="material-icons">speed</span>
           </button>
+          <ChapterList />
+          <TranscriptPanel />
+          <PlayQueue />
         </div>
       </div>
     </div>
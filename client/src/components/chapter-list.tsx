@@ -0,0 +1,91 @@
+import { Chapter } from "@shared/schema";
+import { useAudio } from "@/hooks/use-audio";
+import { cn, formatTime } from "@/lib/utils";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Button } from "@/components/ui/button";
+
+// Going back this far into a chapter restarts it rather than jumping to the previous one
+const RESTART_CHAPTER_SECONDS = 3;
+
+export function findChapterIndex(chapters: Chapter[], time: number): number {
+  let index = -1;
+  chapters.forEach((chapter, i) => {
+    if (chapter.start <= time) index = i;
+  });
+  return index;
+}
+
+export function ChapterList() {
+  const { currentNewsletter, currentTime, seekTo } = useAudio();
+  const chapters = currentNewsletter?.chapters || [];
+
+  if (chapters.length === 0) {
+    return null;
+  }
+
+  const currentIndex = findChapterIndex(chapters, currentTime);
+
+  const skipBack = () => {
+    const current = chapters[currentIndex];
+    if (current && currentTime - current.start > RESTART_CHAPTER_SECONDS) {
+      seekTo(current.start);
+    } else {
+      seekTo(chapters[Math.max(0, currentIndex - 1)].start);
+    }
+  };
+
+  const skipForward = () => {
+    if (currentIndex < chapters.length - 1) {
+      seekTo(chapters[currentIndex + 1].start);
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300" title="Chapters">
+          <span className="material-icons">toc</span>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" side="top" className="w-80 p-0">
+        <div className="flex items-center justify-between p-3 border-b border-gray-200 dark:border-gray-700">
+          <h4 className="font-medium text-sm text-gray-900 dark:text-white">Chapters</h4>
+          <div className="flex items-center">
+            <Button variant="ghost" size="sm" onClick={skipBack} title="Previous chapter">
+              <span className="material-icons text-base">first_page</span>
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={skipForward}
+              disabled={currentIndex >= chapters.length - 1}
+              title="Next chapter"
+            >
+              <span className="material-icons text-base">last_page</span>
+            </Button>
+          </div>
+        </div>
+
+        <ScrollArea className="max-h-80">
+          <ul>
+            {chapters.map((chapter, index) => (
+              <li key={index}>
+                <button
+                  className={cn(
+                    "flex items-center w-full px-3 py-2 text-left hover:bg-gray-50 dark:hover:bg-gray-700",
+                    index === currentIndex && "bg-primary/10"
+                  )}
+                  onClick={() => seekTo(chapter.start)}
+                >
+                  <span className="flex-1 min-w-0 text-sm text-gray-900 dark:text-white truncate">{chapter.title}</span>
+                  <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">{formatTime(chapter.start)}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </ScrollArea>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,74 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { PublisherSummary, UserNewsletterSender } from "@shared/schema";
+import { useAuth } from "@/context/auth-context";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, invalidateSubscriptionDependentQueries } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+
+type FollowPublisherButtonProps = {
+  publisher: PublisherSummary;
+  size?: "default" | "sm";
+};
+
+export function FollowPublisherButton({ publisher, size = "sm" }: FollowPublisherButtonProps) {
+  const { user, showLoginModal } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: subscriptions } = useQuery<UserNewsletterSender[]>({
+    queryKey: ["/api/user/newsletter-senders"],
+    enabled: !!user,
+  });
+
+  const isFollowing = !!subscriptions?.some(
+    (subscription) => subscription.subscribed && publisher.senderEmails.includes(subscription.senderEmail)
+  );
+  const url = `/api/publishers/${encodeURIComponent(publisher.publisher)}/follow`;
+
+  const followMutation = useMutation({
+    mutationFn: () => apiRequest(isFollowing ? "DELETE" : "POST", url),
+    onSuccess: () => {
+      toast({
+        title: isFollowing ? "Unfollowed" : "Following",
+        description: isFollowing
+          ? `You won't get new newsletters from ${publisher.publisher}`
+          : `New newsletters from ${publisher.publisher} will be imported from your inbox`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/newsletter-senders"] });
+      invalidateSubscriptionDependentQueries(queryClient);
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to update follow",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Publishers only known from demo data have no sender address to subscribe to
+  if (publisher.senderEmails.length === 0) {
+    return null;
+  }
+
+  return (
+    <Button
+      size={size}
+      variant={isFollowing ? "outline" : "default"}
+      onClick={(e) => {
+        // The button sits inside publisher links
+        e.preventDefault();
+        e.stopPropagation();
+        if (!user) {
+          showLoginModal();
+          return;
+        }
+        followMutation.mutate();
+      }}
+      disabled={followMutation.isPending}
+    >
+      <span className="material-icons text-base mr-1">{isFollowing ? "check" : "add"}</span>
+      {isFollowing ? "Following" : "Follow"}
+    </Button>
+  );
+}
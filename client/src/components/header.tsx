@@ -1,5 +1,5 @@
-import { useState } from "react";
 import { useTheme } from "@/components/ui/theme-provider";
+import { SearchBox } from "@/components/search-box";
 
 type HeaderProps = {
   title: string;
@@ -8,17 +8,8 @@ type HeaderProps = {
 };
 
 export function Header({ title, onMenuToggle, onSearch }: HeaderProps) {
-  const [searchQuery, setSearchQuery] = useState("");
   const { theme, setTheme } = useTheme();
 
-  const handleSearch = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const newQuery = e.target.value;
-    setSearchQuery(newQuery);
-    if (onSearch) {
-      onSearch(newQuery);
-    }
-  };
-
   const toggleTheme = () => {
     setTheme(theme === "dark" ? "light" : "dark");
   };
@@ -37,18 +28,7 @@ export function Header({ title, onMenuToggle, onSearch }: HeaderProps) {
       
       <div className="flex items-center space-x-4">
         {/* Search Bar */}
-        <div className="relative">
-          <span className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none text-gray-400">
-            <span className="material-icons text-sm">search</span>
-          </span>
-          <input 
-            type="text" 
-            className="py-2 pl-10 pr-4 block w-full border border-gray-300 dark:border-gray-700 rounded-md bg-gray-50 dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-primary focus:border-primary" 
-            placeholder="Search newsletters"
-            value={searchQuery}
-            onChange={handleSearch}
-          />
-        </div>
+        <SearchBox onSearch={onSearch} />
         
         {/* Theme Toggle */}
         <button 
@@ -1,6 +1,6 @@
 import { useAuth } from "@/context/auth-context";
 import { useAudio } from "@/hooks/use-audio";
-import { Newsletter } from "@shared/schema";
+import { NewsletterSummary } from "@shared/schema";
 import { truncateText } from "@/lib/utils";
 import { apiRequest } from "@/lib/queryClient";
 import { useState } from "react";
@@ -8,17 +8,19 @@ import { useToast } from "@/hooks/use-toast";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 
 type NewsletterCardProps = {
-  newsletter: Newsletter;
+  newsletter: NewsletterSummary;
   isFeatured?: boolean;
   isSaved?: boolean;
 };
 
 export function NewsletterCard({ newsletter, isFeatured = false, isSaved = false }: NewsletterCardProps) {
   const { user } = useAuth();
-  const { play } = useAudio();
+  const { play, enqueue } = useAudio();
   const { toast } = useToast();
   const [saved, setSaved] = useState(isSaved);
   const queryClient = useQueryClient();
+  // Ingested newsletters are listed before their audio has been generated
+  const generatingAudio = !newsletter.audioUrl;
 
   const saveMutation = useMutation({
     mutationFn: async () => {
@@ -115,18 +117,45 @@ export function NewsletterCard({ newsletter, isFeatured = false, isSaved = false
         </p>
         <div className="mt-3 flex items-center justify-between">
           <div className="flex items-center text-sm text-gray-500 dark:text-gray-400">
-            <span className="material-icons text-sm mr-1">schedule</span>
-            <span>{Math.ceil(newsletter.duration / 60)} min</span>
+            {generatingAudio ? (
+              <>
+                <span className="material-icons text-sm mr-1">hourglass_top</span>
+                <span>Generating audio</span>
+              </>
+            ) : (
+              <>
+                <span className="material-icons text-sm mr-1">schedule</span>
+                <span>{Math.ceil(newsletter.duration / 60)} min</span>
+              </>
+            )}
+          </div>
+          <div className="flex items-center space-x-2">
+            <button 
+              className="p-2 rounded-full text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700"
+              title="Add to queue"
+              onClick={(e) => {
+                e.stopPropagation();
+                enqueue(newsletter);
+                toast({
+                  title: "Added to queue",
+                  description: newsletter.title,
+                });
+              }}
+            >
+              <span className="material-icons">playlist_add</span>
+            </button>
+            <button 
+              className="p-2 rounded-full bg-primary text-white shadow-sm hover:bg-primary-dark disabled:opacity-50 disabled:cursor-not-allowed"
+              disabled={generatingAudio}
+              title={generatingAudio ? "Audio is still being generated" : undefined}
+              onClick={(e) => {
+                e.stopPropagation();
+                handlePlay();
+              }}
+            >
+              <span className="material-icons">play_arrow</span>
+            </button>
           </div>
-          <button 
-            className="p-2 rounded-full bg-primary text-white shadow-sm hover:bg-primary-dark"
-            onClick={(e) => {
-              e.stopPropagation();
-              handlePlay();
-            }}
-          >
-            <span className="material-icons">play_arrow</span>
-          </button>
         </div>
       </div>
     </div>
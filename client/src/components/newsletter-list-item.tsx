@@ -1,15 +1,90 @@
 import { useAuth } from "@/context/auth-context";
 import { useAudio } from "@/hooks/use-audio";
-import { Newsletter } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { Category, NewsletterSummary, PlaylistWithNewsletters } from "@shared/schema";
 import { formatDate } from "@/lib/utils";
+import { apiRequest } from "@/lib/queryClient";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 
 type NewsletterListItemProps = {
-  newsletter: Newsletter;
-  onClick?: (newsletter: Newsletter) => void;
+  newsletter: NewsletterSummary;
+  onClick?: (newsletter: NewsletterSummary) => void;
 };
 
 export function NewsletterListItem({ newsletter, onClick }: NewsletterListItemProps) {
-  const { play } = useAudio();
+  const { play, enqueue, enqueueNext } = useAudio();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  // Only newsletters from the user's own mailbox can be recategorized
+  const canChangeCategory = !!user && newsletter.ownerId === user.id;
+  // Ingested newsletters are listed before their audio has been generated
+  const generatingAudio = !newsletter.audioUrl;
+
+  const { data: playlists } = useQuery<PlaylistWithNewsletters[]>({
+    queryKey: ["/api/user/playlists"],
+    enabled: !!user,
+  });
+
+  const { data: categories } = useQuery<Category[]>({
+    queryKey: ["/api/categories"],
+    enabled: canChangeCategory,
+  });
+
+  const changeCategoryMutation = useMutation({
+    mutationFn: (category: Category) =>
+      apiRequest("PUT", `/api/newsletters/${newsletter.id}/category`, {
+        categoryId: category.id,
+      }),
+    onSuccess: (_response, category) => {
+      toast({
+        title: "Category changed",
+        description: `Moved to ${category.name}`,
+      });
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/newsletters"),
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/newsletters"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to change category",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const addToPlaylistMutation = useMutation({
+    mutationFn: (playlist: PlaylistWithNewsletters) =>
+      apiRequest("POST", `/api/user/playlists/${playlist.id}/newsletters`, {
+        newsletterId: newsletter.id,
+      }),
+    onSuccess: (_response, playlist) => {
+      toast({
+        title: "Added to playlist",
+        description: `Added to ${playlist.name}`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/playlists"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to add to playlist",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
 
   const handleClick = () => {
     if (onClick) {
@@ -33,21 +108,86 @@ export function NewsletterListItem({ newsletter, onClick }: NewsletterListItemPr
         <h3 className="font-medium text-gray-900 dark:text-white">{newsletter.title}</h3>
         <p className="text-sm text-gray-500 dark:text-gray-400">{newsletter.publisher}</p>
         <div className="mt-1 flex items-center text-xs text-gray-500 dark:text-gray-400">
-          <span className="material-icons text-xs mr-1">schedule</span>
-          <span>{Math.ceil(newsletter.duration / 60)} min</span>
+          {generatingAudio ? (
+            <>
+              <span className="material-icons text-xs mr-1">hourglass_top</span>
+              <span>Generating audio</span>
+            </>
+          ) : (
+            <>
+              <span className="material-icons text-xs mr-1">schedule</span>
+              <span>{Math.ceil(newsletter.duration / 60)} min</span>
+            </>
+          )}
           <span className="mx-2">•</span>
           <span>{formatDate(newsletter.publishedAt)}</span>
         </div>
       </div>
-      <button 
-        className="p-2 rounded-full text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700"
-        onClick={(e) => {
-          e.stopPropagation();
-          // This would typically open a menu with more options
-        }}
-      >
-        <span className="material-icons">more_vert</span>
-      </button>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <button 
+            className="p-2 rounded-full text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <span className="material-icons">more_vert</span>
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+          <DropdownMenuItem onSelect={() => enqueueNext(newsletter)}>
+            <span className="material-icons text-base mr-2">playlist_play</span>
+            Play next
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => enqueue(newsletter)}>
+            <span className="material-icons text-base mr-2">playlist_add</span>
+            Add to queue
+          </DropdownMenuItem>
+          {user && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuSub>
+                <DropdownMenuSubTrigger>
+                  <span className="material-icons text-base mr-2">library_add</span>
+                  Add to playlist
+                </DropdownMenuSubTrigger>
+                <DropdownMenuSubContent>
+                  {playlists?.length ? (
+                    playlists.map((playlist) => (
+                      <DropdownMenuItem
+                        key={playlist.id}
+                        disabled={playlist.newsletters.some((n) => n.id === newsletter.id)}
+                        onSelect={() => addToPlaylistMutation.mutate(playlist)}
+                      >
+                        {playlist.name}
+                      </DropdownMenuItem>
+                    ))
+                  ) : (
+                    <DropdownMenuItem disabled>No playlists yet</DropdownMenuItem>
+                  )}
+                </DropdownMenuSubContent>
+              </DropdownMenuSub>
+              {canChangeCategory && (
+                <DropdownMenuSub>
+                  <DropdownMenuSubTrigger>
+                    <span className="material-icons text-base mr-2">label</span>
+                    Change category
+                  </DropdownMenuSubTrigger>
+                  <DropdownMenuSubContent>
+                    {categories?.map((category) => (
+                      <DropdownMenuItem
+                        key={category.id}
+                        disabled={category.id === newsletter.categoryId}
+                        onSelect={() => changeCategoryMutation.mutate(category)}
+                      >
+                        {category.name}
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuSubContent>
+                </DropdownMenuSub>
+              )}
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
     </div>
   );
 }
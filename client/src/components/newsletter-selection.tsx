@@ -4,6 +4,8 @@ import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { apiRequest } from "@/lib/queryClient";
+import { waitForJob } from "@/lib/jobs";
+import { useQueryClient } from "@tanstack/react-query";
 
 type NewsletterSender = {
   id: number;
@@ -28,6 +30,7 @@ export function NewsletterSelection({ isOpen: propIsOpen, onOpenChange: propOnOp
   const [senders, setSenders] = useState<NewsletterSender[]>([]);
   const [selectedSenders, setSelectedSenders] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const queryClient = useQueryClient();
   
   useEffect(() => {
     // Open dialog when user is logged in, it's their first login, and tokens are available
@@ -65,13 +68,11 @@ export function NewsletterSelection({ isOpen: propIsOpen, onOpenChange: propOnOp
     
     setIsLoading(true);
     try {
-      const response = await apiRequest("GET", "/api/newsletter-senders");
-      if (response.ok) {
-        const data = await response.json();
-        console.log('senders_data', data);
-        setSenders(data);
-        // Pre-selection logic is now handled in the separate useEffect
-      }
+      // Scanning the inbox runs as a background job on the server
+      const response = await apiRequest("POST", "/api/newsletter-senders/discover");
+      const data = await waitForJob<NewsletterSender[]>(await response.json());
+      setSenders(data);
+      // Pre-selection logic is now handled in the separate useEffect
     } catch (error) {
       console.error("Error fetching newsletter senders:", error);
     } finally {
@@ -101,6 +102,16 @@ export function NewsletterSelection({ isOpen: propIsOpen, onOpenChange: propOnOp
         // Close dialog and mark first login as complete
         setIsOpen(false);
         setIsFirstLogin(false);
+
+        // Import the selected senders' emails as newsletters in the background
+        const ingestResponse = await apiRequest("POST", "/api/newsletters/ingest");
+        waitForJob(await ingestResponse.json())
+          .then(() => {
+            queryClient.invalidateQueries({ queryKey: ["/api/newsletters/recent"] });
+            queryClient.invalidateQueries({ queryKey: ["/api/newsletters/by-category"] });
+            queryClient.invalidateQueries({ queryKey: ["/api/search"] });
+          })
+          .catch((error) => console.error("Error ingesting newsletters:", error));
       }
     } catch (error) {
       console.error("Error saving newsletter subscriptions:", error);
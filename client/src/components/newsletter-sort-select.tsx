@@ -0,0 +1,21 @@
+import { NewsletterSort } from "@shared/schema";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface NewsletterSortSelectProps {
+  value: NewsletterSort;
+  onChange: (sort: NewsletterSort) => void;
+}
+
+export function NewsletterSortSelect({ value, onChange }: NewsletterSortSelectProps) {
+  return (
+    <Select value={value} onValueChange={(sort) => onChange(sort as NewsletterSort)}>
+      <SelectTrigger className="w-32 h-8 text-sm">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="newest">Newest first</SelectItem>
+        <SelectItem value="oldest">Oldest first</SelectItem>
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,72 @@
+import { useAudio } from "@/hooks/use-audio";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Button } from "@/components/ui/button";
+
+export function PlayQueue() {
+  const { queue, play, moveInQueue, removeFromQueue, clearQueue } = useAudio();
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button className="relative text-gray-400 hover:text-gray-600 dark:hover:text-gray-300">
+          <span className="material-icons">queue_music</span>
+          {queue.length > 0 && (
+            <span className="absolute -top-1 -right-2 min-w-4 h-4 px-1 rounded-full bg-primary text-white text-[10px] leading-4 text-center">
+              {queue.length}
+            </span>
+          )}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" side="top" className="w-80 p-0">
+        <div className="flex items-center justify-between p-3 border-b border-gray-200 dark:border-gray-700">
+          <h4 className="font-medium text-sm text-gray-900 dark:text-white">Up Next</h4>
+          <Button variant="ghost" size="sm" onClick={clearQueue} disabled={queue.length === 0}>
+            Clear
+          </Button>
+        </div>
+
+        {queue.length === 0 ? (
+          <p className="p-4 text-sm text-center text-gray-500 dark:text-gray-400">
+            Your queue is empty.
+          </p>
+        ) : (
+          <ScrollArea className="max-h-80">
+            <ul>
+              {queue.map((newsletter, index) => (
+                <li key={newsletter.id} className="flex items-center px-3 py-2 hover:bg-gray-50 dark:hover:bg-gray-700">
+                  <button className="flex-1 min-w-0 text-left" onClick={() => play(newsletter)}>
+                    <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{newsletter.title}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{newsletter.publisher}</p>
+                  </button>
+                  <div className="flex items-center ml-2 text-gray-400">
+                    <button
+                      className="hover:text-gray-600 dark:hover:text-gray-300 disabled:opacity-30"
+                      onClick={() => moveInQueue(index, index - 1)}
+                      disabled={index === 0}
+                    >
+                      <span className="material-icons text-base">arrow_upward</span>
+                    </button>
+                    <button
+                      className="hover:text-gray-600 dark:hover:text-gray-300 disabled:opacity-30"
+                      onClick={() => moveInQueue(index, index + 1)}
+                      disabled={index === queue.length - 1}
+                    >
+                      <span className="material-icons text-base">arrow_downward</span>
+                    </button>
+                    <button
+                      className="hover:text-red-500 dark:hover:text-red-400"
+                      onClick={() => removeFromQueue(newsletter.id)}
+                    >
+                      <span className="material-icons text-base">close</span>
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </ScrollArea>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
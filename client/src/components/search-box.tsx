@@ -0,0 +1,124 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { SearchResult, SearchSnippet } from "@shared/schema";
+import { useAudio } from "@/hooks/use-audio";
+import { apiRequest } from "@/lib/queryClient";
+import { formatDate } from "@/lib/utils";
+
+// Wait for a pause in typing before searching
+const SEARCH_DEBOUNCE_MS = 250;
+const SEARCH_RESULT_LIMIT = 8;
+
+type SearchBoxProps = {
+  onSearch?: (query: string) => void;
+};
+
+function HighlightedSnippet({ snippet }: { snippet: SearchSnippet }) {
+  const parts: React.ReactNode[] = [];
+  let offset = 0;
+  snippet.highlights.forEach(([start, end], i) => {
+    parts.push(snippet.text.slice(offset, start));
+    parts.push(
+      <mark key={i} className="bg-primary/20 text-inherit rounded-sm">
+        {snippet.text.slice(start, end)}
+      </mark>
+    );
+    offset = end;
+  });
+  parts.push(snippet.text.slice(offset));
+
+  return <>{parts}</>;
+}
+
+export function SearchBox({ onSearch }: SearchBoxProps) {
+  const [searchQuery, setSearchQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+  const [isOpen, setIsOpen] = useState(false);
+  const { play } = useAudio();
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(searchQuery.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  const { data: results, isFetching } = useQuery<SearchResult[]>({
+    queryKey: ["/api/search", debouncedQuery],
+    queryFn: async () => {
+      const params = new URLSearchParams({ q: debouncedQuery, limit: String(SEARCH_RESULT_LIMIT) });
+      const response = await apiRequest("GET", `/api/search?${params}`);
+      return response.json();
+    },
+    enabled: debouncedQuery.length > 0,
+    placeholderData: (previous) => previous,
+  });
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const newQuery = e.target.value;
+    setSearchQuery(newQuery);
+    setIsOpen(true);
+    if (onSearch) {
+      onSearch(newQuery);
+    }
+  };
+
+  const handleSelect = (result: SearchResult) => {
+    play(result.newsletter);
+    setIsOpen(false);
+  };
+
+  const showResults = isOpen && debouncedQuery.length > 0;
+
+  return (
+    <div className="relative">
+      <span className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none text-gray-400">
+        <span className="material-icons text-sm">search</span>
+      </span>
+      <input
+        type="text"
+        className="py-2 pl-10 pr-4 block w-full border border-gray-300 dark:border-gray-700 rounded-md bg-gray-50 dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-primary focus:border-primary"
+        placeholder="Search newsletters"
+        value={searchQuery}
+        onChange={handleChange}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={(e) => e.key === "Escape" && setIsOpen(false)}
+      />
+
+      {showResults && (
+        <div className="absolute right-0 top-full mt-1 w-96 max-w-[calc(100vw-2rem)] max-h-[28rem] overflow-y-auto z-50 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-md shadow-lg">
+          {results?.length ? (
+            <ul>
+              {results.map((result) => (
+                <li key={result.newsletter.id}>
+                  <button
+                    className="w-full text-left px-3 py-2 hover:bg-gray-50 dark:hover:bg-gray-700"
+                    // Keep focus in the input so the blur doesn't close the list before the click lands
+                    onMouseDown={(e) => e.preventDefault()}
+                    onClick={() => handleSelect(result)}
+                  >
+                    <div className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                      {result.newsletter.title}
+                    </div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">
+                      {result.newsletter.publisher} • {formatDate(result.newsletter.publishedAt)}
+                    </div>
+                    <p className="text-xs text-gray-600 dark:text-gray-300 line-clamp-2">
+                      <HighlightedSnippet snippet={result.snippet} />
+                    </p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="px-3 py-4 text-sm text-center text-gray-500 dark:text-gray-400">
+              {isFetching ? "Searching..." : "No newsletters found."}
+            </p>
+          )}
+          <p className="px-3 py-2 text-xs text-gray-400 border-t border-gray-200 dark:border-gray-700">
+            Use "quotes" for phrases, publisher: or category: to filter
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
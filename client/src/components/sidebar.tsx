@@ -72,6 +72,14 @@ export function Sidebar({ isOpen, onClose }: SidebarProps) {
               </div>
             </Link>
           </li>
+          <li>
+            <Link href="/playlists">
+              <div className={menuItemClass("/playlists")}>
+                <span className="material-icons mr-3">queue_music</span>
+                <span>Playlists</span>
+              </div>
+            </Link>
+          </li>
           <li>
             <Link href="/categories">
               <div className={menuItemClass("/categories")}>
@@ -80,6 +88,14 @@ export function Sidebar({ isOpen, onClose }: SidebarProps) {
               </div>
             </Link>
           </li>
+          <li>
+            <Link href="/stats">
+              <div className={menuItemClass("/stats")}>
+                <span className="material-icons mr-3">insights</span>
+                <span>Listening Stats</span>
+              </div>
+            </Link>
+          </li>
           <li>
             <Link href="/settings">
               <div className={menuItemClass("/settings")}>
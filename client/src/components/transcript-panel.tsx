@@ -0,0 +1,101 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { NewsletterTranscript } from "@shared/schema";
+import { useAudio } from "@/hooks/use-audio";
+import { cn } from "@/lib/utils";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Skeleton } from "@/components/ui/skeleton";
+
+export function TranscriptPanel() {
+  const { currentNewsletter, currentTime, seekTo } = useAudio();
+  const [open, setOpen] = useState(false);
+  const activeRef = useRef<HTMLButtonElement>(null);
+
+  const { data: transcript, isLoading } = useQuery<NewsletterTranscript>({
+    queryKey: [`/api/newsletters/${currentNewsletter?.id}/transcript`],
+    enabled: open && !!currentNewsletter,
+  });
+
+  const activeIndex = transcript?.timed
+    ? transcript.segments.findIndex((segment) => currentTime >= segment.start && currentTime < segment.end)
+    : -1;
+
+  // Keep the paragraph being read in view as playback moves on
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ block: "center", behavior: "smooth" });
+  }, [activeIndex]);
+
+  if (!currentNewsletter) {
+    return null;
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <button className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300" title="Transcript">
+          <span className="material-icons">subject</span>
+        </button>
+      </SheetTrigger>
+      <SheetContent side="right" className="w-full sm:max-w-lg flex flex-col">
+        <SheetHeader>
+          <SheetTitle>{currentNewsletter.title}</SheetTitle>
+          <SheetDescription>{currentNewsletter.publisher}</SheetDescription>
+        </SheetHeader>
+
+        <Tabs defaultValue="transcript" className="flex-1 flex flex-col min-h-0 mt-4">
+          <TabsList className="self-start">
+            <TabsTrigger value="transcript">Transcript</TabsTrigger>
+            <TabsTrigger value="original" disabled={!transcript?.html}>Original email</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="transcript" className="flex-1 min-h-0">
+            <ScrollArea className="h-full pr-3">
+              {isLoading ? (
+                <div className="space-y-3">
+                  {[...Array(5)].map((_, i) => (
+                    <Skeleton key={i} className="h-16 w-full" />
+                  ))}
+                </div>
+              ) : !transcript || transcript.segments.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No transcript available.</p>
+              ) : (
+                <div className="space-y-1">
+                  {transcript.segments.map((segment, index) => (
+                    <button
+                      key={index}
+                      ref={index === activeIndex ? activeRef : undefined}
+                      className={cn(
+                        "block w-full text-left text-sm leading-relaxed rounded px-2 py-1.5 transition-colors",
+                        index === activeIndex
+                          ? "bg-primary/10 text-gray-900 dark:text-white"
+                          : "text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700",
+                        !transcript.timed && "cursor-default hover:bg-transparent"
+                      )}
+                      onClick={() => transcript.timed && seekTo(segment.start)}
+                    >
+                      {segment.text}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </ScrollArea>
+          </TabsContent>
+
+          <TabsContent value="original" className="flex-1 min-h-0">
+            {transcript?.html && (
+              // Sandboxed so the email's scripts and forms can't run
+              <iframe
+                title="Original email"
+                sandbox=""
+                srcDoc={transcript.html}
+                className="w-full h-full rounded border border-gray-200 dark:border-gray-700 bg-white"
+              />
+            )}
+          </TabsContent>
+        </Tabs>
+      </SheetContent>
+    </Sheet>
+  );
+}
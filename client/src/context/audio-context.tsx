@@ -1,36 +1,64 @@
 import { createContext, useEffect, useRef, useState } from "react";
-import { Newsletter } from "@shared/schema";
+import { ListeningEventType, ListeningProgress, NewsletterSummary } from "@shared/schema";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { Howl } from "howler";
+import { useAuth } from "@/context/auth-context";
+import { apiRequest } from "@/lib/queryClient";
+import { toast } from "@/hooks/use-toast";
+
+// Save the playback position at most this often while playing
+const PROGRESS_SAVE_INTERVAL_MS = 15000;
+// Don't resume within the last few seconds of an episode
+const RESUME_END_MARGIN_SECONDS = 5;
+// "Previous" restarts the current episode once it has played this long
+const RESTART_THRESHOLD_SECONDS = 3;
+
+// Howler returns the sound itself instead of a position until the audio has loaded
+function currentPosition(sound: Howl): number {
+  const position = sound.seek();
+  return typeof position === "number" ? position : 0;
+}
 
 interface AudioContextType {
-  currentNewsletter: Newsletter | null;
-  playlist: Newsletter[];
+  currentNewsletter: NewsletterSummary | null;
+  queue: NewsletterSummary[];
   isPlaying: boolean;
   currentTime: number;
   duration: number;
-  play: (newsletter: Newsletter) => void;
+  play: (newsletter: NewsletterSummary) => void;
+  playAll: (newsletters: NewsletterSummary[]) => void;
   togglePlayPause: () => void;
   seekTo: (time: number) => void;
   setVolume: (volume: number) => void;
   setPlaybackRate: (rate: number) => void;
   playNext: () => void;
   playPrevious: () => void;
+  enqueue: (newsletter: NewsletterSummary) => void;
+  enqueueNext: (newsletter: NewsletterSummary) => void;
+  moveInQueue: (fromIndex: number, toIndex: number) => void;
+  removeFromQueue: (newsletterId: number) => void;
+  clearQueue: () => void;
 }
 
 export const AudioContext = createContext<AudioContextType>({
   currentNewsletter: null,
-  playlist: [],
+  queue: [],
   isPlaying: false,
   currentTime: 0,
   duration: 0,
   play: () => {},
+  playAll: () => {},
   togglePlayPause: () => {},
   seekTo: () => {},
   setVolume: () => {},
   setPlaybackRate: () => {},
   playNext: () => {},
   playPrevious: () => {},
+  enqueue: () => {},
+  enqueueNext: () => {},
+  moveInQueue: () => {},
+  removeFromQueue: () => {},
+  clearQueue: () => {},
 });
 
 interface AudioProviderProps {
@@ -38,34 +66,127 @@ interface AudioProviderProps {
 }
 
 export function AudioProvider({ children }: AudioProviderProps) {
-  const [currentNewsletter, setCurrentNewsletter] = useState<Newsletter | null>(null);
+  const [currentNewsletter, setCurrentNewsletter] = useState<NewsletterSummary | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
   const soundRef = useRef<Howl | null>(null);
+  const newsletterRef = useRef<NewsletterSummary | null>(null);
+  const lastProgressSaveRef = useRef(0);
   const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  // Keep the latest user available to Howler callbacks
+  const userRef = useRef(user);
+  userRef.current = user;
 
-  // Fetch recent newsletters for the playlist
-  const { data: recentNewsletters = [] } = useQuery<Newsletter[]>({
-    queryKey: ["/api/newsletters/recent"],
+  // Upcoming newsletters; the ref gives Howler callbacks the latest queue
+  const [queue, setQueueState] = useState<NewsletterSummary[]>([]);
+  const queueRef = useRef<NewsletterSummary[]>([]);
+  // Newsletters played before the current one, most recent last
+  const historyRef = useRef<NewsletterSummary[]>([]);
+
+  const setQueue = (next: NewsletterSummary[]) => {
+    queueRef.current = next;
+    setQueueState(next);
+  };
+
+  // Load the signed-in user's saved queue
+  const { data: savedQueue } = useQuery<NewsletterSummary[]>({
+    queryKey: ["/api/user/queue"],
+    enabled: !!user,
   });
 
-  // Update playlist when recent newsletters change
-  const [playlist, setPlaylist] = useState<Newsletter[]>([]);
   useEffect(() => {
-    if (recentNewsletters.length > 0) {
-      setPlaylist(recentNewsletters);
+    if (savedQueue) {
+      setQueue(savedQueue);
+    }
+  }, [savedQueue]);
+
+  useEffect(() => {
+    if (!user) {
+      setQueue([]);
     }
-  }, [recentNewsletters]);
+  }, [user]);
+
+  // Apply a queue change locally and persist it for signed-in users
+  const updateQueue = (next: NewsletterSummary[]) => {
+    setQueue(next);
+    if (!userRef.current) return;
+
+    const newsletterIds = next.map((n) => n.id);
+    apiRequest("PUT", "/api/user/queue", { newsletterIds })
+      .then(() => queryClient.setQueryData(["/api/user/queue"], next))
+      .catch((error) => console.error("Error saving play queue:", error));
+  };
+
+  const withoutNewsletter = (newsletterId: number) =>
+    queueRef.current.filter((n) => n.id !== newsletterId);
 
   const updatePlayStatus = (status: boolean) => {
     setIsPlaying(status);
   };
 
+  // Store the playback position on the server for signed-in users
+  const saveProgress = (completed = false) => {
+    const sound = soundRef.current;
+    const newsletter = newsletterRef.current;
+    if (!userRef.current || !sound || !newsletter) return;
+
+    lastProgressSaveRef.current = Date.now();
+    const position = completed ? sound.duration() : (sound.seek() as number);
+    apiRequest("PUT", `/api/user/progress/${newsletter.id}`, { position, completed })
+      .catch((error) => console.error("Error saving listening progress:", error));
+  };
+
+  // Record what happened in the player for the signed-in user's history and stats
+  const logListeningEvent = (
+    newsletter: NewsletterSummary,
+    type: ListeningEventType,
+    position: number,
+    fromPosition?: number
+  ) => {
+    if (!userRef.current) return;
+
+    apiRequest("POST", "/api/user/history", { newsletterId: newsletter.id, type, position, fromPosition })
+      .catch((error) => console.error("Error recording listening event:", error));
+  };
+
+  // Saved position to resume from, or 0 when there is nothing to resume
+  const fetchResumePosition = async (newsletter: NewsletterSummary): Promise<number> => {
+    if (!userRef.current) return 0;
+
+    try {
+      const response = await apiRequest("GET", `/api/user/progress/${newsletter.id}`);
+      const progress: ListeningProgress = await response.json();
+      return progress.completed ? 0 : progress.position;
+    } catch {
+      // No progress saved yet
+      return 0;
+    }
+  };
+
+  // Ingested newsletters get their audio from a background job, so a cached copy may predate it
+  const withAudio = async (newsletter: NewsletterSummary): Promise<NewsletterSummary | null> => {
+    if (newsletter.audioUrl) return newsletter;
+
+    try {
+      const response = await apiRequest("GET", `/api/newsletters/${newsletter.id}`);
+      const latest: NewsletterSummary = await response.json();
+      return latest.audioUrl ? latest : null;
+    } catch {
+      return null;
+    }
+  };
+
   const updateTimeInfo = () => {
     if (soundRef.current) {
       const seek = soundRef.current.seek() as number;
       setCurrentTime(seek);
+
+      if (soundRef.current.playing() && Date.now() - lastProgressSaveRef.current > PROGRESS_SAVE_INTERVAL_MS) {
+        saveProgress();
+      }
       
       // Schedule the next update
       requestAnimationFrame(updateTimeInfo);
@@ -73,9 +194,13 @@ export function AudioProvider({ children }: AudioProviderProps) {
   };
 
   // Clean up and set up a new audio
-  const setupAudio = (newsletter: Newsletter) => {
+  const setupAudio = (newsletter: NewsletterSummary, startAt = 0) => {
     // Clean up existing sound
     if (soundRef.current) {
+      saveProgress();
+      if (soundRef.current.playing() && newsletterRef.current) {
+        logListeningEvent(newsletterRef.current, "pause", currentPosition(soundRef.current));
+      }
       soundRef.current.stop();
       soundRef.current.unload();
     }
@@ -86,28 +211,76 @@ export function AudioProvider({ children }: AudioProviderProps) {
       html5: true,
       onplay: () => {
         updatePlayStatus(true);
+        logListeningEvent(newsletter, "play", currentPosition(sound));
         requestAnimationFrame(updateTimeInfo);
       },
-      onpause: () => updatePlayStatus(false),
+      onpause: () => {
+        updatePlayStatus(false);
+        logListeningEvent(newsletter, "pause", currentPosition(sound));
+        saveProgress();
+      },
       onstop: () => updatePlayStatus(false),
       onend: () => {
         updatePlayStatus(false);
+        logListeningEvent(newsletter, "complete", sound.duration());
+        saveProgress(true);
         playNext();
       },
       onload: () => {
         setDuration(sound.duration());
+
+        // Resume where the listener left off
+        if (startAt > 0 && startAt < sound.duration() - RESUME_END_MARGIN_SECONDS) {
+          const from = currentPosition(sound);
+          sound.seek(startAt);
+          setCurrentTime(startAt);
+          logListeningEvent(newsletter, "seek", startAt, from);
+        }
       },
     });
 
     soundRef.current = sound;
+    newsletterRef.current = newsletter;
+    lastProgressSaveRef.current = Date.now();
     setCurrentNewsletter(newsletter);
     
     // Play the sound
     sound.play();
   };
 
-  const play = (newsletter: Newsletter) => {
-    setupAudio(newsletter);
+  const startPlayback = async (newsletter: NewsletterSummary) => {
+    const playable = await withAudio(newsletter);
+    if (!playable) {
+      toast({
+        title: "Audio not ready yet",
+        description: "This newsletter is still being converted to audio. Try again in a moment.",
+      });
+      return;
+    }
+
+    // Playing a queued newsletter takes it out of the queue
+    if (queueRef.current.some((n) => n.id === newsletter.id)) {
+      updateQueue(withoutNewsletter(newsletter.id));
+    }
+
+    const startAt = await fetchResumePosition(playable);
+    setupAudio(playable, startAt);
+  };
+
+  const play = (newsletter: NewsletterSummary) => {
+    if (newsletterRef.current && newsletterRef.current.id !== newsletter.id) {
+      historyRef.current.push(newsletterRef.current);
+    }
+    startPlayback(newsletter);
+  };
+
+  // Play the first newsletter and queue the rest in order
+  const playAll = (newsletters: NewsletterSummary[]) => {
+    const [first, ...rest] = newsletters;
+    if (!first) return;
+
+    updateQueue(rest);
+    play(first);
   };
 
   const togglePlayPause = () => {
@@ -122,8 +295,12 @@ export function AudioProvider({ children }: AudioProviderProps) {
 
   const seekTo = (time: number) => {
     if (soundRef.current) {
+      const from = currentPosition(soundRef.current);
       soundRef.current.seek(time);
       setCurrentTime(time);
+      if (newsletterRef.current) {
+        logListeningEvent(newsletterRef.current, "seek", time, from);
+      }
     }
   };
 
@@ -139,25 +316,54 @@ export function AudioProvider({ children }: AudioProviderProps) {
     }
   };
 
-  const findCurrentIndex = () => {
-    if (!currentNewsletter) return -1;
-    return playlist.findIndex(item => item.id === currentNewsletter.id);
-  };
-
+  // Advance to the first queued newsletter; playback stops when the queue is empty
   const playNext = () => {
-    const currentIndex = findCurrentIndex();
-    if (currentIndex === -1 || playlist.length === 0) return;
-    
-    const nextIndex = (currentIndex + 1) % playlist.length;
-    play(playlist[nextIndex]);
+    const [next] = queueRef.current;
+    if (!next) return;
+    play(next);
   };
 
   const playPrevious = () => {
-    const currentIndex = findCurrentIndex();
-    if (currentIndex === -1 || playlist.length === 0) return;
-    
-    const prevIndex = (currentIndex - 1 + playlist.length) % playlist.length;
-    play(playlist[prevIndex]);
+    const previous = historyRef.current[historyRef.current.length - 1];
+    const current = newsletterRef.current;
+    const position = soundRef.current ? (soundRef.current.seek() as number) : 0;
+
+    if (!previous || position > RESTART_THRESHOLD_SECONDS) {
+      seekTo(0);
+      return;
+    }
+
+    // Put the current newsletter back at the front of the queue
+    historyRef.current.pop();
+    if (current) {
+      updateQueue([current, ...withoutNewsletter(current.id)]);
+    }
+    startPlayback(previous);
+  };
+
+  const enqueue = (newsletter: NewsletterSummary) => {
+    updateQueue([...withoutNewsletter(newsletter.id), newsletter]);
+  };
+
+  const enqueueNext = (newsletter: NewsletterSummary) => {
+    updateQueue([newsletter, ...withoutNewsletter(newsletter.id)]);
+  };
+
+  const moveInQueue = (fromIndex: number, toIndex: number) => {
+    const next = [...queueRef.current];
+    if (fromIndex < 0 || fromIndex >= next.length || toIndex < 0 || toIndex >= next.length) return;
+
+    const [moved] = next.splice(fromIndex, 1);
+    next.splice(toIndex, 0, moved);
+    updateQueue(next);
+  };
+
+  const removeFromQueue = (newsletterId: number) => {
+    updateQueue(withoutNewsletter(newsletterId));
+  };
+
+  const clearQueue = () => {
+    updateQueue([]);
   };
 
   // Clean up on unmount
@@ -172,17 +378,23 @@ export function AudioProvider({ children }: AudioProviderProps) {
 
   const contextValue: AudioContextType = {
     currentNewsletter,
-    playlist,
+    queue,
     isPlaying,
     currentTime,
     duration,
     play,
+    playAll,
     togglePlayPause,
     seekTo,
     setVolume,
     setPlaybackRate,
     playNext,
     playPrevious,
+    enqueue,
+    enqueueNext,
+    moveInQueue,
+    removeFromQueue,
+    clearQueue,
   };
 
   return (
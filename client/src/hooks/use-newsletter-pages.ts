@@ -0,0 +1,60 @@
+import { useEffect, useRef } from "react";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { NewsletterPage, NewsletterSort } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+
+interface NewsletterPageParams {
+  // Query parameter names differ between endpoints, e.g. { category: 3 } or { categoryId: 3 }
+  filters?: Record<string, string | number | null | undefined>;
+  sort: NewsletterSort;
+  limit?: number;
+  enabled?: boolean;
+}
+
+// Cursor-paginated newsletter list. The endpoint stays the first query key
+// so invalidating it refreshes every filter and sort combination.
+export function useNewsletterPages(endpoint: string, { filters = {}, sort, limit, enabled = true }: NewsletterPageParams) {
+  const query = useInfiniteQuery({
+    queryKey: [endpoint, { ...filters, sort, limit }],
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams({ sort });
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value !== null && value !== undefined && value !== "") params.set(key, String(value));
+      });
+      if (limit) params.set("limit", String(limit));
+      if (pageParam) params.set("cursor", pageParam);
+
+      const response = await apiRequest("GET", `${endpoint}?${params}`);
+      return (await response.json()) as NewsletterPage;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled,
+  });
+
+  const newsletters = query.data?.pages.flatMap((page) => page.items) ?? [];
+  return { ...query, newsletters };
+}
+
+// Ref for an element at the end of a list; loads the next page when it scrolls into view
+export function useLoadMoreRef<T extends Element>(
+  { hasNextPage, isFetchingNextPage, fetchNextPage }: { hasNextPage: boolean; isFetchingNextPage: boolean; fetchNextPage: () => unknown }
+) {
+  const ref = useRef<T>(null);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || !hasNextPage) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) {
+        fetchNextPage();
+      }
+    }, { rootMargin: "200px" });
+
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  return ref;
+}
@@ -0,0 +1,21 @@
+import { Job } from "@shared/schema";
+import { apiRequest } from "./queryClient";
+
+const POLL_INTERVAL_MS = 1000;
+
+// Poll a background job until it finishes, resolving with its result
+export async function waitForJob<T>(job: Job, intervalMs = POLL_INTERVAL_MS): Promise<T> {
+  let current = job;
+
+  while (current.status === "pending" || current.status === "running") {
+    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+    const response = await apiRequest("GET", `/api/jobs/${current.id}`);
+    current = await response.json();
+  }
+
+  if (current.status === "failed") {
+    throw new Error(current.error || "Job failed");
+  }
+
+  return current.result as T;
+}
@@ -71,3 +71,16 @@ export const queryClient = new QueryClient({
     },
   },
 });
+
+// Newsletter lists, search and Discover leave out senders the user unsubscribed
+// from, so all of them change when a subscription does
+const SUBSCRIPTION_DEPENDENT_QUERIES = ["/api/newsletters/", "/api/search", "/api/publishers", "/api/discover/"];
+
+export function invalidateSubscriptionDependentQueries(client: QueryClient) {
+  return client.invalidateQueries({
+    predicate: (query) => {
+      const [key] = query.queryKey;
+      return typeof key === "string" && SUBSCRIPTION_DEPENDENT_QUERIES.some((prefix) => key.startsWith(prefix));
+    },
+  });
+}
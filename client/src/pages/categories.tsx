@@ -1,13 +1,16 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Header } from "@/components/header";
-import { Category, Newsletter } from "@shared/schema";
+import { Category, NewsletterSort, NewsletterSummary } from "@shared/schema";
 import { NewsletterCard } from "@/components/newsletter-card";
+import { NewsletterSortSelect } from "@/components/newsletter-sort-select";
 import { useAuth } from "@/context/auth-context";
+import { useLoadMoreRef, useNewsletterPages } from "@/hooks/use-newsletter-pages";
 
 export default function Categories() {
   const [activeCategory, setActiveCategory] = useState<Category | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
+  const [sort, setSort] = useState<NewsletterSort>("newest");
   const { user } = useAuth();
 
   // Categories query
@@ -15,18 +18,17 @@ export default function Categories() {
     queryKey: ["/api/categories"],
   });
 
-  // Newsletters by category query
-  const { data: newsletters, isLoading: newslettersLoading } = useQuery<Newsletter[]>({
-    queryKey: [
-      "/api/newsletters/by-category", 
-      activeCategory?.id ?? "all",
-      searchQuery ? `search=${searchQuery}` : ''
-    ],
+  // Newsletters by category query, loading more as the grid scrolls
+  const newslettersQuery = useNewsletterPages("/api/newsletters/by-category", {
+    filters: { categoryId: activeCategory?.id, search: searchQuery },
+    sort,
     enabled: !!categories?.length,
   });
+  const { newsletters, isLoading: newslettersLoading } = newslettersQuery;
+  const loadMoreRef = useLoadMoreRef<HTMLDivElement>(newslettersQuery);
 
   // User's saved newsletters query
-  const savedQuery = useQuery<{ newsletter: Newsletter; savedAt: string }[]>({
+  const savedQuery = useQuery<{ newsletter: NewsletterSummary; savedAt: string }[]>({
     queryKey: ["/api/user/newsletters"],
     enabled: !!user, // Only run if user is logged in
   });
@@ -75,7 +77,10 @@ export default function Categories() {
 
   return (
     <div className="flex-1 p-4 overflow-y-auto">
-      <h2 className="text-lg font-medium text-gray-900 dark:text-white mb-4">Categories</h2>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-medium text-gray-900 dark:text-white">Categories</h2>
+        <NewsletterSortSelect value={sort} onChange={setSort} />
+      </div>
       
       {/* Category Tabs */}
       <div className="flex overflow-x-auto pb-2 mb-6">
@@ -121,7 +126,7 @@ export default function Categories() {
               </div>
             </div>
           ))
-        ) : newsletters?.length ? (
+        ) : newsletters.length ? (
           newsletters.map(newsletter => (
             <NewsletterCard 
               key={newsletter.id} 
@@ -135,6 +140,10 @@ export default function Categories() {
           </p>
         )}
       </div>
+      <div ref={loadMoreRef} className="h-1" />
+      {newslettersQuery.isFetchingNextPage && (
+        <p className="text-gray-500 dark:text-gray-400 text-center text-sm py-2">Loading more...</p>
+      )}
     </div>
   );
 }
@@ -0,0 +1,112 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { CategoryArrivals, NewsletterSummary, PublisherSummary, TrendingPublisher } from "@shared/schema";
+import { NewsletterCard } from "@/components/newsletter-card";
+import { FollowPublisherButton } from "@/components/follow-publisher-button";
+import { useAuth } from "@/context/auth-context";
+import { formatDate } from "@/lib/utils";
+
+function publisherPath(publisher: string): string {
+  return `/discover/${encodeURIComponent(publisher)}`;
+}
+
+function PublisherTile({ publisher, children }: { publisher: PublisherSummary; children?: React.ReactNode }) {
+  return (
+    <Link href={publisherPath(publisher.publisher)}>
+      <div className="flex items-center p-3 bg-white dark:bg-gray-800 rounded-lg shadow-sm cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700">
+        <img
+          src={publisher.imageUrl}
+          alt={`${publisher.publisher} cover`}
+          className="w-12 h-12 rounded object-cover mr-3"
+        />
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{publisher.publisher}</p>
+          <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+            {children ?? `${publisher.newsletterCount} episodes • Latest ${formatDate(publisher.latestPublishedAt)}`}
+          </p>
+        </div>
+        <FollowPublisherButton publisher={publisher} />
+      </div>
+    </Link>
+  );
+}
+
+export default function Discover() {
+  const { user } = useAuth();
+
+  const trendingQuery = useQuery<TrendingPublisher[]>({
+    queryKey: ["/api/publishers/trending"],
+  });
+
+  const arrivalsQuery = useQuery<CategoryArrivals[]>({
+    queryKey: ["/api/discover/new-arrivals"],
+  });
+
+  const publishersQuery = useQuery<PublisherSummary[]>({
+    queryKey: ["/api/publishers"],
+  });
+
+  const savedQuery = useQuery<{ newsletter: NewsletterSummary; savedAt: string }[]>({
+    queryKey: ["/api/user/newsletters"],
+    enabled: !!user,
+  });
+
+  const isNewsletterSaved = (newsletterId: number) =>
+    !!savedQuery.data?.some((item) => item.newsletter.id === newsletterId);
+
+  const loadingRows = Array(3).fill(0).map((_, i) => (
+    <div key={i} className="h-16 bg-gray-200 dark:bg-gray-700 rounded-lg animate-pulse"></div>
+  ));
+
+  return (
+    <div className="flex-1 p-4 overflow-y-auto">
+      {/* Trending publishers */}
+      <div className="mb-6">
+        <h2 className="text-lg font-medium text-gray-900 dark:text-white mb-3">Trending This Week</h2>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {trendingQuery.isLoading ? (
+            loadingRows
+          ) : trendingQuery.data?.length ? (
+            trendingQuery.data.map((publisher, index) => (
+              <PublisherTile key={publisher.publisher} publisher={publisher}>
+                #{index + 1} • {publisher.listens} listens • {publisher.saves} saves
+              </PublisherTile>
+            ))
+          ) : (
+            <p className="text-gray-500 dark:text-gray-400 md:col-span-2 text-center py-4">
+              Nothing is trending yet. Publishers show up here as people listen to and save their newsletters.
+            </p>
+          )}
+        </div>
+      </div>
+
+      {/* New arrivals per category */}
+      {arrivalsQuery.data?.map(({ category, newsletters }) => (
+        <div key={category.id} className="mb-6">
+          <h2 className="text-lg font-medium text-gray-900 dark:text-white mb-3">New in {category.name}</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+            {newsletters.map((newsletter) => (
+              <NewsletterCard
+                key={newsletter.id}
+                newsletter={newsletter}
+                isSaved={isNewsletterSaved(newsletter.id)}
+              />
+            ))}
+          </div>
+        </div>
+      ))}
+
+      {/* Publisher directory */}
+      <div className="mb-6">
+        <h2 className="text-lg font-medium text-gray-900 dark:text-white mb-3">All Publishers</h2>
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+          {publishersQuery.isLoading
+            ? loadingRows
+            : publishersQuery.data?.map((publisher) => (
+                <PublisherTile key={publisher.publisher} publisher={publisher} />
+              ))}
+        </div>
+      </div>
+    </div>
+  );
+}
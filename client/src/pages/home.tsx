@@ -1,37 +1,74 @@
 import { useEffect, useState } from "react";
+import { Link } from "wouter";
 import { useQuery } from "@tanstack/react-query";
 import { Header } from "@/components/header";
 import { CategoryList } from "@/components/category-list";
 import { NewsletterCard } from "@/components/newsletter-card";
 import { NewsletterListItem } from "@/components/newsletter-list-item";
-import { Newsletter } from "@shared/schema";
+import { NewsletterSortSelect } from "@/components/newsletter-sort-select";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Category, NewsletterSort, NewsletterSummary, Recommendation } from "@shared/schema";
 import { useAuth } from "@/context/auth-context";
+import { useLoadMoreRef, useNewsletterPages } from "@/hooks/use-newsletter-pages";
+
+// Featured cards are a showcase, so they grow by button rather than on scroll
+const FEATURED_PAGE_SIZE = 6;
+const FOR_YOU_LIMIT = 6;
 
 export default function Home() {
   const [selectedCategoryId, setSelectedCategoryId] = useState<number | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
   const { user } = useAuth();
 
+  const [sort, setSort] = useState<NewsletterSort>("newest");
+  const filters = { category: selectedCategoryId, search: searchQuery };
+
   // Featured newsletters query
-  const featuredQuery = useQuery<Newsletter[]>({
-    queryKey: [
-      "/api/newsletters/featured", 
-      selectedCategoryId ? `category=${selectedCategoryId}` : '', 
-      searchQuery ? `search=${searchQuery}` : ''
-    ],
+  const featuredQuery = useNewsletterPages("/api/newsletters/featured", {
+    filters,
+    sort,
+    limit: FEATURED_PAGE_SIZE,
+  });
+
+  // Recent newsletters query, loading more as the list scrolls. Signed-in users
+  // only get their subscribed senders unless they choose to see everything.
+  const [showEverything, setShowEverything] = useState(false);
+  const recentQuery = useNewsletterPages("/api/newsletters/recent", {
+    filters: { ...filters, scope: user ? (showEverything ? "all" : "subscribed") : undefined },
+    sort,
   });
+  const loadMoreRecentRef = useLoadMoreRef<HTMLDivElement>(recentQuery);
 
-  // Recent newsletters query
-  const recentQuery = useQuery<Newsletter[]>({
-    queryKey: [
-      "/api/newsletters/recent", 
-      selectedCategoryId ? `category=${selectedCategoryId}` : '', 
-      searchQuery ? `search=${searchQuery}` : ''
-    ],
+  // Personal recommendations, which shift with every save and listen
+  const forYouQuery = useQuery<Recommendation[]>({
+    queryKey: [`/api/newsletters/for-you?limit=${FOR_YOU_LIMIT}`],
+    enabled: !!user,
+    staleTime: 0,
   });
 
+  const { data: categories } = useQuery<Category[]>({
+    queryKey: ["/api/categories"],
+  });
+
+  const recommendationReason = ({ newsletter, reason }: Recommendation) => {
+    switch (reason) {
+      case "subscribed":
+        return "From a sender you follow";
+      case "publisher":
+        return `Because you listen to ${newsletter.publisher}`;
+      case "category": {
+        const category = categories?.find((c) => c.id === newsletter.categoryId);
+        return category ? `More ${category.name}` : "Similar to what you like";
+      }
+      default:
+        return "New for you";
+    }
+  };
+
   // User's saved newsletters query
-  const savedQuery = useQuery<{ newsletter: Newsletter; savedAt: string }[]>({
+  const savedQuery = useQuery<{ newsletter: NewsletterSummary; savedAt: string }[]>({
     queryKey: ["/api/user/newsletters"],
     enabled: !!user, // Only run if user is logged in
   });
@@ -69,14 +106,39 @@ export default function Home() {
         selectedCategoryId={selectedCategoryId} 
       />
       
+      {/* For You section */}
+      {user && (forYouQuery.isLoading || !!forYouQuery.data?.length) && (
+        <div className="mb-6">
+          <h2 className="text-lg font-medium text-gray-900 dark:text-white mb-3">For You</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {forYouQuery.isLoading
+              ? loadingCards
+              : forYouQuery.data?.map((recommendation) => (
+                  <div key={recommendation.newsletter.id}>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mb-1 truncate">
+                      {recommendationReason(recommendation)}
+                    </p>
+                    <NewsletterCard
+                      newsletter={recommendation.newsletter}
+                      isSaved={isNewsletterSaved(recommendation.newsletter.id)}
+                    />
+                  </div>
+                ))}
+          </div>
+        </div>
+      )}
+
       {/* Featured Newsletters section */}
       <div className="mb-6">
-        <h2 className="text-lg font-medium text-gray-900 dark:text-white mb-3">Featured Newsletters</h2>
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-lg font-medium text-gray-900 dark:text-white">Featured Newsletters</h2>
+          <NewsletterSortSelect value={sort} onChange={setSort} />
+        </div>
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
           {featuredQuery.isLoading ? (
             loadingCards
-          ) : featuredQuery.data?.length ? (
-            featuredQuery.data.map(newsletter => (
+          ) : featuredQuery.newsletters.length ? (
+            featuredQuery.newsletters.map(newsletter => (
               <NewsletterCard 
                 key={newsletter.id} 
                 newsletter={newsletter} 
@@ -90,11 +152,34 @@ export default function Home() {
             </p>
           )}
         </div>
+        {featuredQuery.hasNextPage && (
+          <div className="flex justify-center mt-4">
+            <Button
+              variant="outline"
+              onClick={() => featuredQuery.fetchNextPage()}
+              disabled={featuredQuery.isFetchingNextPage}
+            >
+              {featuredQuery.isFetchingNextPage ? "Loading..." : "Show more"}
+            </Button>
+          </div>
+        )}
       </div>
       
       {/* Recent Newsletters section */}
       <div className="mb-6">
-        <h2 className="text-lg font-medium text-gray-900 dark:text-white mb-3">Recent Newsletters</h2>
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-lg font-medium text-gray-900 dark:text-white">
+            {user && !showEverything ? "From Your Subscriptions" : "Recent Newsletters"}
+          </h2>
+          {user && (
+            <div className="flex items-center space-x-2">
+              <Switch id="show-everything" checked={showEverything} onCheckedChange={setShowEverything} />
+              <Label htmlFor="show-everything" className="text-sm text-gray-600 dark:text-gray-300">
+                Show everything
+              </Label>
+            </div>
+          )}
+        </div>
         <div className="grid grid-cols-1 gap-3">
           {recentQuery.isLoading ? (
             Array(3).fill(0).map((_, i) => (
@@ -107,19 +192,35 @@ export default function Home() {
                 </div>
               </div>
             ))
-          ) : recentQuery.data?.length ? (
-            recentQuery.data.map(newsletter => (
+          ) : recentQuery.newsletters.length ? (
+            recentQuery.newsletters.map(newsletter => (
               <NewsletterListItem 
                 key={newsletter.id} 
                 newsletter={newsletter} 
               />
             ))
+          ) : user && !showEverything ? (
+            <p className="text-gray-500 dark:text-gray-400 text-center py-4">
+              Nothing from your subscriptions yet.{" "}
+              <Link href="/settings">
+                <span className="text-primary cursor-pointer hover:underline">Manage subscriptions</span>
+              </Link>{" "}
+              or{" "}
+              <button className="text-primary hover:underline" onClick={() => setShowEverything(true)}>
+                show everything
+              </button>
+              .
+            </p>
           ) : (
             <p className="text-gray-500 dark:text-gray-400 text-center py-4">
               No recent newsletters found.
             </p>
           )}
         </div>
+        <div ref={loadMoreRecentRef} className="h-1" />
+        {recentQuery.isFetchingNextPage && (
+          <p className="text-gray-500 dark:text-gray-400 text-center text-sm py-2">Loading more...</p>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,241 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ListeningProgress, NewsletterSummary } from "@shared/schema";
+import { useAuth } from "@/context/auth-context";
+import { useAudio } from "@/hooks/use-audio";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatDate, formatTime } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+
+type LibraryTab = "saved" | "in-progress" | "finished";
+type LibrarySort = "recent" | "oldest" | "longest" | "shortest";
+
+// date is when the newsletter was saved, or last played in the listening tabs
+type LibraryItem = { newsletter: NewsletterSummary; date: string; progress?: ListeningProgress };
+
+const EMPTY_MESSAGES: Record<LibraryTab, string> = {
+  saved: "You haven't saved any newsletters yet. Use the bookmark on any newsletter to keep it here.",
+  "in-progress": "Newsletters you start listening to will show up here.",
+  finished: "Newsletters you listen to the end will show up here.",
+};
+
+function sortItems(items: LibraryItem[], sort: LibrarySort): LibraryItem[] {
+  const byDate = (a: LibraryItem, b: LibraryItem) => new Date(b.date).getTime() - new Date(a.date).getTime();
+  const byDuration = (a: LibraryItem, b: LibraryItem) => b.newsletter.duration - a.newsletter.duration;
+
+  return [...items].sort((a, b) => {
+    switch (sort) {
+      case "recent":
+        return byDate(a, b);
+      case "oldest":
+        return byDate(b, a);
+      case "longest":
+        return byDuration(a, b);
+      case "shortest":
+        return byDuration(b, a);
+    }
+  });
+}
+
+export default function Library() {
+  const { user, showLoginModal } = useAuth();
+  const { play, playAll } = useAudio();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [tab, setTab] = useState<LibraryTab>("saved");
+  const [sort, setSort] = useState<LibrarySort>("recent");
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+
+  const savedQuery = useQuery<{ newsletter: NewsletterSummary; savedAt: string }[]>({
+    queryKey: ["/api/user/newsletters"],
+    enabled: !!user,
+  });
+
+  const listeningQuery = useQuery<{ newsletter: NewsletterSummary; progress: ListeningProgress }[]>({
+    queryKey: ["/api/user/listening"],
+    enabled: !!user,
+    // Progress changes while listening elsewhere in the app
+    staleTime: 0,
+  });
+
+  const items = useMemo(() => {
+    let tabItems: LibraryItem[];
+    if (tab === "saved") {
+      tabItems = (savedQuery.data || []).map(({ newsletter, savedAt }) => ({ newsletter, date: savedAt }));
+    } else {
+      tabItems = (listeningQuery.data || [])
+        .filter(({ progress }) => (tab === "finished" ? progress.completed : !progress.completed && progress.position > 0))
+        .map(({ newsletter, progress }) => ({ newsletter, progress, date: String(progress.updatedAt) }));
+    }
+    return sortItems(tabItems, sort);
+  }, [tab, sort, savedQuery.data, listeningQuery.data]);
+
+  // Selections don't carry over between tabs
+  useEffect(() => {
+    setSelectedIds(new Set());
+  }, [tab]);
+
+  const removeMutation = useMutation({
+    mutationFn: (newsletterIds: number[]) =>
+      tab === "saved"
+        ? apiRequest("DELETE", "/api/user/newsletters", { newsletterIds })
+        : apiRequest("DELETE", "/api/user/progress", { newsletterIds }),
+    onSuccess: (_response, newsletterIds) => {
+      toast({
+        title: "Removed from library",
+        description: `${newsletterIds.length} newsletter${newsletterIds.length === 1 ? "" : "s"} removed`,
+      });
+      setSelectedIds(new Set());
+      queryClient.invalidateQueries({ queryKey: [tab === "saved" ? "/api/user/newsletters" : "/api/user/listening"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to remove newsletters",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!user) {
+    return (
+      <div className="flex-1 p-6 flex flex-col items-center justify-center">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle>Sign In Required</CardTitle>
+            <CardDescription>Please sign in to see your library</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button className="w-full" onClick={showLoginModal}>
+              Sign In
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const isLoading = tab === "saved" ? savedQuery.isLoading : listeningQuery.isLoading;
+  const allSelected = items.length > 0 && items.every((item) => selectedIds.has(item.newsletter.id));
+
+  const toggleSelected = (newsletterId: number) => {
+    const next = new Set(selectedIds);
+    if (next.has(newsletterId)) {
+      next.delete(newsletterId);
+    } else {
+      next.add(newsletterId);
+    }
+    setSelectedIds(next);
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(items.map((item) => item.newsletter.id)));
+  };
+
+  return (
+    <div className="flex-1 p-4 overflow-y-auto">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-medium text-gray-900 dark:text-white">My Library</h2>
+        <Select value={sort} onValueChange={(value) => setSort(value as LibrarySort)}>
+          <SelectTrigger className="w-40 h-8 text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="recent">{tab === "saved" ? "Recently saved" : "Recently played"}</SelectItem>
+            <SelectItem value="oldest">{tab === "saved" ? "Oldest saved" : "Least recently played"}</SelectItem>
+            <SelectItem value="longest">Longest first</SelectItem>
+            <SelectItem value="shortest">Shortest first</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Tabs value={tab} onValueChange={(value) => setTab(value as LibraryTab)} className="mb-4">
+        <TabsList>
+          <TabsTrigger value="saved">Saved</TabsTrigger>
+          <TabsTrigger value="in-progress">In progress</TabsTrigger>
+          <TabsTrigger value="finished">Finished</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      ) : items.length === 0 ? (
+        <p className="text-gray-500 dark:text-gray-400 text-center py-8">{EMPTY_MESSAGES[tab]}</p>
+      ) : (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm">
+          {/* Bulk actions */}
+          <div className="flex items-center p-3 border-b border-gray-100 dark:border-gray-700">
+            <Checkbox checked={allSelected} onCheckedChange={toggleAll} aria-label="Select all" />
+            <span className="ml-3 text-sm text-gray-500 dark:text-gray-400">
+              {selectedIds.size > 0 ? `${selectedIds.size} selected` : `${items.length} newsletters`}
+            </span>
+            <div className="ml-auto flex space-x-2">
+              {selectedIds.size > 0 && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => removeMutation.mutate(Array.from(selectedIds))}
+                  disabled={removeMutation.isPending}
+                >
+                  <span className="material-icons text-base mr-1">delete</span>
+                  Remove
+                </Button>
+              )}
+              <Button size="sm" onClick={() => playAll(items.map((item) => item.newsletter))}>
+                <span className="material-icons text-base mr-1">play_arrow</span>
+                Play all
+              </Button>
+            </div>
+          </div>
+
+          <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+            {items.map(({ newsletter, date, progress }) => (
+              <li key={newsletter.id} className="flex items-center p-3">
+                <Checkbox
+                  checked={selectedIds.has(newsletter.id)}
+                  onCheckedChange={() => toggleSelected(newsletter.id)}
+                  aria-label={`Select ${newsletter.title}`}
+                />
+                <img
+                  src={newsletter.imageUrl}
+                  alt={`${newsletter.title} cover`}
+                  className="w-12 h-12 rounded object-cover mx-3"
+                />
+                <button className="flex-1 min-w-0 text-left" onClick={() => play(newsletter)}>
+                  <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{newsletter.title}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                    {newsletter.publisher} • {tab === "saved" ? "Saved" : "Played"} {formatDate(date)}
+                  </p>
+                  {progress && !progress.completed && (
+                    <Progress value={(progress.position / Math.max(newsletter.duration, 1)) * 100} className="h-1 mt-2" />
+                  )}
+                </button>
+                <span className="ml-3 text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                  {progress && !progress.completed
+                    ? `${formatTime(newsletter.duration - progress.position)} left`
+                    : formatTime(newsletter.duration)}
+                </span>
+                <button
+                  className="ml-3 text-primary hover:text-primary/80"
+                  onClick={() => play(newsletter)}
+                  title="Play"
+                >
+                  <span className="material-icons">play_circle</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
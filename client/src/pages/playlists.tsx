@@ -0,0 +1,285 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { PlaylistWithNewsletters } from "@shared/schema";
+import { useAuth } from "@/context/auth-context";
+import { useAudio } from "@/hooks/use-audio";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatTime } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+
+type PlaylistFormData = { name: string; description: string };
+
+export default function Playlists() {
+  const { user, showLoginModal } = useAuth();
+  const { playAll, play } = useAudio();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [editing, setEditing] = useState<PlaylistWithNewsletters | "new" | null>(null);
+  const [form, setForm] = useState<PlaylistFormData>({ name: "", description: "" });
+
+  const { data: playlists, isLoading } = useQuery<PlaylistWithNewsletters[]>({
+    queryKey: ["/api/user/playlists"],
+    enabled: !!user,
+  });
+
+  const selected = playlists?.find((p) => p.id === selectedId) ?? playlists?.[0] ?? null;
+
+  useEffect(() => {
+    if (editing === "new") {
+      setForm({ name: "", description: "" });
+    } else if (editing) {
+      setForm({ name: editing.name, description: editing.description || "" });
+    }
+  }, [editing]);
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Something went wrong",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["/api/user/playlists"] });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const data = { name: form.name, description: form.description || null };
+      const response = editing === "new"
+        ? await apiRequest("POST", "/api/user/playlists", data)
+        : await apiRequest("PUT", `/api/user/playlists/${(editing as PlaylistWithNewsletters).id}`, data);
+      return (await response.json()) as PlaylistWithNewsletters;
+    },
+    onSuccess: (playlist) => {
+      setEditing(null);
+      setSelectedId(playlist.id);
+      invalidate();
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/user/playlists/${id}`),
+    onSuccess: () => {
+      setSelectedId(null);
+      invalidate();
+    },
+    onError,
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: ({ id, newsletterIds }: { id: number; newsletterIds: number[] }) =>
+      apiRequest("PUT", `/api/user/playlists/${id}/newsletters`, { newsletterIds }),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const removeItemMutation = useMutation({
+    mutationFn: ({ id, newsletterId }: { id: number; newsletterId: number }) =>
+      apiRequest("DELETE", `/api/user/playlists/${id}/newsletters/${newsletterId}`),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const moveItem = (playlist: PlaylistWithNewsletters, fromIndex: number, toIndex: number) => {
+    const newsletterIds = playlist.newsletters.map((n) => n.id);
+    const [moved] = newsletterIds.splice(fromIndex, 1);
+    newsletterIds.splice(toIndex, 0, moved);
+    reorderMutation.mutate({ id: playlist.id, newsletterIds });
+  };
+
+  if (!user) {
+    return (
+      <div className="flex-1 p-6 flex flex-col items-center justify-center">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle>Sign In Required</CardTitle>
+            <CardDescription>Please sign in to create playlists</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button className="w-full" onClick={showLoginModal}>
+              Sign In
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const totalDuration = selected?.newsletters.reduce((sum, n) => sum + n.duration, 0) ?? 0;
+
+  return (
+    <div className="flex-1 p-4 overflow-y-auto">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-medium text-gray-900 dark:text-white">Playlists</h2>
+        <Button size="sm" onClick={() => setEditing("new")}>
+          <span className="material-icons text-base mr-1">add</span>
+          New Playlist
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      ) : !playlists?.length ? (
+        <p className="text-gray-500 dark:text-gray-400 text-center py-8">
+          You don't have any playlists yet. Create one to group newsletters for later.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {/* Playlist list */}
+          <ul className="space-y-2">
+            {playlists.map((playlist) => (
+              <li key={playlist.id}>
+                <button
+                  className={`w-full text-left p-3 rounded-lg transition-colors ${
+                    selected?.id === playlist.id
+                      ? "bg-primary/10 text-primary"
+                      : "bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700"
+                  }`}
+                  onClick={() => setSelectedId(playlist.id)}
+                >
+                  <p className="font-medium">{playlist.name}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {playlist.newsletters.length} {playlist.newsletters.length === 1 ? "newsletter" : "newsletters"}
+                  </p>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {/* Selected playlist */}
+          {selected && (
+            <div className="md:col-span-2 bg-white dark:bg-gray-800 rounded-lg shadow-sm p-4">
+              <div className="flex items-start justify-between mb-4">
+                <div>
+                  <h3 className="text-xl font-semibold text-gray-900 dark:text-white">{selected.name}</h3>
+                  {selected.description && (
+                    <p className="text-sm text-gray-600 dark:text-gray-300 mt-1">{selected.description}</p>
+                  )}
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    {selected.newsletters.length} newsletters • {formatTime(totalDuration)}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Button size="sm" onClick={() => playAll(selected.newsletters)} disabled={!selected.newsletters.length}>
+                    <span className="material-icons text-base mr-1">play_arrow</span>
+                    Play All
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => setEditing(selected)}>
+                    Edit
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    onClick={() => deleteMutation.mutate(selected.id)}
+                    disabled={deleteMutation.isPending}
+                  >
+                    Delete
+                  </Button>
+                </div>
+              </div>
+
+              {selected.newsletters.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-6">
+                  Add newsletters from any list with the "Add to playlist" menu.
+                </p>
+              ) : (
+                <ol className="divide-y divide-gray-100 dark:divide-gray-700">
+                  {selected.newsletters.map((newsletter, index) => (
+                    <li key={newsletter.id} className="flex items-center py-2">
+                      <span className="w-6 text-sm text-gray-400">{index + 1}</span>
+                      <img
+                        src={newsletter.imageUrl}
+                        alt={`${newsletter.title} cover`}
+                        className="w-10 h-10 rounded object-cover mr-3"
+                      />
+                      <button className="flex-1 min-w-0 text-left" onClick={() => play(newsletter)}>
+                        <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{newsletter.title}</p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{newsletter.publisher}</p>
+                      </button>
+                      <div className="flex items-center ml-2 text-gray-400">
+                        <button
+                          className="hover:text-gray-600 dark:hover:text-gray-300 disabled:opacity-30"
+                          onClick={() => moveItem(selected, index, index - 1)}
+                          disabled={index === 0 || reorderMutation.isPending}
+                        >
+                          <span className="material-icons text-base">arrow_upward</span>
+                        </button>
+                        <button
+                          className="hover:text-gray-600 dark:hover:text-gray-300 disabled:opacity-30"
+                          onClick={() => moveItem(selected, index, index + 1)}
+                          disabled={index === selected.newsletters.length - 1 || reorderMutation.isPending}
+                        >
+                          <span className="material-icons text-base">arrow_downward</span>
+                        </button>
+                        <button
+                          className="hover:text-red-500 dark:hover:text-red-400"
+                          onClick={() => removeItemMutation.mutate({ id: selected.id, newsletterId: newsletter.id })}
+                        >
+                          <span className="material-icons text-base">close</span>
+                        </button>
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Create / edit dialog */}
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editing === "new" ? "New Playlist" : "Edit Playlist"}</DialogTitle>
+            <DialogDescription>Give your playlist a name, like "Morning commute".</DialogDescription>
+          </DialogHeader>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveMutation.mutate();
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="playlist-name">Name</Label>
+              <Input
+                id="playlist-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                autoFocus
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="playlist-description">Description</Label>
+              <Textarea
+                id="playlist-description"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setEditing(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!form.name.trim() || saveMutation.isPending}>
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
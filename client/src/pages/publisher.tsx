@@ -0,0 +1,75 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { PublisherDetail } from "@shared/schema";
+import { NewsletterListItem } from "@/components/newsletter-list-item";
+import { FollowPublisherButton } from "@/components/follow-publisher-button";
+import { Button } from "@/components/ui/button";
+import { useAudio } from "@/hooks/use-audio";
+import { formatDate } from "@/lib/utils";
+
+// The router only decodes part of the path, so reserved characters like "/" are still escaped
+function decodePublisher(param: string): string {
+  try {
+    return decodeURIComponent(param);
+  } catch {
+    return param;
+  }
+}
+
+export default function Publisher() {
+  const params = useParams<{ publisher: string }>();
+  const name = decodePublisher(params.publisher);
+  const { playAll } = useAudio();
+
+  const { data: publisher, isLoading, error } = useQuery<PublisherDetail>({
+    queryKey: [`/api/publishers/${encodeURIComponent(name)}`],
+  });
+
+  return (
+    <div className="flex-1 p-4 overflow-y-auto">
+      <Link href="/discover">
+        <span className="inline-flex items-center text-sm text-gray-500 dark:text-gray-400 hover:text-primary cursor-pointer mb-4">
+          <span className="material-icons text-base mr-1">arrow_back</span>
+          Discover
+        </span>
+      </Link>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      ) : !publisher || error ? (
+        <p className="text-gray-500 dark:text-gray-400 text-center py-8">This publisher could not be found.</p>
+      ) : (
+        <>
+          <div className="flex items-center mb-6">
+            <img
+              src={publisher.imageUrl}
+              alt={`${publisher.publisher} cover`}
+              className="w-20 h-20 rounded-lg object-cover mr-4"
+            />
+            <div className="flex-1 min-w-0">
+              <h2 className="text-xl font-semibold text-gray-900 dark:text-white truncate">{publisher.publisher}</h2>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {publisher.newsletterCount} episodes • Latest {formatDate(publisher.latestPublishedAt)}
+              </p>
+            </div>
+            <div className="flex space-x-2">
+              <Button size="sm" variant="outline" onClick={() => playAll(publisher.newsletters)}>
+                <span className="material-icons text-base mr-1">play_arrow</span>
+                Play all
+              </Button>
+              <FollowPublisherButton publisher={publisher} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 gap-3">
+            {publisher.newsletters.map((newsletter) => (
+              <NewsletterListItem key={newsletter.id} newsletter={newsletter} />
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
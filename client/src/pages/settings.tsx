@@ -9,7 +9,10 @@ import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { apiRequest } from "@/lib/queryClient";
+import { Input } from "@/components/ui/input";
+import { apiRequest, invalidateSubscriptionDependentQueries } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 
 type NewsletterSender = {
   id: number;
@@ -30,6 +33,34 @@ export default function Settings() {
   const [downloadQuality, setDownloadQuality] = useState("high");
   const [playbackSpeed, setPlaybackSpeed] = useState([1]);
 
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: podcastFeed } = useQuery<{ url: string }>({
+    queryKey: ["/api/user/feed"],
+    enabled: !!user,
+  });
+
+  const rotateFeedMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/user/feed/rotate");
+      return (await response.json()) as { url: string };
+    },
+    onSuccess: (feed) => {
+      queryClient.setQueryData(["/api/user/feed"], feed);
+      toast({
+        title: "Feed URL reset",
+        description: "The old feed URL no longer works. Add the new one to your podcast app.",
+      });
+    },
+  });
+
+  const copyFeedUrl = async () => {
+    if (!podcastFeed) return;
+    await navigator.clipboard.writeText(podcastFeed.url);
+    toast({ title: "Copied", description: "Paste the feed URL into your podcast app" });
+  };
+
   const [newsletterSenders, setNewsletterSenders] = useState<NewsletterSender[]>([]);
   const [isLoadingSenders, setIsLoadingSenders] = useState(false);
 
@@ -78,6 +109,9 @@ export default function Settings() {
               : sender
           )
         );
+        // The feed only shows subscribed senders, so their newsletters come and go right away
+        invalidateSubscriptionDependentQueries(queryClient);
+        queryClient.invalidateQueries({ queryKey: ["/api/user/newsletter-senders"] });
       }
     } catch (error) {
       console.error("Error updating subscription:", error);
@@ -201,6 +235,32 @@ export default function Settings() {
         </CardContent>
       </Card>
 
+      {/* Podcast Feed Section */}
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>Podcast Feed</CardTitle>
+          <CardDescription>
+            Listen to your subscribed newsletters in any podcast app. Keep this URL private.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center space-x-2">
+            <Input readOnly value={podcastFeed?.url || ""} placeholder="Loading..." onFocus={(e) => e.target.select()} />
+            <Button variant="outline" onClick={copyFeedUrl} disabled={!podcastFeed}>
+              Copy
+            </Button>
+          </div>
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={() => rotateFeedMutation.mutate()}
+            disabled={rotateFeedMutation.isPending}
+          >
+            Reset Feed URL
+          </Button>
+        </CardContent>
+      </Card>
+
       {/* Appearance Section */}
       <Card className="mb-6">
         <CardHeader>
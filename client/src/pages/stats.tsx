@@ -0,0 +1,192 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { ListeningEvent, ListeningEventType, ListeningStats, NewsletterSummary } from "@shared/schema";
+import { useAuth } from "@/context/auth-context";
+import { formatTime } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+
+const HISTORY_LIMIT = 20;
+
+const chartConfig = {
+  minutes: {
+    label: "Minutes",
+    color: "hsl(var(--primary))",
+  },
+} satisfies ChartConfig;
+
+const EVENT_LABELS: Record<ListeningEventType, { icon: string; label: string }> = {
+  play: { icon: "play_arrow", label: "Played" },
+  pause: { icon: "pause", label: "Paused" },
+  seek: { icon: "fast_forward", label: "Skipped to" },
+  complete: { icon: "check_circle", label: "Finished" },
+};
+
+// Dates from the server are calendar days, so format them without a time zone shift
+function formatDay(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { month: "short", day: "numeric", timeZone: "UTC" });
+}
+
+function StatCard({ label, value, detail }: { label: string; value: string; detail?: string }) {
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-4">
+      <p className="text-xs text-gray-500 dark:text-gray-400">{label}</p>
+      <p className="text-2xl font-semibold text-gray-900 dark:text-white">{value}</p>
+      {detail && <p className="text-xs text-gray-500 dark:text-gray-400">{detail}</p>}
+    </div>
+  );
+}
+
+function TopChart({ title, data }: { title: string; data: { name: string; minutes: number }[] }) {
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-4">
+      <h3 className="text-sm font-medium text-gray-900 dark:text-white mb-3">{title}</h3>
+      {data.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-6">Nothing yet</p>
+      ) : (
+        <ChartContainer config={chartConfig} className="aspect-auto h-48 w-full">
+          <BarChart data={data} layout="vertical" margin={{ left: 8, right: 8 }}>
+            <XAxis type="number" hide />
+            <YAxis type="category" dataKey="name" width={110} tickLine={false} axisLine={false} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <Bar dataKey="minutes" fill="var(--color-minutes)" radius={4} />
+          </BarChart>
+        </ChartContainer>
+      )}
+    </div>
+  );
+}
+
+export default function Stats() {
+  const { user, showLoginModal } = useAuth();
+  const [period, setPeriod] = useState<"daily" | "weekly">("daily");
+
+  const { data: stats, isLoading } = useQuery<ListeningStats>({
+    queryKey: [`/api/user/stats?timezoneOffset=${new Date().getTimezoneOffset()}`],
+    enabled: !!user,
+    // Stats change with every listen
+    staleTime: 0,
+  });
+
+  const { data: history } = useQuery<{ event: ListeningEvent; newsletter: NewsletterSummary }[]>({
+    queryKey: [`/api/user/history?limit=${HISTORY_LIMIT}`],
+    enabled: !!user,
+    staleTime: 0,
+  });
+
+  if (!user) {
+    return (
+      <div className="flex-1 p-6 flex flex-col items-center justify-center">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle>Sign In Required</CardTitle>
+            <CardDescription>Please sign in to see your listening stats</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button className="w-full" onClick={showLoginModal}>
+              Sign In
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (isLoading || !stats) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  const periodData = period === "daily"
+    ? stats.daily.map(({ date, minutes }) => ({ label: formatDay(date), minutes }))
+    : stats.weekly.map(({ weekStart, minutes }) => ({ label: formatDay(weekStart), minutes }));
+
+  return (
+    <div className="flex-1 p-4 overflow-y-auto">
+      <h2 className="text-lg font-medium text-gray-900 dark:text-white mb-4">Listening Stats</h2>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 mb-6">
+        <StatCard label="Minutes listened" value={String(Math.round(stats.totalMinutes))} detail="Last 12 weeks" />
+        <StatCard
+          label="Current streak"
+          value={`${stats.streak.current} day${stats.streak.current === 1 ? "" : "s"}`}
+          detail={`Longest ${stats.streak.longest} day${stats.streak.longest === 1 ? "" : "s"}`}
+        />
+        <StatCard
+          label="Completion rate"
+          value={`${Math.round(stats.completion.rate * 100)}%`}
+          detail={`${stats.completion.completed} of ${stats.completion.started} started`}
+        />
+        <StatCard label="Newsletters started" value={String(stats.completion.started)} detail="Last 12 weeks" />
+      </div>
+
+      {/* Minutes over time */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-4 mb-6">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-sm font-medium text-gray-900 dark:text-white">Minutes listened</h3>
+          <Tabs value={period} onValueChange={(value) => setPeriod(value as "daily" | "weekly")}>
+            <TabsList>
+              <TabsTrigger value="daily">Per day</TabsTrigger>
+              <TabsTrigger value="weekly">Per week</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </div>
+        <ChartContainer config={chartConfig} className="aspect-auto h-56 w-full">
+          <BarChart data={periodData}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+            <YAxis tickLine={false} axisLine={false} width={32} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <Bar dataKey="minutes" fill="var(--color-minutes)" radius={4} />
+          </BarChart>
+        </ChartContainer>
+      </div>
+
+      {/* Top publishers and categories */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+        <TopChart
+          title="Top publishers"
+          data={stats.topPublishers.map(({ publisher, minutes }) => ({ name: publisher, minutes }))}
+        />
+        <TopChart
+          title="Top categories"
+          data={stats.topCategories.map(({ category, minutes }) => ({ name: category, minutes }))}
+        />
+      </div>
+
+      {/* Recent history */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm">
+        <h3 className="text-sm font-medium text-gray-900 dark:text-white p-4 pb-2">Recent activity</h3>
+        {history?.length ? (
+          <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+            {history.map(({ event, newsletter }) => (
+              <li key={event.id} className="flex items-center px-4 py-2">
+                <span className="material-icons text-base text-gray-400 mr-3">{EVENT_LABELS[event.type].icon}</span>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-gray-900 dark:text-white truncate">{newsletter.title}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {EVENT_LABELS[event.type].label} at {formatTime(event.position)} • {newsletter.publisher}
+                  </p>
+                </div>
+                <span className="ml-3 text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                  {new Date(event.createdAt).toLocaleString(undefined, { dateStyle: "short", timeStyle: "short" })}
+                </span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400 text-center px-4 pb-6 pt-2">
+            Your listening activity will show up here.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+CREATE TABLE "categories" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	CONSTRAINT "categories_name_unique" UNIQUE("name")
+);
+--> statement-breakpoint
+CREATE TABLE "newsletter_senders" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"email" text NOT NULL,
+	"domain" text NOT NULL,
+	"email_count" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "newsletter_senders_email_unique" UNIQUE("email")
+);
+--> statement-breakpoint
+CREATE TABLE "newsletters" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"title" text NOT NULL,
+	"publisher" text NOT NULL,
+	"description" text NOT NULL,
+	"image_url" text NOT NULL,
+	"audio_url" text NOT NULL,
+	"duration" integer NOT NULL,
+	"category_id" integer NOT NULL,
+	"published_at" timestamp DEFAULT now() NOT NULL,
+	"featured" boolean DEFAULT false,
+	"body_text" text,
+	"sender_email" text,
+	"owner_id" integer,
+	"source_message_id" text,
+	CONSTRAINT "newsletters_owner_source_message_unique" UNIQUE("owner_id","source_message_id")
+);
+--> statement-breakpoint
+CREATE TABLE "user_newsletter_senders" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"sender_email" text NOT NULL,
+	"subscribed" boolean DEFAULT true NOT NULL,
+	"subscribed_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "user_newsletters" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"newsletter_id" integer NOT NULL,
+	"saved_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "user_tokens" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"provider" text NOT NULL,
+	"access_token" text NOT NULL,
+	"refresh_token" text,
+	"id_token" text,
+	"expires_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"email" text NOT NULL,
+	"password" text NOT NULL,
+	"avatar_url" text,
+	"name" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"provider" text,
+	"provider_id" text,
+	CONSTRAINT "users_username_unique" UNIQUE("username"),
+	CONSTRAINT "users_email_unique" UNIQUE("email")
+);
+--> statement-breakpoint
+ALTER TABLE "newsletters" ADD CONSTRAINT "newsletters_category_id_categories_id_fk" FOREIGN KEY ("category_id") REFERENCES "public"."categories"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "newsletters" ADD CONSTRAINT "newsletters_owner_id_users_id_fk" FOREIGN KEY ("owner_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user_newsletter_senders" ADD CONSTRAINT "user_newsletter_senders_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user_newsletters" ADD CONSTRAINT "user_newsletters_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user_newsletters" ADD CONSTRAINT "user_newsletters_newsletter_id_newsletters_id_fk" FOREIGN KEY ("newsletter_id") REFERENCES "public"."newsletters"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user_tokens" ADD CONSTRAINT "user_tokens_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE "listening_progress" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"newsletter_id" integer NOT NULL,
+	"position" integer DEFAULT 0 NOT NULL,
+	"completed" boolean DEFAULT false NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "listening_progress_user_newsletter_unique" UNIQUE("user_id","newsletter_id")
+);
+--> statement-breakpoint
+ALTER TABLE "listening_progress" ADD CONSTRAINT "listening_progress_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "listening_progress" ADD CONSTRAINT "listening_progress_newsletter_id_newsletters_id_fk" FOREIGN KEY ("newsletter_id") REFERENCES "public"."newsletters"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
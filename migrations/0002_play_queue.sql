@@ -0,0 +1,11 @@
+CREATE TABLE "play_queue_items" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"newsletter_id" integer NOT NULL,
+	"position" integer NOT NULL,
+	"added_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "play_queue_items_user_newsletter_unique" UNIQUE("user_id","newsletter_id")
+);
+--> statement-breakpoint
+ALTER TABLE "play_queue_items" ADD CONSTRAINT "play_queue_items_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "play_queue_items" ADD CONSTRAINT "play_queue_items_newsletter_id_newsletters_id_fk" FOREIGN KEY ("newsletter_id") REFERENCES "public"."newsletters"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
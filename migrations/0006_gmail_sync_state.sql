@@ -0,0 +1,11 @@
+CREATE TABLE "gmail_sync_states" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"scope" text NOT NULL,
+	"history_id" text NOT NULL,
+	"synced_at" timestamp DEFAULT now() NOT NULL,
+	"full_synced_at" timestamp,
+	CONSTRAINT "gmail_sync_states_user_scope_unique" UNIQUE("user_id","scope")
+);
+--> statement-breakpoint
+ALTER TABLE "gmail_sync_states" ADD CONSTRAINT "gmail_sync_states_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
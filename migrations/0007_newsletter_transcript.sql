@@ -0,0 +1,2 @@
+ALTER TABLE "newsletters" ADD COLUMN "body_html" text;--> statement-breakpoint
+ALTER TABLE "newsletters" ADD COLUMN "transcript" jsonb;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "newsletters" ADD COLUMN "chapters" jsonb;
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE "category_overrides" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"newsletter_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"category_id" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "category_overrides_newsletter_id_unique" UNIQUE("newsletter_id")
+);
+--> statement-breakpoint
+ALTER TABLE "category_overrides" ADD CONSTRAINT "category_overrides_newsletter_id_newsletters_id_fk" FOREIGN KEY ("newsletter_id") REFERENCES "public"."newsletters"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "category_overrides" ADD CONSTRAINT "category_overrides_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "category_overrides" ADD CONSTRAINT "category_overrides_category_id_categories_id_fk" FOREIGN KEY ("category_id") REFERENCES "public"."categories"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
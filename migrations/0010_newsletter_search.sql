@@ -0,0 +1,6 @@
+CREATE INDEX "newsletters_search_idx" ON "newsletters" USING gin ((
+    setweight(to_tsvector('english'::regconfig, coalesce("title", '')), 'A') ||
+    setweight(to_tsvector('english'::regconfig, coalesce("publisher", '')), 'A') ||
+    setweight(to_tsvector('english'::regconfig, coalesce("description", '')), 'B') ||
+    setweight(to_tsvector('english'::regconfig, coalesce("body_text", '')), 'C')
+  ));
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "listening_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"newsletter_id" integer NOT NULL,
+	"type" text NOT NULL,
+	"position" integer NOT NULL,
+	"from_position" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "listening_events" ADD CONSTRAINT "listening_events_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "listening_events" ADD CONSTRAINT "listening_events_newsletter_id_newsletters_id_fk" FOREIGN KEY ("newsletter_id") REFERENCES "public"."newsletters"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "listening_events_user_created_at_idx" ON "listening_events" USING btree ("user_id","created_at");
\ No newline at end of file
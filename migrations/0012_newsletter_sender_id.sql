@@ -0,0 +1,4 @@
+ALTER TABLE "newsletters" ADD COLUMN "sender_id" integer;--> statement-breakpoint
+ALTER TABLE "newsletters" ADD CONSTRAINT "newsletters_sender_id_newsletter_senders_id_fk" FOREIGN KEY ("sender_id") REFERENCES "public"."newsletter_senders"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "newsletters_sender_id_idx" ON "newsletters" USING btree ("sender_id");--> statement-breakpoint
+UPDATE "newsletters" SET "sender_id" = "newsletter_senders"."id" FROM "newsletter_senders" WHERE "newsletters"."sender_email" = "newsletter_senders"."email";
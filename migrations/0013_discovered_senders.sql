@@ -0,0 +1,11 @@
+CREATE TABLE "discovered_senders" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"sender_id" integer NOT NULL,
+	"email_count" integer DEFAULT 0 NOT NULL,
+	"last_seen_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "discovered_senders_user_sender_unique" UNIQUE("user_id","sender_id")
+);
+--> statement-breakpoint
+ALTER TABLE "discovered_senders" ADD CONSTRAINT "discovered_senders_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "discovered_senders" ADD CONSTRAINT "discovered_senders_sender_id_newsletter_senders_id_fk" FOREIGN KEY ("sender_id") REFERENCES "public"."newsletter_senders"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,64 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { chunkText } from './audioGeneration';
+import { decodeWav, pcmDuration, ToneTtsProvider } from './tts';
+
+// AUDIO_DIR is read when the module loads
+type AudioGeneration = typeof import('./audioGeneration');
+
+describe('chunkText', () => {
+  it('keeps short paragraphs whole and collapses their whitespace', () => {
+    expect(chunkText('First  paragraph\nwraps.\n\n\n  Second one.  ', 100)).toEqual(['First paragraph wraps.', 'Second one.']);
+  });
+
+  it('splits long paragraphs on sentences, then words', () => {
+    const chunks = chunkText('One two three. Four five six. Seven eight nine ten eleven twelve thirteen.', 30);
+
+    expect(chunks).toEqual(['One two three. Four five six.', 'Seven eight nine ten eleven', 'twelve thirteen.']);
+    expect(chunks.every((chunk) => chunk.length <= 30)).toBe(true);
+  });
+});
+
+describe('generateAudio', () => {
+  let audioDir: string;
+  let audioGeneration: AudioGeneration;
+
+  beforeAll(async () => {
+    audioDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'podstack-audio-'));
+    vi.stubEnv('AUDIO_DIR', audioDir);
+    vi.resetModules();
+    audioGeneration = await import('./audioGeneration');
+    (await import('./tts')).setTtsProvider(new ToneTtsProvider());
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await fs.promises.rm(audioDir, { recursive: true, force: true });
+  });
+
+  it('narrates each chunk into one WAV file with matching segments', async () => {
+    // The tone provider gives every word 0.35 seconds
+    const text = 'Hello there listener.\n\nThis is the second paragraph of the issue.';
+
+    const audio = await audioGeneration.generateAudio(text);
+
+    expect(audio.audioUrl).toMatch(/^\/audio\/[\w-]+\.wav$/);
+    expect(audio.segments.map(({ text }) => text)).toEqual(['Hello there listener.', 'This is the second paragraph of the issue.']);
+    expect(audio.segments[0]).toMatchObject({ start: 0 });
+    expect(audio.segments[0].end).toBeCloseTo(3 * 0.35);
+    expect(audio.segments[1].start).toBe(audio.segments[0].end);
+    expect(audio.segments[1].end).toBeCloseTo(11 * 0.35);
+    expect(audio.duration).toBe(Math.round(11 * 0.35));
+
+    const wav = await fs.promises.readFile(path.join(audioDir, path.basename(audio.audioUrl)));
+    const pcm = decodeWav(wav);
+    expect(pcm).toMatchObject({ sampleRate: 16000, channels: 1 });
+    expect(pcmDuration(pcm)).toBeCloseTo(11 * 0.35);
+  });
+
+  it('refuses text with nothing to read', async () => {
+    await expect(audioGeneration.generateAudio(' \n\n ')).rejects.toThrow('No text to synthesize');
+  });
+});
@@ -0,0 +1,113 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { getTtsProvider, encodeWav, pcmDuration, PcmAudio } from './tts';
+
+// Generated audio is written here and served under AUDIO_URL_PREFIX
+export const AUDIO_DIR = process.env.AUDIO_DIR || path.join(process.cwd(), 'data', 'audio');
+export const AUDIO_URL_PREFIX = '/audio';
+
+const MAX_CHUNK_LENGTH = 1000;
+
+export interface AudioSegment {
+  text: string;
+  start: number; // seconds
+  end: number; // seconds
+}
+
+export interface GeneratedAudio {
+  audioUrl: string;
+  duration: number; // seconds, rounded
+  segments: AudioSegment[];
+}
+
+// Break text into paragraph-sized chunks no longer than maxLength,
+// splitting long paragraphs on sentence and then word boundaries
+export function chunkText(text: string, maxLength = MAX_CHUNK_LENGTH): string[] {
+  const chunks: string[] = [];
+  const paragraphs = text.split(/\n\s*\n/).map((p) => p.replace(/\s+/g, ' ').trim()).filter(Boolean);
+
+  for (const paragraph of paragraphs) {
+    if (paragraph.length <= maxLength) {
+      chunks.push(paragraph);
+      continue;
+    }
+
+    let current = '';
+    const sentences = paragraph.match(/[^.!?]+[.!?]+["')\]]*\s*|[^.!?]+$/g) || [paragraph];
+    for (const sentence of sentences) {
+      const pieces = sentence.length > maxLength ? splitOnWords(sentence, maxLength) : [sentence];
+      for (const piece of pieces) {
+        if (current && current.length + piece.length > maxLength) {
+          chunks.push(current.trim());
+          current = '';
+        }
+        current += piece;
+      }
+    }
+    if (current.trim()) chunks.push(current.trim());
+  }
+
+  return chunks;
+}
+
+function splitOnWords(text: string, maxLength: number): string[] {
+  const pieces: string[] = [];
+  let current = '';
+  for (const word of text.split(' ')) {
+    if (current && current.length + word.length + 1 > maxLength) {
+      pieces.push(current + ' ');
+      current = '';
+    }
+    current = current ? `${current} ${word}` : word;
+  }
+  if (current) pieces.push(current + ' ');
+  return pieces;
+}
+
+// Concatenate PCM clips that share one format
+function stitch(clips: PcmAudio[]): PcmAudio {
+  const [first] = clips;
+  for (const clip of clips) {
+    if (clip.sampleRate !== first.sampleRate || clip.channels !== first.channels) {
+      throw new Error('Cannot stitch audio clips with different formats');
+    }
+  }
+  return {
+    data: Buffer.concat(clips.map((clip) => clip.data)),
+    sampleRate: first.sampleRate,
+    channels: first.channels,
+  };
+}
+
+// Narrate text with the configured TTS provider and store it as one WAV file
+export async function generateAudio(text: string): Promise<GeneratedAudio> {
+  const chunks = chunkText(text);
+  if (chunks.length === 0) {
+    throw new Error('No text to synthesize');
+  }
+
+  const tts = getTtsProvider();
+  const clips: PcmAudio[] = [];
+  const segments: AudioSegment[] = [];
+  let offset = 0;
+
+  for (const chunk of chunks) {
+    const clip = await tts.synthesize(chunk);
+    const length = pcmDuration(clip);
+    clips.push(clip);
+    segments.push({ text: chunk, start: offset, end: offset + length });
+    offset += length;
+  }
+
+  const audio = stitch(clips);
+  const fileName = `${crypto.randomUUID()}.wav`;
+  await fs.promises.mkdir(AUDIO_DIR, { recursive: true });
+  await fs.promises.writeFile(path.join(AUDIO_DIR, fileName), encodeWav(audio));
+
+  return {
+    audioUrl: `${AUDIO_URL_PREFIX}/${fileName}`,
+    duration: Math.round(pcmDuration(audio)),
+    segments,
+  };
+}
@@ -8,6 +8,7 @@ import { insertUserSchema } from "@shared/schema";
 import crypto from "crypto";
 import { generateToken } from "./jwt";
 import { authMiddleware } from "./middleware";
+import { hashPassword, verifyPassword, needsRehash } from "./password";
 
 declare module "express-session" {
   interface SessionData {
@@ -72,12 +73,18 @@ export function setupAuthRoutes(app: Express) {
           return done(null, false, { message: "Incorrect username or password" });
         }
 
-        // In a real app, you'd use a proper password hashing library like bcrypt
-        // For this demo, we're using plain text
-        if (user.password !== password) {
+        if (!(await verifyPassword(password, user.password))) {
           return done(null, false, { message: "Incorrect username or password" });
         }
 
+        // Upgrade legacy plaintext passwords and outdated hashes
+        if (needsRehash(user.password)) {
+          const updatedUser = await storage.updateUser(user.id, {
+            password: await hashPassword(password)
+          });
+          return done(null, updatedUser || user);
+        }
+
         return done(null, user);
       } catch (error) {
         return done(error);
@@ -104,7 +111,11 @@ export function setupAuthRoutes(app: Express) {
       }
 
       // Create new user
-      const newUser = await storage.createUser({ username, email, password });
+      const newUser = await storage.createUser({
+        username,
+        email,
+        password: await hashPassword(password)
+      });
 
       // Log user in (create session)
       req.session.userId = newUser.id;
@@ -274,7 +285,7 @@ export function setupAuthRoutes(app: Express) {
         user = await storage.createUser({
           username: `user_${provider}_${Date.now()}`,
           email,
-          password: crypto.randomBytes(16).toString("hex"), // Random password for OAuth users
+          password: await hashPassword(crypto.randomBytes(16).toString("hex")), // Random password for OAuth users
           provider,
           providerId,
           name: "Demo User",
@@ -0,0 +1,92 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { Category, InsertNewsletter, User } from '@shared/schema';
+import { storage } from './storage';
+import { classifyNewsletter, overrideNewsletterCategory, UNCATEGORIZED_CATEGORY_NAME } from './categoryClassifier';
+
+describe('category classifier', () => {
+  const categories: Record<string, Category> = {};
+  let alice: User;
+  let bob: User;
+
+  beforeAll(async () => {
+    // The model is built from these the first time it is used
+    for (const name of ['Technology', 'Business', 'Science', 'Health', 'Politics', 'Crafts']) {
+      categories[name] = await storage.createCategory({ name, description: `${name} news` });
+    }
+    alice = await storage.createUser({ username: 'alice', email: 'alice@example.com', password: 'hashed' });
+    bob = await storage.createUser({ username: 'bob', email: 'bob@example.com', password: 'hashed' });
+  });
+
+  function createNewsletter(owner: User, data: Partial<InsertNewsletter>) {
+    return storage.createNewsletter({
+      title: 'Untitled',
+      publisher: 'Publisher',
+      description: '',
+      imageUrl: 'https://example.com/cover.png',
+      audioUrl: '',
+      duration: 0,
+      categoryId: categories.Technology.id,
+      ownerId: owner.id,
+      publishedAt: new Date(),
+      ...data,
+    });
+  }
+
+  it('starts from the seed keywords', async () => {
+    const categoryId = await classifyNewsletter(alice.id, {
+      title: 'New GPU chips for machine learning',
+      text: 'Developers get faster cloud computing and better software.',
+      senderEmail: 'news@chipletter.example',
+    });
+
+    expect(categoryId).toBe(categories.Technology.id);
+  });
+
+  it('leaves newsletters it is unsure about uncategorized', async () => {
+    const categoryId = await classifyNewsletter(alice.id, {
+      title: 'Weekend plans',
+      text: 'Brunch on Sunday?',
+      senderEmail: 'friend@gmail.com',
+    });
+
+    expect(categoryId).toBe((await storage.getCategoryByName(UNCATEGORIZED_CATEGORY_NAME))?.id);
+  });
+
+  it("applies a user's pick for a sender to that user's later newsletters only", async () => {
+    const senderEmail = 'digest@marketwatch.example';
+    const newsletter = await createNewsletter(alice, { title: 'Chip stocks rally', senderEmail });
+
+    const updated = await overrideNewsletterCategory(alice.id, newsletter, categories.Business.id);
+    const input = { title: 'New GPU chips for developers', text: 'Software and cloud news.', senderEmail };
+
+    expect(updated.categoryId).toBe(categories.Business.id);
+    expect(await classifyNewsletter(alice.id, input)).toBe(categories.Business.id);
+    expect(await classifyNewsletter(bob.id, input)).toBe(categories.Technology.id);
+  });
+
+  it("learns words from a user's picks for that user only", async () => {
+    const patterns = [
+      { title: 'Chunky knitting patterns', text: 'Cast on with merino yarn and cable needles.', senderEmail: 'yarnbarn@substack.com' },
+      { title: 'Yarn of the month', text: 'Knitting a merino cardigan with circular needles.', senderEmail: 'purlwise@substack.com' },
+    ];
+    for (const data of patterns) {
+      const newsletter = await createNewsletter(alice, { ...data, bodyText: data.text });
+      await overrideNewsletterCategory(alice.id, newsletter, categories.Crafts.id);
+    }
+    const input = { title: 'Knitting with merino yarn', text: 'Needles and patterns.', senderEmail: 'stitches@substack.com' };
+
+    expect(await classifyNewsletter(alice.id, input)).toBe(categories.Crafts.id);
+    expect(await classifyNewsletter(bob.id, input)).toBe((await storage.getCategoryByName(UNCATEGORIZED_CATEGORY_NAME))?.id);
+  });
+
+  it('forgets an earlier pick when the newsletter is recategorized', async () => {
+    const senderEmail = 'weekly@labnotes.example';
+    const newsletter = await createNewsletter(alice, { title: 'Lab notes', senderEmail });
+    const input = { title: 'Lab notes', text: '', senderEmail };
+
+    await overrideNewsletterCategory(alice.id, newsletter, categories.Health.id);
+    await overrideNewsletterCategory(alice.id, newsletter, categories.Science.id);
+
+    expect(await classifyNewsletter(alice.id, input)).toBe(categories.Science.id);
+  });
+});
@@ -0,0 +1,285 @@
+import { storage } from './storage';
+import type { Category, Newsletter } from '@shared/schema';
+
+// Assigns categories to newsletters with a multinomial naive Bayes model over
+// words and the sender's domain. It starts from a few keywords per seeded
+// category and learns from every category users pick by hand. What a user
+// teaches it only affects their own newsletters: their picks train a word model
+// of their own on top of the keywords, and a pick for a sender is applied
+// directly to later newsletters from that sender in their mailbox.
+
+// Category for newsletters the classifier isn't sure about
+export const UNCATEGORIZED_CATEGORY_NAME = 'Uncategorized';
+
+// Below this posterior probability a newsletter is left uncategorized
+const MIN_CONFIDENCE = 0.5;
+// Words of the body used for classification and training
+const MAX_BODY_TOKENS = 1500;
+// Title words say more about the topic than body words
+const TITLE_WEIGHT = 3;
+const SEED_KEYWORD_WEIGHT = 2;
+// A hand-picked category should outweigh the seed keywords after a few corrections
+const OVERRIDE_WEIGHT = 3;
+
+// Starting vocabulary for the demo categories; categories without one are learned from overrides only
+const SEED_KEYWORDS: Record<string, string[]> = {
+  Technology: [
+    'ai', 'algorithm', 'api', 'app', 'apps', 'apple', 'browser', 'chip', 'chips', 'cloud', 'code', 'coding',
+    'computing', 'cybersecurity', 'developer', 'developers', 'engineering', 'gadget', 'google', 'gpu', 'hardware',
+    'internet', 'laptop', 'learning', 'machine', 'microsoft', 'model', 'models', 'programming', 'robot', 'robotics',
+    'saas', 'silicon', 'smartphone', 'software', 'startup', 'tech', 'technology', 'web',
+  ],
+  Business: [
+    'bank', 'banks', 'business', 'ceo', 'companies', 'company', 'customers', 'deal', 'earnings', 'economic',
+    'economy', 'finance', 'financial', 'funding', 'growth', 'inflation', 'investor', 'investors', 'ipo', 'market',
+    'markets', 'mortgage', 'profit', 'rates', 'retail', 'revenue', 'sales', 'stock', 'stocks', 'tariffs', 'trade',
+    'valuation',
+  ],
+  Science: [
+    'astronomy', 'biology', 'chemistry', 'climate', 'discovery', 'experiment', 'fossil', 'genome', 'nasa',
+    'ocean', 'physics', 'planet', 'quantum', 'research', 'researchers', 'science', 'scientists', 'space',
+    'species', 'study', 'telescope', 'universe',
+  ],
+  Health: [
+    'cancer', 'clinical', 'diet', 'disease', 'doctor', 'doctors', 'drug', 'exercise', 'fitness', 'health',
+    'healthy', 'hospital', 'medical', 'medicine', 'mental', 'nutrition', 'patients', 'sleep', 'symptoms',
+    'therapy', 'vaccine', 'wellness',
+  ],
+  Politics: [
+    'bill', 'campaign', 'congress', 'court', 'democrats', 'election', 'elections', 'government', 'legislation',
+    'minister', 'parliament', 'policy', 'political', 'politics', 'president', 'republicans', 'senate', 'vote',
+    'voters',
+  ],
+};
+
+const STOP_WORDS = new Set([
+  'about', 'after', 'all', 'also', 'and', 'are', 'but', 'can', 'for', 'from', 'has', 'have', 'her', 'his',
+  'how', 'into', 'its', 'just', 'more', 'not', 'now', 'one', 'our', 'out', 'over', 'she', 'than', 'that',
+  'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'was', 'week', 'were', 'what', 'when',
+  'which', 'who', 'why', 'will', 'with', 'you', 'your',
+]);
+
+// Newsletter platforms and mail providers send for many unrelated publications,
+// so their domains say nothing about the topic
+const SHARED_SENDER_DOMAINS = [
+  'substack.com', 'beehiiv.com', 'mail.beehiiv.com', 'convertkit-mail.com', 'convertkit-mail2.com', 'ck.page',
+  'buttondown.email', 'mailchimpapp.net', 'mcsv.net', 'gmail.com', 'googlemail.com', 'outlook.com', 'yahoo.com',
+];
+
+interface ClassifierInput {
+  title: string;
+  text: string;
+  senderEmail: string | null;
+}
+
+interface TokenModel {
+  documents: Map<number, number>;
+  tokenCounts: Map<number, Map<string, number>>;
+  totalTokens: Map<number, number>;
+  vocabulary: Set<string>;
+}
+
+interface Model {
+  // Seed keywords, shared by everyone
+  seed: TokenModel;
+  // Words of the newsletters each user categorized by hand, by user id
+  users: Map<number, TokenModel>;
+  // Hand-picked categories by user and sender address, and by user and (non-shared) sender domain
+  senderCategories: Map<string, Map<number, number>>;
+}
+
+let modelPromise: Promise<Model> | null = null;
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z][a-z0-9']+/g) || []).filter((token) => !STOP_WORDS.has(token));
+}
+
+function senderDomain(senderEmail: string | null): string | null {
+  const domain = senderEmail?.split('@')[1]?.toLowerCase();
+  return domain && !SHARED_SENDER_DOMAINS.includes(domain) ? domain : null;
+}
+
+function features(input: ClassifierInput): Map<string, number> {
+  const counts = new Map<string, number>();
+  const add = (token: string, weight: number) => counts.set(token, (counts.get(token) || 0) + weight);
+
+  tokenize(input.title).forEach((token) => add(token, TITLE_WEIGHT));
+  tokenize(input.text).slice(0, MAX_BODY_TOKENS).forEach((token) => add(token, 1));
+  const domain = senderDomain(input.senderEmail);
+  if (domain) add(`domain:${domain}`, TITLE_WEIGHT);
+
+  return counts;
+}
+
+function increment<K>(map: Map<K, number>, key: K, by: number) {
+  const value = (map.get(key) || 0) + by;
+  if (value > 0) {
+    map.set(key, value);
+  } else {
+    map.delete(key);
+  }
+}
+
+function emptyTokenModel(): TokenModel {
+  return { documents: new Map(), tokenCounts: new Map(), totalTokens: new Map(), vocabulary: new Set() };
+}
+
+function userTokenModel(model: Model, userId: number): TokenModel {
+  const tokenModel = model.users.get(userId) ?? emptyTokenModel();
+  model.users.set(userId, tokenModel);
+  return tokenModel;
+}
+
+// Add (sign 1) or remove (sign -1) a training example
+function train(model: TokenModel, categoryId: number, tokens: Map<string, number>, weight: number, sign: 1 | -1) {
+  const counts = model.tokenCounts.get(categoryId) ?? new Map<string, number>();
+  model.tokenCounts.set(categoryId, counts);
+  increment(model.documents, categoryId, sign * weight);
+
+  tokens.forEach((count, token) => {
+    increment(counts, token, sign * count * weight);
+    increment(model.totalTokens, categoryId, sign * count * weight);
+    if (sign > 0) model.vocabulary.add(token);
+  });
+}
+
+function senderKeys(userId: number, senderEmail: string | null): string[] {
+  const domain = senderDomain(senderEmail);
+  return [senderEmail?.toLowerCase(), domain && `@${domain}`]
+    .filter((key): key is string => !!key)
+    .map((key) => `${userId}:${key}`);
+}
+
+function trainSender(model: Model, userId: number, senderEmail: string | null, categoryId: number, sign: 1 | -1) {
+  for (const key of senderKeys(userId, senderEmail)) {
+    const counts = model.senderCategories.get(key) ?? new Map<number, number>();
+    model.senderCategories.set(key, counts);
+    increment(counts, categoryId, sign);
+  }
+}
+
+function toInput(newsletter: Newsletter): ClassifierInput {
+  return { title: newsletter.title, text: newsletter.bodyText || newsletter.description, senderEmail: newsletter.senderEmail };
+}
+
+async function buildModel(): Promise<Model> {
+  const model: Model = { seed: emptyTokenModel(), users: new Map(), senderCategories: new Map() };
+
+  for (const category of await storage.getAllCategories()) {
+    const keywords = SEED_KEYWORDS[category.name];
+    if (keywords) {
+      train(model.seed, category.id, new Map(keywords.map((keyword) => [keyword, 1])), SEED_KEYWORD_WEIGHT, 1);
+    }
+  }
+
+  for (const { override, newsletter } of await storage.getCategoryOverrides()) {
+    train(userTokenModel(model, override.userId), override.categoryId, features(toInput(newsletter)), OVERRIDE_WEIGHT, 1);
+    trainSender(model, override.userId, newsletter.senderEmail, override.categoryId, 1);
+  }
+
+  return model;
+}
+
+function getModel(): Promise<Model> {
+  if (!modelPromise) {
+    modelPromise = buildModel().catch((error) => {
+      modelPromise = null;
+      throw error;
+    });
+  }
+  return modelPromise;
+}
+
+// The category the user has picked most often for this sender, if any
+function senderCategory(model: Model, userId: number, senderEmail: string | null): number | undefined {
+  for (const key of senderKeys(userId, senderEmail)) {
+    const counts = model.senderCategories.get(key);
+    if (counts && counts.size > 0) {
+      return Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0][0];
+    }
+  }
+  return undefined;
+}
+
+// Posterior probability of each category trained for the user, highest first
+function predict(model: Model, userId: number, input: ClassifierInput): { categoryId: number; probability: number }[] {
+  const tokens = features(input);
+  const own = model.users.get(userId);
+  const tokenModels = own ? [model.seed, own] : [model.seed];
+  const total = (count: (tokenModel: TokenModel) => number | undefined) =>
+    tokenModels.reduce((sum, tokenModel) => sum + (count(tokenModel) || 0), 0);
+
+  const categoryIds = Array.from(new Set(tokenModels.flatMap((tokenModel) => Array.from(tokenModel.documents.keys()))));
+  const totalDocuments = total((tokenModel) => Array.from(tokenModel.documents.values()).reduce((sum, count) => sum + count, 0));
+  const knows = (token: string) => tokenModels.some((tokenModel) => tokenModel.vocabulary.has(token));
+  const ownOnly = own ? Array.from(own.vocabulary).filter((token) => !model.seed.vocabulary.has(token)).length : 0;
+  const vocabularySize = model.seed.vocabulary.size + ownOnly || 1;
+
+  // Log scores with Laplace smoothing, then softmax into probabilities
+  const scores = categoryIds.map((categoryId) => {
+    const denominator = total((tokenModel) => tokenModel.totalTokens.get(categoryId)) + vocabularySize;
+    let score = Math.log(total((tokenModel) => tokenModel.documents.get(categoryId)) / totalDocuments);
+    tokens.forEach((count, token) => {
+      if (knows(token)) {
+        const tokenCount = total((tokenModel) => tokenModel.tokenCounts.get(categoryId)?.get(token));
+        score += count * Math.log((tokenCount + 1) / denominator);
+      }
+    });
+    return score;
+  });
+
+  const max = Math.max(...scores);
+  const exps = scores.map((score) => Math.exp(score - max));
+  const sum = exps.reduce((total, value) => total + value, 0);
+
+  return categoryIds
+    .map((categoryId, i) => ({ categoryId, probability: exps[i] / sum }))
+    .sort((a, b) => b.probability - a.probability);
+}
+
+export async function getUncategorizedCategory(): Promise<Category> {
+  const existing = await storage.getCategoryByName(UNCATEGORIZED_CATEGORY_NAME);
+  if (existing) return existing;
+
+  return storage.createCategory({
+    name: UNCATEGORIZED_CATEGORY_NAME,
+    description: 'Newsletters that have not been categorized yet',
+  });
+}
+
+// Category id for a newsletter that is about to be stored in the owner's library
+export async function classifyNewsletter(ownerId: number, input: ClassifierInput): Promise<number> {
+  const model = await getModel();
+
+  const picked = senderCategory(model, ownerId, input.senderEmail);
+  if (picked !== undefined) return picked;
+
+  const [best] = predict(model, ownerId, input);
+  if (best && best.probability >= MIN_CONFIDENCE) return best.categoryId;
+
+  return (await getUncategorizedCategory()).id;
+}
+
+// Move a newsletter to the category its owner chose and learn from the correction.
+// A newsletter keeps only its latest correction, so an earlier one is unlearned.
+export async function overrideNewsletterCategory(
+  userId: number,
+  newsletter: Newsletter,
+  categoryId: number
+): Promise<Newsletter> {
+  const model = await getModel();
+  const tokens = features(toInput(newsletter));
+  const previous = await storage.getCategoryOverride(newsletter.id);
+
+  await storage.saveCategoryOverride({ newsletterId: newsletter.id, userId, categoryId });
+  const updated = await storage.updateNewsletter(newsletter.id, { categoryId });
+
+  if (previous) {
+    train(userTokenModel(model, previous.userId), previous.categoryId, tokens, OVERRIDE_WEIGHT, -1);
+    trainSender(model, previous.userId, newsletter.senderEmail, previous.categoryId, -1);
+  }
+  train(userTokenModel(model, userId), categoryId, tokens, OVERRIDE_WEIGHT, 1);
+  trainSender(model, userId, newsletter.senderEmail, categoryId, 1);
+
+  return updated ?? newsletter;
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import type { Newsletter, TranscriptSegment } from '@shared/schema';
+import { buildChapters, buildChaptersJson } from './chapters';
+
+const HTML = [
+  '<h1>Weekly Byte</h1>',
+  '<p>Hello readers, welcome to this week.</p>',
+  '<h2>Top stories</h2>',
+  '<p>Chips got faster.</p>',
+  '<h3>In brief</h3>',
+  '<p>Smaller bits.</p>',
+  '<h2>Deep dive</h2>',
+  '<p>A long look at compilers.</p>',
+].join('');
+
+function newsletter(data: Partial<Newsletter> = {}): Newsletter {
+  return { id: 1, title: 'Weekly Byte #12', bodyHtml: HTML, senderEmail: 'news@byte.example', chapters: null, ...data } as Newsletter;
+}
+
+// One segment per narrated paragraph, each lasting the given number of seconds
+function segments(...parts: [string, number][]): TranscriptSegment[] {
+  let start = 0;
+  return parts.map(([text, seconds]) => {
+    const segment = { text, start, end: start + seconds };
+    start += seconds;
+    return segment;
+  });
+}
+
+describe('buildChapters', () => {
+  it('starts a chapter at each section heading and folds in ones that are too short', () => {
+    const narrated = segments(
+      ['Weekly Byte #12, from Byte.', 2],
+      ['Weekly Byte', 1],
+      ['Hello readers, welcome to this week.', 7],
+      ['Top  stories', 1],
+      ['Chips got faster.', 9],
+      ['In brief', 1],
+      ['Smaller bits.', 4],
+      ['Deep dive', 1],
+      ['A long look at compilers.', 14]
+    );
+
+    expect(buildChapters(newsletter(), narrated)).toEqual([
+      { title: 'Weekly Byte', start: 0 },
+      { title: 'Top stories', start: 10 },
+      { title: 'Deep dive', start: 25 },
+    ]);
+  });
+
+  it('gives no chapters when no heading level repeats', () => {
+    const html = '<h1>Weekly Byte</h1><p>Hello.</p><h2>Only section</h2><p>Body.</p>';
+
+    expect(buildChapters(newsletter({ bodyHtml: html }), segments(['Hello.', 10], ['Only section', 1], ['Body.', 10]))).toEqual([]);
+  });
+
+  it('gives no chapters without HTML or audio', () => {
+    expect(buildChapters(newsletter({ bodyHtml: null }), segments(['Top stories', 10]))).toEqual([]);
+    expect(buildChapters(newsletter(), [])).toEqual([]);
+  });
+});
+
+describe('buildChaptersJson', () => {
+  it('writes Podcasting 2.0 chapters with start times rounded to hundredths', () => {
+    const chapters = [
+      { title: 'Intro', start: 0 },
+      { title: 'News', start: 12.3456 },
+    ];
+
+    expect(buildChaptersJson(newsletter({ chapters }))).toEqual({
+      version: '1.2.0',
+      chapters: [
+        { startTime: 0, title: 'Intro' },
+        { startTime: 12.35, title: 'News' },
+      ],
+    });
+  });
+});
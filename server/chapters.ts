@@ -0,0 +1,72 @@
+import { cleanNewsletterHtml, type OutlineHeading } from './contentCleaner';
+import type { Chapter, Newsletter, TranscriptSegment } from '@shared/schema';
+
+// Chapters shorter than this are folded into the next one, e.g. the spoken
+// title and publisher followed straight away by the email's own title heading
+const MIN_CHAPTER_SECONDS = 5;
+
+// Podcasting 2.0 chapters format, see https://github.com/Podcastindex-org/podcast-namespace/blob/main/chapters/jsonChapters.md
+export const CHAPTERS_CONTENT_TYPE = 'application/json+chapters';
+const CHAPTERS_VERSION = '1.2.0';
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+// The shallowest heading level used more than once splits the newsletter into
+// sections; deeper headings are subsections and don't get chapters of their own
+function chapterHeadings(outline: OutlineHeading[]): OutlineHeading[] {
+  const counts = new Map<number, number>();
+  for (const heading of outline) {
+    counts.set(heading.level, (counts.get(heading.level) || 0) + 1);
+  }
+
+  const repeated = Array.from(counts.keys()).filter((level) => counts.get(level)! > 1);
+  if (repeated.length === 0) return [];
+
+  const chapterLevel = Math.min(...repeated);
+  return outline.filter((heading) => heading.level <= chapterLevel);
+}
+
+function mergeShortChapters(chapters: Chapter[]): Chapter[] {
+  return chapters.reduce<Chapter[]>((merged, chapter) => {
+    const previous = merged[merged.length - 1];
+    if (previous && chapter.start - previous.start < MIN_CHAPTER_SECONDS) {
+      merged[merged.length - 1] = { title: chapter.title, start: previous.start };
+    } else {
+      merged.push(chapter);
+    }
+    return merged;
+  }, []);
+}
+
+// Chapter starts for generated audio, found by matching the email's headings to
+// the narrated paragraphs they were spoken as. Newsletters without HTML or without
+// a repeated heading level have no chapters.
+export function buildChapters(newsletter: Newsletter, segments: TranscriptSegment[]): Chapter[] {
+  if (!newsletter.bodyHtml || segments.length === 0) return [];
+
+  const headings = chapterHeadings(cleanNewsletterHtml(newsletter.bodyHtml, newsletter.senderEmail || '').outline);
+  const chapters: Chapter[] = [{ title: newsletter.title, start: 0 }];
+  let next = 0;
+
+  for (const segment of segments) {
+    if (next < headings.length && normalize(segment.text) === normalize(headings[next].text)) {
+      chapters.push({ title: headings[next].text, start: segment.start });
+      next++;
+    }
+  }
+
+  const merged = mergeShortChapters(chapters);
+  return merged.length > 1 ? merged : [];
+}
+
+export function buildChaptersJson(newsletter: Newsletter) {
+  return {
+    version: CHAPTERS_VERSION,
+    chapters: (newsletter.chapters || []).map((chapter) => ({
+      startTime: Math.round(chapter.start * 100) / 100,
+      title: chapter.title,
+    })),
+  };
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { cleanNewsletterHtml, cleanNewsletterText, detectPlatform } from './contentCleaner';
+
+describe('detectPlatform', () => {
+  it('recognizes platforms by sender, then by template', () => {
+    expect(detectPlatform('Writer <writer@substack.com>')).toBe('substack');
+    expect(detectPlatform('news@example.com', '<img src="https://mcusercontent.com/logo.png">')).toBe('mailchimp');
+    expect(detectPlatform('news@example.com', '<p>Hello</p>')).toBe('generic');
+  });
+});
+
+describe('cleanNewsletterHtml', () => {
+  it('drops housekeeping links and keeps the content', () => {
+    const { text } = cleanNewsletterHtml(`
+      <p>View this email in your browser</p>
+      <p>Real content paragraph one.</p>
+      <p>Read more at https://example.com/article</p>
+      <p>Unsubscribe | Update your preferences</p>
+    `);
+    expect(text).toBe('Real content paragraph one.\n\nRead more at');
+  });
+
+  it('keeps prose that mentions unsubscribing', () => {
+    const prose = 'Today I want to explain why I will never unsubscribe from a good newsletter.';
+    expect(cleanNewsletterHtml(`<p>${prose}</p><p>Click here to unsubscribe.</p>`).text).toBe(prose);
+  });
+
+  it('drops an unheaded sponsor read without losing the paragraphs after it', () => {
+    const { text } = cleanNewsletterHtml(
+      '<p>Sponsored by Acme: buy things.</p><p>Real content paragraph one.</p><p>Real content two.</p>'
+    );
+    expect(text).toBe('Real content paragraph one.\n\nReal content two.');
+  });
+
+  it('drops a sponsor section up to the next heading', () => {
+    const { text, outline } = cleanNewsletterHtml(`
+      <h2>Today's sponsor</h2>
+      <p>Acme makes everything.</p>
+      <p>Try it free.</p>
+      <h2>The news</h2>
+      <p>Something happened.</p>
+    `);
+    expect(text).toBe('The news\n\nSomething happened.');
+    expect(outline).toEqual([{ level: 2, text: 'The news' }]);
+  });
+
+  it('cuts the platform footer from the second half', () => {
+    const { platform, text } = cleanNewsletterHtml(
+      '<p>First point.</p><p>Second point.</p><p>© 2025 Writer</p><p>548 Market Street</p>',
+      'writer@substack.com'
+    );
+    expect(platform).toBe('substack');
+    expect(text).toBe('First point.\n\nSecond point.');
+  });
+});
+
+describe('cleanNewsletterText', () => {
+  it('turns markdown headings into the outline', () => {
+    const { text, outline } = cleanNewsletterText('# Welcome\n\nHello there.\n\n## Links\n\nA link.');
+    expect(outline).toEqual([
+      { level: 1, text: 'Welcome' },
+      { level: 2, text: 'Links' },
+    ]);
+    expect(text).toBe('Welcome\n\nHello there.\n\nLinks\n\nA link.');
+  });
+});
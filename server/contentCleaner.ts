@@ -0,0 +1,233 @@
+import { compile, type FormatCallback, type SelectorDefinition } from 'html-to-text';
+
+// Turns newsletter HTML into text worth reading aloud: no preheaders, "view in
+// browser" links, social buttons, sponsor sections, tracking URLs or footers.
+// Each platform's template gets its own selectors and footer markers on top of
+// the rules every newsletter shares.
+
+export type NewsletterPlatform = 'substack' | 'mailchimp' | 'convertkit' | 'beehiiv' | 'buttondown' | 'generic';
+
+export interface OutlineHeading {
+  level: number;
+  text: string;
+}
+
+export interface CleanedContent {
+  platform: NewsletterPlatform;
+  // Paragraphs separated by blank lines, headings included
+  text: string;
+  outline: OutlineHeading[];
+}
+
+interface PlatformRules {
+  // Matched against the From header
+  senderPatterns: RegExp[];
+  // Matched against the HTML, for custom domains
+  htmlPatterns: RegExp[];
+  skipSelectors: string[];
+  // A block matching one of these starts the footer; it and everything after are dropped
+  footerPatterns: RegExp[];
+}
+
+const PLATFORM_RULES: Record<Exclude<NewsletterPlatform, 'generic'>, PlatformRules> = {
+  substack: {
+    senderPatterns: [/@substack\.com\b/i],
+    htmlPatterns: [/substackcdn\.com/i, /substack\.com\/(app-link|redirect)/i],
+    skipSelectors: [
+      '.post-meta',
+      '.post-ufi',
+      '.meta-author-wrap',
+      '.header-anchor-post',
+      '.subscription-widget-wrap',
+      '.subscription-widget-wrap-editor',
+      '.button-wrapper',
+      '.footer',
+    ],
+    footerPatterns: [/^© \d{4}/, /you're (currently )?a (free|paid) subscriber/i, /^get the app\b/i, /^start writing\b/i],
+  },
+  mailchimp: {
+    senderPatterns: [/@\S*mcsv\.net\b/i, /@\S*mailchimpapp\.net\b/i, /@\S*mailchimp\.com\b/i],
+    htmlPatterns: [/list-manage\.com/i, /mcusercontent\.com/i, /mcnPreviewText/],
+    skipSelectors: [
+      '#templatePreheader',
+      '.mcnPreviewText',
+      '#templateFooter',
+      '.footerContainer',
+      '.mcnFollowBlock',
+      '.mcnShareBlock',
+      '#awesomewrap',
+    ],
+    footerPatterns: [/^copyright ©/i, /our mailing address is/i, /want to change how you receive these emails/i],
+  },
+  convertkit: {
+    senderPatterns: [/@\S*convertkit(-mail\d*)?\.com\b/i, /@\S*ck\.page\b/i, /@\S*kit-mail\d*\.com\b/i],
+    htmlPatterns: [/convertkit/i, /ck\.page/i, /kit-mail\d*\.com/i],
+    skipSelectors: ['.ck-footer', '.ck-social-links'],
+    footerPatterns: [/^unsubscribe \| update your profile/i, /113 cherry st/i],
+  },
+  beehiiv: {
+    senderPatterns: [/@\S*beehiiv\.com\b/i],
+    htmlPatterns: [/beehiiv\.com/i],
+    skipSelectors: ['#web-header', '.beehiiv__footer'],
+    footerPatterns: [/powered by beehiiv/i, /update your email preferences or unsubscribe/i],
+  },
+  buttondown: {
+    senderPatterns: [/@\S*buttondown\.(email|com)\b/i],
+    htmlPatterns: [/buttondown\.(email|com)/i],
+    skipSelectors: [],
+    footerPatterns: [/powered by buttondown/i, /brought to you by buttondown/i],
+  },
+};
+
+const SHARED_SKIP_SELECTORS = [
+  'head',
+  'script',
+  'style',
+  'img',
+  'footer',
+  '[style*="display:none"]',
+  '[style*="display: none"]',
+  '[class*="preheader"]',
+  '[class*="footer"]',
+  '[id*="footer"]',
+  'a[href*="twitter.com"]',
+  'a[href^="https://x.com"]',
+  'a[href*="facebook.com"]',
+  'a[href*="instagram.com"]',
+  'a[href*="linkedin.com"]',
+  'a[href*="threads.net"]',
+  'a[href*="tiktok.com"]',
+];
+
+// Short blocks that are navigation or housekeeping rather than content
+const BOILERPLATE_PATTERNS = [
+  /view (this|it|this email|this post|the web version)? ?(in|on) (your |a |the )?(browser|web)/i,
+  /^(read|view) (it )?online\b/i,
+  // "Unsubscribe" on its own line is a footer link, but the word also turns up in prose
+  /^unsubscribe\b/i,
+  /\bunsubscribe (here|now|below|at any time|anytime|instantly)\b/i,
+  /(click|tap) (here )?to unsubscribe|to unsubscribe,? (click|tap|visit|go)\b/i,
+  /(no longer|don't|do not) (want|wish) to (receive|get) (these|this|our) (emails?|newsletters?)/i,
+  /(update|manage) your (email |subscription )?(preferences|subscription|profile)/i,
+  /forwarded this (email|newsletter)|was this (email )?forwarded/i,
+  /you('re| are) receiving this (email|newsletter)/i,
+  /add (us|this address) to your address book/i,
+  /all rights reserved/i,
+  /^(like|comment|share|restack|reply|subscribe)(\s+(like|comment|share|restack|reply|subscribe))*$/i,
+  /^(follow|connect with) (us|me)\b/i,
+];
+const BOILERPLATE_MAX_LENGTH = 300;
+
+// Headings and opening lines that introduce a paid placement
+const SPONSOR_PATTERNS = [/^(sponsored by|today's sponsor|this week's sponsor|together with|presented by|a word from our sponsor)\b/i, /^sponsor(ed)?\b/i];
+
+const URL_PATTERN = /[[(<]?\bhttps?:\/\/[^\s\])>]+[\])>]?/g;
+
+// Headings are marked so they can be picked out of the converted text
+const HEADING_MARKER = '\uE000';
+
+const headingFormatter: FormatCallback = (elem, walk, builder) => {
+  builder.openBlock({ leadingLineBreaks: 2 });
+  builder.addInline(`${HEADING_MARKER}${(elem.name || 'h2').slice(1)}`);
+  walk(elem.children, builder);
+  builder.closeBlock({ trailingLineBreaks: 2 });
+};
+
+const converters = new Map<NewsletterPlatform, (html: string) => string>();
+
+function getConverter(platform: NewsletterPlatform): (html: string) => string {
+  let converter = converters.get(platform);
+  if (!converter) {
+    const skip = [...SHARED_SKIP_SELECTORS, ...(platform === 'generic' ? [] : PLATFORM_RULES[platform].skipSelectors)];
+    const selectors: SelectorDefinition[] = [
+      ...skip.map((selector) => ({ selector, format: 'skip' })),
+      { selector: 'a', options: { ignoreHref: true } },
+      { selector: 'ul', options: { itemPrefix: ' ' } },
+      ...['h1', 'h2', 'h3', 'h4'].map((selector) => ({ selector, format: 'outlineHeading' })),
+    ];
+    converter = compile({ wordwrap: false, selectors, formatters: { outlineHeading: headingFormatter } });
+    converters.set(platform, converter);
+  }
+  return converter;
+}
+
+export function detectPlatform(from: string, html = ''): NewsletterPlatform {
+  const platforms = Object.keys(PLATFORM_RULES) as (keyof typeof PLATFORM_RULES)[];
+  return (
+    platforms.find((p) => PLATFORM_RULES[p].senderPatterns.some((pattern) => pattern.test(from))) ||
+    platforms.find((p) => PLATFORM_RULES[p].htmlPatterns.some((pattern) => pattern.test(html))) ||
+    'generic'
+  );
+}
+
+interface Block {
+  text: string;
+  headingLevel?: number;
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/[ \t\u00a0]+/g, ' ').replace(/ *\n */g, '\n').trim();
+}
+
+function toBlocks(text: string): Block[] {
+  return text
+    .split(/\n\s*\n/)
+    .map((raw): Block => {
+      const heading = new RegExp(`^\\s*${HEADING_MARKER}(\\d)`).exec(raw);
+      const body = collapseWhitespace(raw.replace(new RegExp(`${HEADING_MARKER}\\d`, 'g'), '').replace(URL_PATTERN, ''));
+      return heading ? { text: body.replace(/\n/g, ' '), headingLevel: Number(heading[1]) } : { text: body };
+    })
+    .filter((block) => /[A-Za-z0-9\u00c0-\uffff]/.test(block.text));
+}
+
+function isBoilerplate(block: Block): boolean {
+  return block.text.length <= BOILERPLATE_MAX_LENGTH && BOILERPLATE_PATTERNS.some((pattern) => pattern.test(block.text));
+}
+
+function isSponsored(block: Block): boolean {
+  return SPONSOR_PATTERNS.some((pattern) => pattern.test(block.text));
+}
+
+function cleanBlocks(blocks: Block[], platform: NewsletterPlatform): CleanedContent {
+  const footerPatterns = platform === 'generic' ? [] : PLATFORM_RULES[platform].footerPatterns;
+  // Footer phrases can come up in the body too, so only look for the footer in the second half
+  const footerStart = blocks.findIndex(
+    (block, index) => index >= blocks.length / 2 && footerPatterns.some((pattern) => pattern.test(block.text))
+  );
+
+  const kept: Block[] = [];
+  let inSponsorSection = false;
+
+  for (const block of footerStart >= 0 ? blocks.slice(0, footerStart) : blocks) {
+    if (block.headingLevel) {
+      inSponsorSection = isSponsored(block);
+    }
+
+    // A sponsor read without its own heading has no clear end, so only its
+    // opening block is dropped rather than everything up to the next heading
+    if (!inSponsorSection && !isSponsored(block) && !isBoilerplate(block)) {
+      kept.push(block);
+    }
+  }
+
+  return {
+    platform,
+    text: kept.map((block) => block.text).join('\n\n'),
+    outline: kept.filter((block) => block.headingLevel).map((block) => ({ level: block.headingLevel!, text: block.text })),
+  };
+}
+
+// Narration text and heading outline for an HTML newsletter
+export function cleanNewsletterHtml(html: string, from = ''): CleanedContent {
+  const platform = detectPlatform(from, html);
+  return cleanBlocks(toBlocks(getConverter(platform)(html)), platform);
+}
+
+// Same for plain-text newsletters; markdown-style "# Heading" lines become headings
+export function cleanNewsletterText(text: string, from = ''): CleanedContent {
+  const platform = detectPlatform(from);
+  const marked = text.replace(/\r\n/g, '\n').replace(/^(#{1,4}) +(.+)$/gm, (_match, hashes: string, heading: string) =>
+    `\n${HEADING_MARKER}${hashes.length}${heading}\n`
+  );
+  return cleanBlocks(toBlocks(marked), platform);
+}
@@ -0,0 +1,15 @@
+import { drizzle, type NodePgDatabase } from "drizzle-orm/node-postgres";
+import pg from "pg";
+import * as schema from "@shared/schema";
+
+export type Database = NodePgDatabase<typeof schema>;
+
+// Create a Drizzle client backed by a node-postgres connection pool
+export function createDb(connectionString: string): { db: Database; pool: pg.Pool } {
+  const pool = new pg.Pool({ connectionString });
+  const db = drizzle(pool, { schema });
+  return { db, pool };
+}
+
+// Shared connection, only created when DATABASE_URL is configured
+export const connection = process.env.DATABASE_URL ? createDb(process.env.DATABASE_URL) : undefined;
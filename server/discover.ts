@@ -0,0 +1,58 @@
+import { storage, type VisibilityOptions } from './storage';
+import type { CategoryArrivals, PublisherDetail, TrendingPublisher } from '@shared/schema';
+
+// Publishers are trending by what listeners did with their newsletters this recently
+export const TRENDING_DAYS = 7;
+const TRENDING_LIMIT = 10;
+// Saving a newsletter for later says more about a publisher than playing one
+const SAVE_WEIGHT = 2;
+const ARRIVALS_PER_CATEGORY = 4;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export async function getTrendingPublishers(visibility: VisibilityOptions = {}): Promise<TrendingPublisher[]> {
+  const since = new Date(Date.now() - TRENDING_DAYS * DAY_MS);
+  const activity = new Map((await storage.getPublisherActivity(since)).map((entry) => [entry.publisher, entry]));
+  const score = (publisher: TrendingPublisher) => publisher.listens + SAVE_WEIGHT * publisher.saves;
+
+  return (await storage.getPublishers(visibility))
+    .filter((summary) => activity.has(summary.publisher))
+    .map((summary) => {
+      const { listens, saves } = activity.get(summary.publisher)!;
+      return { ...summary, listens, saves };
+    })
+    .sort((a, b) =>
+      score(b) - score(a) ||
+      new Date(b.latestPublishedAt).getTime() - new Date(a.latestPublishedAt).getTime()
+    )
+    .slice(0, TRENDING_LIMIT);
+}
+
+// The newest newsletters of each category, leaving out empty categories
+export async function getNewArrivals(visibility: VisibilityOptions = {}): Promise<CategoryArrivals[]> {
+  const arrivals: CategoryArrivals[] = [];
+  for (const category of await storage.getAllCategories()) {
+    const newsletters = await storage.getNewslettersByCategory({
+      ...visibility,
+      categoryId: category.id,
+      limit: ARRIVALS_PER_CATEGORY,
+    });
+    if (newsletters.length > 0) {
+      arrivals.push({ category, newsletters });
+    }
+  }
+  return arrivals;
+}
+
+// Unsubscribed senders don't hide the summary, so a publisher the reader
+// unfollowed can still be found and followed again; only its newsletters are left out
+export async function getPublisherDetail(
+  publisher: string,
+  visibility: VisibilityOptions = {}
+): Promise<PublisherDetail | undefined> {
+  const summary = await storage.getPublisher(publisher, { viewerId: visibility.viewerId });
+  if (!summary) return undefined;
+
+  const newsletters = await storage.getNewslettersByPublisher(publisher, visibility);
+  return { ...summary, newsletters };
+}
@@ -4,18 +4,86 @@ import { OAuth2Client } from 'google-auth-library';
 // import { decode as base64Decode } from 'base64-url';
 import * as htmlToText from 'html-to-text';
 import dayjs from 'dayjs';
+import { GOOGLE_API_BASE_URL, googleApiOptions } from './googleApi';
+import { cleanNewsletterHtml, cleanNewsletterText, type OutlineHeading } from './contentCleaner';
+import {
+  walkMessageParts,
+  decodePartBody,
+  embedInlineImages,
+  inlineImageDataUrl,
+  MAX_INLINE_IMAGE_BYTES,
+  type InlineImage,
+  type MessagePart,
+} from './mimeParts';
 
 interface MessageHeader {
   name: string;
   value: string;
 }
 
-interface NewsletterContent {
+export interface NewsletterContent {
+  messageId: string;
   subject: string;
   from: string;
   date: string;
   plain_text?: string;
   markdown?: string;
+  // Inline images are embedded as data: URLs
+  html?: string;
+  // Body with boilerplate removed, ready to be read aloud
+  narration: string;
+  outline: OutlineHeading[];
+}
+
+// A newsletter sender found in the mailbox and how many of the scanned messages it sent
+export interface NewsletterAuthor {
+  name: string;
+  email: string;
+  messageCount: number;
+}
+
+// Gmail rate-limits bursts, so only this many message fetches run at once
+const FETCH_CONCURRENCY = 5;
+
+// Like Promise.all over items.map(fn), but with at most `limit` calls in flight
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+// Messages with these labels were not received, so they are never newsletters
+const IGNORED_LABELS = ['SENT', 'DRAFT', 'SPAM', 'TRASH'];
+
+// Thrown when a stored history id is too old for users.history.list
+export class HistoryExpiredError extends Error {
+  constructor(historyId: string) {
+    super(`Gmail history id ${historyId} has expired`);
+    this.name = 'HistoryExpiredError';
+  }
+}
+
+const emailRegex = /^(.*?)(?:<([\w.-]+@[\w.-]+)>)?$/;
+
+// Split a From header such as `"Jane Doe" <jane@example.com>` into name and email
+export function parseSender(raw: string): { name: string; email: string } | null {
+  const match = emailRegex.exec(raw.trim());
+  if (!match) return null;
+
+  const name = match[2] ? match[1].trim().replace(/^"|"$/g, '') : '';
+  const email = (match[2] || match[1]).toLowerCase().trim();
+  if (!/^[\w.-]+@[\w.-]+$/.test(email)) return null;
+
+  return { name, email };
 }
 
 export class EmailService {
@@ -27,10 +95,11 @@ export class EmailService {
     common_newsletter_phrases: ['newsletter', 'subscribe', 'unsubscribe', 'view in browser'],
   };
 
-  constructor(private accessToken: string) {
+  // baseUrl overrides the Gmail API location, e.g. to use the fake Gmail server
+  constructor(private accessToken: string, baseUrl = GOOGLE_API_BASE_URL) {
     const auth = new OAuth2Client();
     auth.setCredentials({ access_token: this.accessToken });
-    this.gmail = google.gmail({ version: 'v1', auth });
+    this.gmail = google.gmail({ version: 'v1', auth, ...googleApiOptions(baseUrl) });
   }
 
   private extractHeader(headers: MessageHeader[], name: string): string {
@@ -49,27 +118,52 @@ export class EmailService {
     );
   }
 
-  private extractContent(message: any): NewsletterContent {
+  // Large bodies come without data and have to be fetched like an attachment
+  private async readBody(messageId: string, part: MessagePart): Promise<string> {
+    const data = part.body?.data || (part.body?.attachmentId ? await this.getAttachment(messageId, part.body.attachmentId) : '');
+    return decodePartBody(part, data);
+  }
+
+  // data: URLs of the message's inline images by Content-ID, skipping oversized ones
+  private async readInlineImages(messageId: string, images: InlineImage[]): Promise<Map<string, string>> {
+    const urls = new Map<string, string>();
+    for (const image of images) {
+      if (image.size > MAX_INLINE_IMAGE_BYTES) continue;
+      const data = image.data || (image.attachmentId ? await this.getAttachment(messageId, image.attachmentId) : '');
+      if (data) urls.set(image.contentId, inlineImageDataUrl(image, data));
+    }
+    return urls;
+  }
+
+  private async extractContent(message: any): Promise<NewsletterContent> {
     const headers = message.payload.headers;
     const from = this.extractHeader(headers, 'From');
     const subject = this.extractHeader(headers, 'Subject');
     const date = this.extractHeader(headers, 'Date');
 
-    const content: NewsletterContent = { subject, from, date };
+    const { html, text, inlineImages } = walkMessageParts(message.payload);
+    const content: NewsletterContent = { messageId: message.id, subject, from, date, narration: '', outline: [] };
 
-    const parts = message.payload.parts || [];
-    for (const part of parts) {
-      const data = Buffer.from(part.body.data, 'base64').toString('utf-8');
-      if (part.mimeType === 'text/plain') {
-        content.plain_text = data;
-      } else if (part.mimeType === 'text/html') {
-        content.markdown = htmlToText.convert(data, { wordwrap: false });
-      }
+    if (text) {
+      content.plain_text = await this.readBody(message.id, text);
     }
+    // Text is taken from the HTML before images are embedded, so it never contains their data
+    const rawHtml = html ? await this.readBody(message.id, html) : undefined;
+    if (rawHtml) {
+      content.markdown = htmlToText.convert(rawHtml, { wordwrap: false });
+      content.html = embedInlineImages(rawHtml, await this.readInlineImages(message.id, inlineImages));
+    }
+
+    const cleaned = rawHtml
+      ? cleanNewsletterHtml(rawHtml, from)
+      : cleanNewsletterText(content.plain_text || '', from);
+    content.narration = cleaned.text;
+    content.outline = cleaned.outline;
     return content;
   }
 
-  public async getNewsletters(maxResults = 100): Promise<NewsletterContent[]> {
+  // Query for recent mail that looks like a newsletter
+  private recentNewslettersQuery(): string {
     const date = dayjs().subtract(7, 'days').format('YYYY/MM/DD');
     const filters = [
       `after:${date}`,
@@ -80,90 +174,152 @@ export class EmailService {
       'subject:newsletter',
       'subject:digest'
     ];
-    const query = filters.join(' OR ');
-
-    const listRes = await this.gmail.users.messages.list({ userId: 'me', q: query, maxResults });
-    const messages = listRes.data.messages || [];
-
-    const newsletters: NewsletterContent[] = [];
-    for (const m of messages) {
-      const res = await this.gmail.users.messages.get({ userId: 'me', id: m.id!, format: 'full' });
-      const msg = res.data;
-      if (this.isNewsletter(msg.payload.headers)) {
-        newsletters.push(this.extractContent(msg));
-      }
-    }
-
-    return newsletters;
+    return filters.join(' OR ');
   }
 
-  public async getNewslettersFromSenders(senderEmails: string[], maxResults = 100): Promise<NewsletterContent[]> {
+  private sendersQuery(senderEmails: string[]): string {
     const date = dayjs().subtract(1, 'year').format('YYYY/MM/DD');
     const fromFilters = senderEmails.map(email => `from:${email}`);
-    const query = `after:${date} ` + fromFilters.join(' OR ');
+    return `after:${date} ` + fromFilters.join(' OR ');
+  }
 
+  public async listMessageIds(query: string, maxResults = 100): Promise<string[]> {
     const listRes = await this.gmail.users.messages.list({ userId: 'me', q: query, maxResults });
-    const messages = listRes.data.messages || [];
-
-    const newsletters: NewsletterContent[] = [];
-    for (const m of messages) {
-      const res = await this.gmail.users.messages.get({ userId: 'me', id: m.id!, format: 'full' });
-      const msg = res.data;
-      if (this.isNewsletter(msg.payload.headers)) {
-        newsletters.push(this.extractContent(msg));
+    const messages: any[] = listRes.data.messages || [];
+    return messages.map(m => m.id!);
+  }
+
+  public listRecentNewsletterIds(maxResults = 100): Promise<string[]> {
+    return this.listMessageIds(this.recentNewslettersQuery(), maxResults);
+  }
+
+  public async listSenderMessageIds(senderEmails: string[], maxResults = 100): Promise<string[]> {
+    if (senderEmails.length === 0) return [];
+    return this.listMessageIds(this.sendersQuery(senderEmails), maxResults);
+  }
+
+  // Current mailbox history id, the starting point for later incremental syncs
+  public async getHistoryId(): Promise<string> {
+    const res = await this.gmail.users.getProfile({ userId: 'me' });
+    return String(res.data.historyId);
+  }
+
+  // Ids of messages added to the mailbox since startHistoryId, plus the history id to resume from
+  public async listMessageIdsSince(startHistoryId: string): Promise<{ messageIds: string[]; historyId: string }> {
+    const messageIds = new Set<string>();
+    let historyId = startHistoryId;
+    let pageToken: string | undefined;
+
+    do {
+      let res: any;
+      try {
+        res = await this.gmail.users.history.list({
+          userId: 'me',
+          startHistoryId,
+          historyTypes: ['messageAdded'],
+          maxResults: 500,
+          pageToken
+        });
+      } catch (error: any) {
+        // Gmail answers 404 once the start history id is too old to replay
+        if (error?.code === 404 || error?.response?.status === 404) {
+          throw new HistoryExpiredError(startHistoryId);
+        }
+        throw error;
+      }
+
+      for (const record of res.data.history || []) {
+        for (const added of record.messagesAdded || []) {
+          const message = added.message;
+          if (message?.id && !message.labelIds?.some((label: string) => IGNORED_LABELS.includes(label))) {
+            messageIds.add(message.id);
+          }
+        }
       }
-    }
 
-    return newsletters;
+      historyId = res.data.historyId ? String(res.data.historyId) : historyId;
+      pageToken = res.data.nextPageToken || undefined;
+    } while (pageToken);
+
+    return { messageIds: Array.from(messageIds), historyId };
   }
-  public async getNewsletterAuthors(maxResults = 100): Promise<[string, string][]> {
-    const date = dayjs().subtract(7, 'days').format('YYYY/MM/DD');
-    const filters = [
-      `after:${date}`,
-      'header:List-Unsubscribe',
-      'from:@substack.com',
-      'from:@mailchimp.com',
-      'from:@convertkit.com',
-      'subject:newsletter',
-      'subject:digest'
-    ];
-    const query = filters.join(' OR ');
-  
-    const listRes = await this.gmail.users.messages.list({ userId: 'me', q: query, maxResults });
-    const messages = listRes.data.messages || [];
-  
-    const seen = new Set<string>();
-    const authors: [string, string][] = [];
-    const emailRegex = /^(.*?)(?:<([\w.-]+@[\w.-]+)>)?$/;
-  
-    const metadataResponses = await Promise.all(
-      messages.map(m => this.gmail.users.messages.get({
+
+  private getMetadata(messageIds: string[], headers: string[]): Promise<any[]> {
+    return mapWithConcurrency(messageIds, FETCH_CONCURRENCY, async (id) => {
+      const res = await this.gmail.users.messages.get({
         userId: 'me',
-        id: m.id!,
+        id,
         format: 'metadata',
-        metadataHeaders: ['From']
-      }))
-    );
-  
-    for (const res of metadataResponses) {
-      const raw = res.data.payload.headers?.find(h => h.name === 'From')?.value?.trim();
+        metadataHeaders: headers
+      });
+      return res.data;
+    });
+  }
+
+  // Keep only messages sent by one of the given senders, using cheap metadata requests
+  public async filterBySenders(messageIds: string[], senderEmails: string[]): Promise<string[]> {
+    const wanted = new Set(senderEmails.map(email => email.toLowerCase()));
+    const messages = await this.getMetadata(messageIds, ['From']);
+
+    return messages
+      .filter(msg => {
+        const sender = parseSender(this.extractHeader(msg.payload?.headers || [], 'From'));
+        return sender && wanted.has(sender.email);
+      })
+      .map(msg => msg.id);
+  }
+
+  public async getNewslettersByIds(messageIds: string[]): Promise<NewsletterContent[]> {
+    const messages = await mapWithConcurrency(messageIds, FETCH_CONCURRENCY, async (id) => {
+      const res = await this.gmail.users.messages.get({ userId: 'me', id, format: 'full' });
+      return res.data;
+    });
+
+    return Promise.all(messages
+      .filter(msg => this.isNewsletter(msg.payload.headers))
+      .map(msg => this.extractContent(msg)));
+  }
+
+  // base64url data of an attachment, or of a body part too large to include in the message
+  public async getAttachment(messageId: string, attachmentId: string): Promise<string> {
+    const res = await this.gmail.users.messages.attachments.get({ userId: 'me', messageId, id: attachmentId });
+    return res.data.data || '';
+  }
+
+  // Senders of the newsletters among the given messages, one per address, sorted by domain.
+  // The name comes from the sender's first message that has one.
+  public async getAuthorsByIds(messageIds: string[]): Promise<NewsletterAuthor[]> {
+    const messages = await this.getMetadata(messageIds, ['From', 'Subject', ...this.newsletterPatterns.unsubscribe_headers]);
+
+    const authors = new Map<string, NewsletterAuthor>();
+
+    for (const msg of messages) {
+      if (!this.isNewsletter(msg.payload?.headers || [])) continue;
+
+      const raw = this.extractHeader(msg.payload?.headers || [], 'From').trim();
       if (!raw) continue;
-  
-      const match = emailRegex.exec(raw);
-      if (!match) continue;
-  
-      const name = match[2] ? match[1].trim().replace(/^"|"$/g, '') : '';
-      const email = (match[2] || match[1]).toLowerCase().trim();
-      if (!/^[\w.-]+@[\w.-]+$/.test(email)) continue;
-  
-      const id = `${name}|${email}`;
-      if (!seen.has(id)) {
-        seen.add(id);
-        authors.push([name, email]);
-      }
+
+      const sender = parseSender(raw);
+      if (!sender) continue;
+
+      const author = authors.get(sender.email) ?? { name: sender.name, email: sender.email, messageCount: 0 };
+      author.name = author.name || sender.name;
+      author.messageCount++;
+      authors.set(sender.email, author);
     }
-  
-    return authors.sort((a, b) => a[1].split('@')[1].localeCompare(b[1].split('@')[1]));
+
+    return Array.from(authors.values()).sort((a, b) => a.email.split('@')[1].localeCompare(b.email.split('@')[1]));
+  }
+
+  public async getNewsletters(maxResults = 100): Promise<NewsletterContent[]> {
+    return this.getNewslettersByIds(await this.listRecentNewsletterIds(maxResults));
+  }
+
+  public async getNewslettersFromSenders(senderEmails: string[], maxResults = 100): Promise<NewsletterContent[]> {
+    return this.getNewslettersByIds(await this.listSenderMessageIds(senderEmails, maxResults));
   }
-  
-}
\ No newline at end of file
+
+  public async getNewsletterAuthors(maxResults = 100): Promise<NewsletterAuthor[]> {
+    return this.getAuthorsByIds(await this.listRecentNewsletterIds(maxResults));
+  }
+}
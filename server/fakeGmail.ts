@@ -0,0 +1,539 @@
+import express, { type Express, type Request, type Response, type NextFunction } from 'express';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { decodeQuotedPrintable, parseHeaderParams } from './mimeParts';
+
+// A stand-in for the parts of the Gmail and Google OAuth APIs the app uses,
+// serving messages from a folder of .eml files. Run it with `npm run fake-gmail`
+// and set GOOGLE_API_BASE_URL to its address.
+
+export const DEFAULT_FIXTURES_DIR = path.join(process.cwd(), 'server', 'fixtures', 'gmail');
+
+// History ids below this were never issued, so asking for them reports expiry
+const FIRST_HISTORY_ID = 1000;
+const DEFAULT_PAGE_SIZE = 100;
+const SNIPPET_LENGTH = 200;
+
+interface MessageHeader {
+  name: string;
+  value: string;
+}
+
+export interface GmailMessagePart {
+  partId: string;
+  mimeType: string;
+  filename: string;
+  headers: MessageHeader[];
+  body: { size: number; data?: string; attachmentId?: string };
+  parts?: GmailMessagePart[];
+}
+
+interface StoredMessage {
+  id: string;
+  threadId: string;
+  labelIds: string[];
+  historyId: number;
+  internalDate: number;
+  snippet: string;
+  raw: Buffer;
+  payload: GmailMessagePart;
+  attachments: Map<string, Buffer>;
+}
+
+export interface FakeGoogleUser {
+  id: string;
+  email: string;
+  name: string;
+  picture: string;
+}
+
+export const DEFAULT_FAKE_USER: FakeGoogleUser = {
+  id: '100000000000000000001',
+  email: process.env.FAKE_GMAIL_EMAIL || 'reader@example.com',
+  name: process.env.FAKE_GMAIL_NAME || 'Fake Reader',
+  picture: 'https://www.gravatar.com/avatar/?d=mp',
+};
+
+// MIME parsing
+
+function base64url(data: Buffer): string {
+  return data.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+// Messages are handled as latin1 strings so every byte survives the round trip
+function splitHeaderBody(raw: string): { headerText: string; body: string } {
+  const match = /\r?\n\r?\n/.exec(raw);
+  if (!match) return { headerText: raw, body: '' };
+  return { headerText: raw.slice(0, match.index), body: raw.slice(match.index + match[0].length) };
+}
+
+function parseHeaders(headerText: string): MessageHeader[] {
+  const unfolded = headerText.replace(/\r?\n[ \t]+/g, ' ');
+  return unfolded
+    .split(/\r?\n/)
+    .map((line) => {
+      const colon = line.indexOf(':');
+      if (colon <= 0) return null;
+      return { name: line.slice(0, colon).trim(), value: line.slice(colon + 1).trim() };
+    })
+    .filter((header): header is MessageHeader => !!header);
+}
+
+function getHeader(headers: MessageHeader[], name: string): string | undefined {
+  return headers.find((h) => h.name.toLowerCase() === name.toLowerCase())?.value;
+}
+
+function decodeBody(body: string, encoding = ''): Buffer {
+  switch (encoding.toLowerCase()) {
+    case 'base64':
+      return Buffer.from(body.replace(/\s+/g, ''), 'base64');
+    case 'quoted-printable':
+      return decodeQuotedPrintable(body);
+    default:
+      return Buffer.from(body, 'latin1');
+  }
+}
+
+function splitMultipart(body: string, boundary: string): string[] {
+  const sections = body.split(`--${boundary}`);
+  const parts: string[] = [];
+
+  // The first section is the preamble; a section starting with "--" closes the multipart
+  for (const section of sections.slice(1)) {
+    if (section.startsWith('--')) break;
+    parts.push(section.replace(/^[ \t]*\r?\n/, '').replace(/\r?\n$/, ''));
+  }
+  return parts;
+}
+
+// Build a Gmail API message part the way messages.get(format=full) returns it
+function parsePart(raw: string, partId: string, attachments: Map<string, Buffer>): GmailMessagePart {
+  const { headerText, body } = splitHeaderBody(raw);
+  const headers = parseHeaders(headerText);
+  const contentType = parseHeaderParams(getHeader(headers, 'Content-Type') || 'text/plain');
+  const disposition = parseHeaderParams(getHeader(headers, 'Content-Disposition') || '');
+  const filename = disposition.params.filename || contentType.params.name || '';
+
+  if (contentType.value.startsWith('multipart/') && contentType.params.boundary) {
+    const parts = splitMultipart(body, contentType.params.boundary).map((section, index) =>
+      parsePart(section, partId ? `${partId}.${index}` : String(index), attachments)
+    );
+    return { partId, mimeType: contentType.value, filename, headers, body: { size: 0 }, parts };
+  }
+
+  const data = decodeBody(body, getHeader(headers, 'Content-Transfer-Encoding'));
+  if (filename) {
+    const attachmentId = base64url(crypto.createHash('sha256').update(partId).update(data).digest());
+    attachments.set(attachmentId, data);
+    return { partId, mimeType: contentType.value, filename, headers, body: { size: data.length, attachmentId } };
+  }
+
+  return { partId, mimeType: contentType.value, filename, headers, body: { size: data.length, data: base64url(data) } };
+}
+
+function findTextPart(part: GmailMessagePart, mimeType: string): GmailMessagePart | undefined {
+  if (part.mimeType === mimeType && part.body.data) return part;
+  for (const child of part.parts || []) {
+    const found = findTextPart(child, mimeType);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+function buildSnippet(payload: GmailMessagePart): string {
+  const part = findTextPart(payload, 'text/plain') || findTextPart(payload, 'text/html');
+  if (!part?.body.data) return '';
+
+  const text = Buffer.from(part.body.data, 'base64url').toString('utf-8');
+  const plain = part.mimeType === 'text/html' ? text.replace(/<[^>]+>/g, ' ') : text;
+  return plain.replace(/\s+/g, ' ').trim().slice(0, SNIPPET_LENGTH);
+}
+
+// Search queries
+
+interface SearchTerm {
+  operator: string;
+  value: string;
+}
+
+function parseGmailDate(value: string): number {
+  const [year, month, day] = value.split(/[/-]/).map(Number);
+  return Date.UTC(year, (month || 1) - 1, day || 1);
+}
+
+function matchesTerm(message: StoredMessage, term: SearchTerm): boolean {
+  const headers = message.payload.headers;
+  const value = term.value.toLowerCase();
+  const header = (name: string) => (getHeader(headers, name) || '').toLowerCase();
+
+  switch (term.operator) {
+    case 'from':
+      return header('From').includes(value);
+    case 'to':
+      return header('To').includes(value);
+    case 'subject':
+      return header('Subject').includes(value);
+    case 'after':
+      return message.internalDate >= parseGmailDate(term.value);
+    case 'before':
+      return message.internalDate < parseGmailDate(term.value);
+    case 'header':
+      return getHeader(headers, term.value) !== undefined;
+    case 'label':
+    case 'in':
+      return message.labelIds.includes(term.value.toUpperCase());
+    case 'is':
+      if (value === 'unread') return message.labelIds.includes('UNREAD');
+      if (value === 'read') return !message.labelIds.includes('UNREAD');
+      return true;
+    case '':
+      return header('Subject').includes(value) || message.snippet.toLowerCase().includes(value);
+    default:
+      // Operators the fake doesn't model (category:, has:, ...) match everything
+      return true;
+  }
+}
+
+// Terms are ANDed together, except that `a OR b` groups alternatives
+function matchesQuery(message: StoredMessage, query: string): boolean {
+  const tokens = query.match(/\S+:"[^"]*"|"[^"]*"|\S+/g) || [];
+  const groups: SearchTerm[][] = [];
+  let joinNext = false;
+
+  for (const token of tokens) {
+    if (token === 'OR') {
+      joinNext = groups.length > 0;
+      continue;
+    }
+
+    const match = /^(\w+):(.*)$/.exec(token);
+    const term = match
+      ? { operator: match[1].toLowerCase(), value: match[2].replace(/^"|"$/g, '') }
+      : { operator: '', value: token.replace(/^"|"$/g, '') };
+
+    if (joinNext) {
+      groups[groups.length - 1].push(term);
+    } else {
+      groups.push([term]);
+    }
+    joinNext = false;
+  }
+
+  return groups.every((group) => group.some((term) => matchesTerm(message, term)));
+}
+
+// Mailbox
+
+export class FakeMailbox {
+  private messages = new Map<string, StoredMessage>();
+  private loadedFiles = new Set<string>();
+  private currentHistoryId = FIRST_HISTORY_ID;
+  private oldestHistoryId = FIRST_HISTORY_ID;
+  // Fixtures are shifted so the newest one arrived just now, keeping date searches meaningful
+  private dateOffset = 0;
+
+  constructor(private fixturesDir = DEFAULT_FIXTURES_DIR, private rebaseDates = true) {
+    const raws = this.unloadedFiles().map((file) => ({ file, raw: fs.readFileSync(file) }));
+    const dates = raws.map(({ raw }) => this.headerDate(raw)).filter((date) => !isNaN(date));
+    if (this.rebaseDates && dates.length > 0) {
+      this.dateOffset = Date.now() - Math.max(...dates);
+    }
+
+    // Issue history ids in arrival order
+    raws
+      .sort((a, b) => (this.headerDate(a.raw) || 0) - (this.headerDate(b.raw) || 0))
+      .forEach(({ file, raw }) => this.load(file, raw));
+  }
+
+  get historyId(): number {
+    return this.currentHistoryId;
+  }
+
+  get size(): number {
+    return this.messages.size;
+  }
+
+  private unloadedFiles(): string[] {
+    if (!fs.existsSync(this.fixturesDir)) return [];
+    return fs
+      .readdirSync(this.fixturesDir)
+      .filter((name) => name.endsWith('.eml'))
+      .sort()
+      .map((name) => path.join(this.fixturesDir, name))
+      .filter((file) => !this.loadedFiles.has(file));
+  }
+
+  private headerDate(raw: Buffer): number {
+    const headers = parseHeaders(splitHeaderBody(raw.toString('latin1')).headerText);
+    return Date.parse(getHeader(headers, 'Date') || '');
+  }
+
+  private load(file: string, raw: Buffer) {
+    this.loadedFiles.add(file);
+    this.addMessage(raw, path.basename(file));
+  }
+
+  // Pick up .eml files dropped into the folder since the last look
+  refresh() {
+    for (const file of this.unloadedFiles()) {
+      this.load(file, fs.readFileSync(file));
+    }
+  }
+
+  // Deliver a raw RFC 822 message, as if it had just arrived
+  addMessage(raw: Buffer, name: string = crypto.randomUUID()): StoredMessage {
+    const attachments = new Map<string, Buffer>();
+    const payload = parsePart(raw.toString('latin1'), '', attachments);
+    const id = crypto.createHash('sha1').update(name).digest('hex').slice(0, 16);
+    const date = Date.parse(getHeader(payload.headers, 'Date') || '');
+    const internalDate = isNaN(date) ? Date.now() : date + this.dateOffset;
+    const labels = getHeader(payload.headers, 'X-Gmail-Labels');
+
+    if (this.dateOffset && !isNaN(date)) {
+      const dateHeader = payload.headers.find((h) => h.name.toLowerCase() === 'date')!;
+      dateHeader.value = new Date(internalDate).toUTCString();
+    }
+
+    const message: StoredMessage = {
+      id,
+      threadId: id,
+      labelIds: labels ? labels.split(',').map((label) => label.trim().toUpperCase()) : ['INBOX', 'UNREAD'],
+      historyId: ++this.currentHistoryId,
+      internalDate,
+      snippet: buildSnippet(payload),
+      raw,
+      payload,
+      attachments,
+    };
+    this.messages.set(id, message);
+    return message;
+  }
+
+  get(id: string): StoredMessage | undefined {
+    return this.messages.get(id);
+  }
+
+  // Newest first, like Gmail
+  search(query = ''): StoredMessage[] {
+    return Array.from(this.messages.values())
+      .filter((message) => matchesQuery(message, query))
+      .sort((a, b) => b.internalDate - a.internalDate);
+  }
+
+  // Messages added after startHistoryId, or null once that history is no longer kept
+  addedSince(startHistoryId: number): StoredMessage[] | null {
+    if (startHistoryId < this.oldestHistoryId) return null;
+    return Array.from(this.messages.values())
+      .filter((message) => message.historyId > startHistoryId)
+      .sort((a, b) => a.historyId - b.historyId);
+  }
+
+  // Forget history so the next incremental sync gets a 404 and falls back to a full sync
+  expireHistory() {
+    this.oldestHistoryId = this.currentHistoryId + 1;
+  }
+}
+
+// HTTP server
+
+function googleError(res: Response, code: number, message: string, status: string) {
+  res.status(code).json({ error: { code, message, status, errors: [{ message, reason: status.toLowerCase() }] } });
+}
+
+function formatMessage(message: StoredMessage, format: string, metadataHeaders: string[]) {
+  const base = {
+    id: message.id,
+    threadId: message.threadId,
+    labelIds: message.labelIds,
+    snippet: message.snippet,
+    historyId: String(message.historyId),
+    internalDate: String(message.internalDate),
+    sizeEstimate: message.raw.length,
+  };
+
+  switch (format) {
+    case 'minimal':
+      return base;
+    case 'raw':
+      return { ...base, raw: base64url(message.raw) };
+    case 'metadata': {
+      const wanted = metadataHeaders.map((name) => name.toLowerCase());
+      const headers = wanted.length
+        ? message.payload.headers.filter((h) => wanted.includes(h.name.toLowerCase()))
+        : message.payload.headers;
+      return { ...base, payload: { partId: '', mimeType: message.payload.mimeType, filename: '', headers, body: { size: 0 } } };
+    }
+    default:
+      return { ...base, payload: message.payload };
+  }
+}
+
+// Query parameters may repeat (?metadataHeaders=From&metadataHeaders=Subject)
+function queryList(value: unknown): string[] {
+  if (value === undefined) return [];
+  return (Array.isArray(value) ? value : [value]).map(String);
+}
+
+function paginate<T>(items: T[], pageToken: unknown, maxResults: unknown) {
+  const offset = pageToken ? parseInt(String(pageToken)) || 0 : 0;
+  const limit = maxResults ? parseInt(String(maxResults)) || DEFAULT_PAGE_SIZE : DEFAULT_PAGE_SIZE;
+  const page = items.slice(offset, offset + limit);
+  const nextPageToken = offset + limit < items.length ? String(offset + limit) : undefined;
+  return { page, nextPageToken };
+}
+
+function requireBearer(req: Request, res: Response, next: NextFunction) {
+  if (!/^Bearer \S+/.test(req.headers.authorization || '')) {
+    return googleError(res, 401, 'Request is missing required authentication credential.', 'UNAUTHENTICATED');
+  }
+  next();
+}
+
+export function createFakeGmailApp(mailbox: FakeMailbox, user: FakeGoogleUser = DEFAULT_FAKE_USER): Express {
+  const app = express();
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: false }));
+
+  const revokedTokens = new Set<string>();
+  const issueAccessToken = () => `fake-access-${crypto.randomBytes(12).toString('hex')}`;
+
+  // OAuth consent screen: approve straight away and send the user back with a code
+  app.get('/o/oauth2/v2/auth', (req, res) => {
+    const redirectUri = String(req.query.redirect_uri || '');
+    if (!redirectUri) {
+      return res.status(400).send('redirect_uri is required');
+    }
+
+    const url = new URL(redirectUri);
+    url.searchParams.set('code', 'fake-auth-code');
+    if (req.query.state) url.searchParams.set('state', String(req.query.state));
+    res.redirect(url.toString());
+  });
+
+  app.post('/token', (req, res) => {
+    const { grant_type: grantType, code, refresh_token: refreshToken } = req.body;
+
+    if (grantType === 'authorization_code' && code) {
+      return res.json({
+        access_token: issueAccessToken(),
+        refresh_token: `fake-refresh-${crypto.randomBytes(12).toString('hex')}`,
+        expires_in: 3599,
+        scope: 'https://www.googleapis.com/auth/gmail.readonly https://www.googleapis.com/auth/userinfo.email https://www.googleapis.com/auth/userinfo.profile',
+        token_type: 'Bearer',
+      });
+    }
+
+    if (grantType === 'refresh_token' && refreshToken && !revokedTokens.has(refreshToken)) {
+      return res.json({ access_token: issueAccessToken(), expires_in: 3599, token_type: 'Bearer' });
+    }
+
+    res.status(400).json({ error: 'invalid_grant', error_description: 'Token has been expired or revoked.' });
+  });
+
+  app.post('/revoke', (req, res) => {
+    const token = String(req.body.token || req.query.token || '');
+    if (token) revokedTokens.add(token);
+    res.json({});
+  });
+
+  app.get(['/oauth2/v2/userinfo', '/oauth2/v1/userinfo'], requireBearer, (_req, res) => {
+    res.json({
+      id: user.id,
+      email: user.email,
+      verified_email: true,
+      name: user.name,
+      given_name: user.name.split(' ')[0],
+      picture: user.picture,
+    });
+  });
+
+  // Gmail API
+  const gmail = express.Router();
+  gmail.use(requireBearer);
+  gmail.use((_req, _res, next) => {
+    mailbox.refresh();
+    next();
+  });
+
+  gmail.get('/users/:userId/profile', (_req, res) => {
+    res.json({
+      emailAddress: user.email,
+      messagesTotal: mailbox.size,
+      threadsTotal: mailbox.size,
+      historyId: String(mailbox.historyId),
+    });
+  });
+
+  gmail.get('/users/:userId/messages', (req, res) => {
+    const labelIds = queryList(req.query.labelIds).map((label) => label.toUpperCase());
+    const matches = mailbox
+      .search(String(req.query.q || ''))
+      .filter((message) => labelIds.every((label) => message.labelIds.includes(label)));
+    const { page, nextPageToken } = paginate(matches, req.query.pageToken, req.query.maxResults);
+
+    res.json({
+      ...(page.length ? { messages: page.map((m) => ({ id: m.id, threadId: m.threadId })) } : {}),
+      ...(nextPageToken ? { nextPageToken } : {}),
+      resultSizeEstimate: matches.length,
+    });
+  });
+
+  gmail.get('/users/:userId/messages/:id', (req, res) => {
+    const message = mailbox.get(req.params.id);
+    if (!message) {
+      return googleError(res, 404, 'Requested entity was not found.', 'NOT_FOUND');
+    }
+    res.json(formatMessage(message, String(req.query.format || 'full'), queryList(req.query.metadataHeaders)));
+  });
+
+  gmail.get('/users/:userId/messages/:messageId/attachments/:id', (req, res) => {
+    const data = mailbox.get(req.params.messageId)?.attachments.get(req.params.id);
+    if (!data) {
+      return googleError(res, 404, 'Requested entity was not found.', 'NOT_FOUND');
+    }
+    res.json({ attachmentId: req.params.id, size: data.length, data: base64url(data) });
+  });
+
+  gmail.get('/users/:userId/history', (req, res) => {
+    const startHistoryId = parseInt(String(req.query.startHistoryId || ''));
+    if (isNaN(startHistoryId)) {
+      return googleError(res, 400, 'Invalid startHistoryId', 'INVALID_ARGUMENT');
+    }
+
+    const added = mailbox.addedSince(startHistoryId);
+    if (!added) {
+      return googleError(res, 404, 'Requested entity was not found.', 'NOT_FOUND');
+    }
+
+    const { page, nextPageToken } = paginate(added, req.query.pageToken, req.query.maxResults);
+    res.json({
+      ...(page.length
+        ? {
+            history: page.map((m) => ({
+              id: String(m.historyId),
+              messages: [{ id: m.id, threadId: m.threadId }],
+              messagesAdded: [{ message: { id: m.id, threadId: m.threadId, labelIds: m.labelIds } }],
+            })),
+          }
+        : {}),
+      ...(nextPageToken ? { nextPageToken } : {}),
+      historyId: String(mailbox.historyId),
+    });
+  });
+
+  app.use('/gmail/v1', gmail);
+
+  // Test controls, not part of the Google API
+  app.post('/__fake/messages', express.text({ type: () => true, limit: '10mb' }), (req, res) => {
+    const message = mailbox.addMessage(Buffer.from(String(req.body), 'latin1'));
+    res.status(201).json({ id: message.id, historyId: String(message.historyId) });
+  });
+
+  app.post('/__fake/expire-history', (_req, res) => {
+    mailbox.expireHistory();
+    res.status(204).end();
+  });
+
+  return app;
+}
@@ -0,0 +1,112 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { storage } from './storage';
+import { EmailService } from './emailService';
+import { createFakeGmailApp, FakeMailbox } from './fakeGmail';
+import { commitMailboxChanges, getMailboxChanges, resetMailboxSync } from './gmailSync';
+
+function rawMessage(subject: string): Buffer {
+  return Buffer.from(
+    [
+      'From: Weekly Byte <hello@weeklybyte.example>',
+      'To: reader@example.com',
+      `Subject: ${subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      `${subject} body`,
+    ].join('\r\n')
+  );
+}
+
+describe('mailbox sync', () => {
+  let server: Server;
+  let mailbox: FakeMailbox;
+  let emailService: EmailService;
+  let userId: number;
+  let users = 0;
+  const listAll = vi.fn(() => emailService.listMessageIds(''));
+
+  beforeAll(async () => {
+    mailbox = new FakeMailbox();
+    server = createFakeGmailApp(mailbox).listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    emailService = new EmailService('fake-access', `http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    listAll.mockClear();
+    const name = `syncer${++users}`;
+    const user = await storage.createUser({ username: name, email: `${name}@example.com`, password: 'hashed' });
+    userId = user.id;
+  });
+
+  async function syncOnce() {
+    const changes = await getMailboxChanges(userId, 'newsletters', emailService, listAll);
+    await commitMailboxChanges(userId, 'newsletters', changes);
+    return changes;
+  }
+
+  it('lists the whole mailbox the first time and remembers where it got to', async () => {
+    const changes = await syncOnce();
+
+    expect(changes).toEqual({
+      messageIds: mailbox.search().map((message) => message.id),
+      historyId: String(mailbox.historyId),
+      fullSync: true,
+    });
+    expect(await storage.getGmailSyncState(userId, 'newsletters')).toMatchObject({
+      historyId: String(mailbox.historyId),
+      fullSyncedAt: expect.any(Date),
+    });
+  });
+
+  it('only lists messages that arrived since the last committed sync', async () => {
+    await syncOnce();
+    listAll.mockClear();
+    const first = mailbox.addMessage(rawMessage('Issue 1'));
+    const second = mailbox.addMessage(rawMessage('Issue 2'));
+
+    const uncommitted = await getMailboxChanges(userId, 'newsletters', emailService, listAll);
+    const changes = await syncOnce();
+
+    expect(uncommitted.messageIds).toEqual([first.id, second.id]);
+    expect(changes).toEqual({ messageIds: [first.id, second.id], historyId: String(mailbox.historyId), fullSync: false });
+    expect(listAll).not.toHaveBeenCalled();
+    expect((await syncOnce()).messageIds).toEqual([]);
+  });
+
+  it('keeps each scope separate', async () => {
+    await syncOnce();
+
+    const senders = await getMailboxChanges(userId, 'senders', emailService, listAll);
+
+    expect(senders.fullSync).toBe(true);
+  });
+
+  it('runs a full sync again once Gmail has expired the history', async () => {
+    await syncOnce();
+    mailbox.addMessage(rawMessage('Missed issue'));
+    mailbox.expireHistory();
+    listAll.mockClear();
+
+    const changes = await syncOnce();
+
+    expect(changes.fullSync).toBe(true);
+    expect(changes.messageIds).toEqual(mailbox.search().map((message) => message.id));
+    expect(listAll).toHaveBeenCalledOnce();
+  });
+
+  it('runs a full sync again after a reset', async () => {
+    await syncOnce();
+
+    await resetMailboxSync(userId, 'newsletters');
+
+    expect((await syncOnce()).fullSync).toBe(true);
+  });
+});
@@ -0,0 +1,50 @@
+import { storage } from './storage';
+import { EmailService, HistoryExpiredError } from './emailService';
+import type { GmailSyncScope } from '@shared/schema';
+
+export interface MailboxChanges {
+  messageIds: string[];
+  historyId: string;
+  fullSync: boolean;
+}
+
+// Message ids the scope hasn't processed yet. After the first sync only messages
+// added since the stored history id are listed; fullSync runs the given search
+// instead, which only happens the first time or once Gmail has expired the history id.
+export async function getMailboxChanges(
+  userId: number,
+  scope: GmailSyncScope,
+  emailService: EmailService,
+  listAll: () => Promise<string[]>
+): Promise<MailboxChanges> {
+  const state = await storage.getGmailSyncState(userId, scope);
+
+  if (state) {
+    try {
+      const { messageIds, historyId } = await emailService.listMessageIdsSince(state.historyId);
+      return { messageIds, historyId, fullSync: false };
+    } catch (error) {
+      if (!(error instanceof HistoryExpiredError)) throw error;
+      console.log(`Gmail history expired for user ${userId} (${scope}), running a full sync`);
+    }
+  }
+
+  // Read the history id before searching so mail arriving mid-scan is picked up next time
+  const historyId = await emailService.getHistoryId();
+  return { messageIds: await listAll(), historyId, fullSync: true };
+}
+
+// Record the changes as processed; call only once they have been handled
+export async function commitMailboxChanges(userId: number, scope: GmailSyncScope, changes: MailboxChanges) {
+  await storage.saveGmailSyncState({
+    userId,
+    scope,
+    historyId: changes.historyId,
+    fullSyncedAt: changes.fullSync ? new Date() : undefined,
+  });
+}
+
+// Force the next sync for the scope to be a full one, e.g. after subscribing to new senders
+export async function resetMailboxSync(userId: number, scope: GmailSyncScope) {
+  await storage.deleteGmailSyncState(userId, scope);
+}
@@ -0,0 +1,28 @@
+// Base URL for every Google API and OAuth call. Unset means the real Google
+// services; point it at the fake Gmail server (npm run fake-gmail) to work offline.
+export const GOOGLE_API_BASE_URL = process.env.GOOGLE_API_BASE_URL || undefined;
+
+function trimSlash(baseUrl: string): string {
+  return baseUrl.replace(/\/+$/, '');
+}
+
+// rootUrl option for googleapis clients such as google.gmail() and google.oauth2()
+export function googleApiOptions(baseUrl = GOOGLE_API_BASE_URL): { rootUrl?: string } {
+  return baseUrl ? { rootUrl: `${trimSlash(baseUrl)}/` } : {};
+}
+
+// OAuth2Client endpoint overrides matching the paths Google itself uses
+export function googleOAuthEndpoints(baseUrl = GOOGLE_API_BASE_URL) {
+  if (!baseUrl) return undefined;
+
+  const root = trimSlash(baseUrl);
+  return {
+    oauth2AuthBaseUrl: `${root}/o/oauth2/v2/auth`,
+    oauth2TokenUrl: `${root}/token`,
+    oauth2RevokeUrl: `${root}/revoke`,
+    tokenInfoUrl: `${root}/tokeninfo`,
+    oauth2FederatedSignonPemCertsUrl: `${root}/oauth2/v1/certs`,
+    oauth2FederatedSignonJwkCertsUrl: `${root}/oauth2/v3/certs`,
+    oauth2IapPublicKeyUrl: `${root}/iap/verify/public_key`,
+  };
+}
@@ -0,0 +1,94 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import type { User } from '@shared/schema';
+import { createFakeGmailApp, FakeMailbox } from './fakeGmail';
+
+// googleApi reads the base URL when it is first imported
+type GoogleAuth = typeof import('./googleAuth');
+type Storage = typeof import('./storage')['storage'];
+
+describe('getValidGoogleToken', () => {
+  let server: Server;
+  let baseUrl: string;
+  let googleAuth: GoogleAuth;
+  let storage: Storage;
+  let user: User;
+  let tokenRequests = 0;
+
+  beforeAll(async () => {
+    const app = express();
+    app.post('/token', (_req, _res, next) => {
+      tokenRequests++;
+      next();
+    });
+    app.use(createFakeGmailApp(new FakeMailbox()));
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    vi.stubEnv('GOOGLE_API_BASE_URL', baseUrl);
+    googleAuth = await import('./googleAuth');
+    ({ storage } = await import('./storage'));
+    user = await storage.createUser({ username: 'gmailer', email: 'gmailer@example.com', password: 'hashed' });
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    const existing = await storage.getUserTokenByProvider(user.id, 'google');
+    if (existing) await storage.deleteUserToken(existing.id);
+    tokenRequests = 0;
+  });
+
+  function saveToken(expiresInMs: number, refreshToken = 'fake-refresh-stored') {
+    return storage.saveUserToken({
+      userId: user.id,
+      provider: 'google',
+      accessToken: 'stale-access',
+      refreshToken,
+      idToken: null,
+      expiresAt: new Date(Date.now() + expiresInMs),
+    });
+  }
+
+  it('returns tokens that are good for more than a minute as they are', async () => {
+    await saveToken(5 * 60 * 1000);
+
+    expect(await googleAuth.getValidGoogleToken(user.id)).toMatchObject({ accessToken: 'stale-access' });
+    expect(tokenRequests).toBe(0);
+  });
+
+  it('refreshes tokens that expire within a minute and stores the new one', async () => {
+    await saveToken(30 * 1000);
+
+    const token = await googleAuth.getValidGoogleToken(user.id);
+
+    expect(tokenRequests).toBe(1);
+    expect(token?.accessToken).toMatch(/^fake-access-/);
+    expect(token?.refreshToken).toBe('fake-refresh-stored');
+    expect(token?.expiresAt!.getTime()).toBeGreaterThan(Date.now() + 50 * 60 * 1000);
+    expect(await storage.getUserTokenByProvider(user.id, 'google')).toMatchObject({ accessToken: token?.accessToken });
+  });
+
+  it('shares one refresh between concurrent callers', async () => {
+    await saveToken(-1000);
+
+    const tokens = await Promise.all([1, 2, 3].map(() => googleAuth.getValidGoogleToken(user.id)));
+
+    expect(tokenRequests).toBe(1);
+    expect(new Set(tokens.map((token) => token?.accessToken)).size).toBe(1);
+  });
+
+  it('deletes tokens whose refresh token Google rejects', async () => {
+    await fetch(`${baseUrl}/revoke?token=fake-refresh-revoked`, { method: 'POST' });
+    await saveToken(-1000, 'fake-refresh-revoked');
+
+    await expect(googleAuth.getValidGoogleToken(user.id)).rejects.toBeInstanceOf(googleAuth.GoogleTokenRevokedError);
+    expect(await storage.getUserTokenByProvider(user.id, 'google')).toBeUndefined();
+  });
+});
@@ -4,6 +4,8 @@ import { Request, Response } from 'express';
 import { generateToken } from './jwt';
 import fs from 'fs';
 import path from 'path';
+import type { UserToken } from '@shared/schema';
+import { googleApiOptions, googleOAuthEndpoints } from './googleApi';
 
 // Load credentials from JSON file
 let credentials: any;
@@ -19,12 +21,18 @@ try {
   };
 }
 
+// Create an OAuth2 client for the configured Google endpoints
+function createOAuth2Client(redirectUri?: string) {
+  return new google.auth.OAuth2({
+    clientId: credentials.client_id,
+    clientSecret: credentials.client_secret,
+    redirectUri,
+    endpoints: googleOAuthEndpoints(),
+  });
+}
+
 // Initialize OAuth2 client
-const oauth2Client = new google.auth.OAuth2(
-  credentials.client_id,
-  credentials.client_secret,
-  `${process.env.HOST || 'http://localhost:5000'}/auth/callback`
-);
+const oauth2Client = createOAuth2Client(`${process.env.HOST || 'http://localhost:5000'}/auth/callback`);
 
 // Scopes we want to request for Gmail access
 const SCOPES = [
@@ -53,15 +61,91 @@ export async function exchangeCodeForTokens(code: string) {
   }
 }
 
+// Thrown when Google no longer accepts the stored refresh token
+export class GoogleTokenRevokedError extends Error {
+  constructor() {
+    super('Google refresh token has been revoked');
+    this.name = 'GoogleTokenRevokedError';
+  }
+}
+
+// Refreshes in flight, keyed by token id, so concurrent requests share one refresh
+const pendingRefreshes = new Map<number, Promise<UserToken>>();
+
+// Get a new access token with the stored refresh token and persist it
+export function refreshUserGoogleToken(token: UserToken): Promise<UserToken> {
+  const pending = pendingRefreshes.get(token.id);
+  if (pending) return pending;
+
+  const refresh = (async () => {
+    if (!token.refreshToken) {
+      throw new GoogleTokenRevokedError();
+    }
+
+    const client = createOAuth2Client();
+    client.setCredentials({ refresh_token: token.refreshToken });
+
+    try {
+      const { credentials: tokens } = await client.refreshAccessToken();
+      if (!tokens.access_token) {
+        throw new Error('Google did not return an access token');
+      }
+
+      const updated = await storage.updateUserToken(token.id, {
+        accessToken: tokens.access_token,
+        refreshToken: tokens.refresh_token || token.refreshToken,
+        idToken: tokens.id_token || token.idToken,
+        expiresAt: tokens.expiry_date ? new Date(tokens.expiry_date) : null
+      });
+      if (!updated) {
+        throw new Error(`User token not found: ${token.id}`);
+      }
+      return updated;
+    } catch (error: any) {
+      if (error?.response?.data?.error === 'invalid_grant') {
+        throw new GoogleTokenRevokedError();
+      }
+      throw error;
+    }
+  })();
+
+  pendingRefreshes.set(token.id, refresh);
+  return refresh.finally(() => pendingRefreshes.delete(token.id));
+}
+
+// Refresh Google tokens slightly before they actually expire
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+// Load the user's Google token, refreshing it if it has expired or is about to.
+// A revoked token is deleted so the user is asked to reconnect Google.
+export async function getValidGoogleToken(userId: number): Promise<UserToken | undefined> {
+  const token = await storage.getUserTokenByProvider(userId, 'google');
+  if (!token) return undefined;
+
+  if (!token.expiresAt || new Date(token.expiresAt).getTime() >= Date.now() + TOKEN_EXPIRY_MARGIN_MS) {
+    return token;
+  }
+
+  try {
+    return await refreshUserGoogleToken(token);
+  } catch (error) {
+    if (error instanceof GoogleTokenRevokedError) {
+      await storage.deleteUserToken(token.id);
+    }
+    throw error;
+  }
+}
+
 // Get user information using access token
 export async function getUserInfo(accessToken: string) {
   try {
-    const auth = new google.auth.OAuth2();
+    const auth = createOAuth2Client();
     auth.setCredentials({ access_token: accessToken });
     
     const oauth2 = google.oauth2({
       auth,
-      version: 'v2'
+      version: 'v2',
+      ...googleApiOptions()
     });
     
     const userInfo = await oauth2.userinfo.get();
@@ -207,10 +291,10 @@ export async function handleGoogleCallback(req: Request, res: Response) {
 // Fetch emails from Gmail
 export async function fetchGmailEmails(accessToken: string, query = 'category:primary is:unread label:newsletter', maxResults = 10) {
   try {
-    const auth = new google.auth.OAuth2();
+    const auth = createOAuth2Client();
     auth.setCredentials({ access_token: accessToken });
     
-    const gmail = google.gmail({ version: 'v1', auth });
+    const gmail = google.gmail({ version: 'v1', auth, ...googleApiOptions() });
     
     // List messages matching query
     const response = await gmail.users.messages.list({
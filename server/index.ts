@@ -1,6 +1,12 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { connection } from "./db";
+import { runMigrations } from "./migrate";
+import { storage } from "./storage";
+import { seedDatabase } from "./seed";
+import { startJobWorker } from "./jobQueue";
+import { registerJobHandlers } from "./jobHandlers";
 
 const app = express();
 app.use(express.json());
@@ -37,6 +43,19 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  if (connection) {
+    if (process.env.SKIP_MIGRATIONS !== "true") {
+      await runMigrations(connection.db);
+      log("database migrations applied");
+    }
+  } else {
+    // In-memory storage starts empty, so load the demo content
+    await seedDatabase(storage);
+  }
+
+  registerJobHandlers();
+  await startJobWorker();
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -0,0 +1,37 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { User } from '@shared/schema';
+import { storage } from './storage';
+import { startJobWorker, stopJobWorker } from './jobQueue';
+import { JOB_TYPES, registerJobHandlers, scheduleFeedRefresh } from './jobHandlers';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('feed refresh', () => {
+  let user: User;
+
+  beforeAll(async () => {
+    registerJobHandlers();
+    await startJobWorker({ pollIntervalMs: 10 });
+    // No Google token, so every refresh fails for good
+    user = await storage.createUser({ username: 'refresher', email: 'refresher@example.com', password: 'hashed' });
+  });
+
+  afterAll(() => {
+    stopJobWorker();
+  });
+
+  it('schedules the next refresh when one fails for good', async () => {
+    const job = await scheduleFeedRefresh(user.id, 0);
+
+    await vi.waitFor(async () => {
+      expect((await storage.getJobById(job.id))?.status).toBe('failed');
+    });
+
+    const [next, ...rest] = (await storage.getActiveJobsByType(JOB_TYPES.refreshFeed)).filter(
+      (active) => active.userId === user.id
+    );
+    expect(rest).toEqual([]);
+    expect(next).toMatchObject({ status: 'pending' });
+    expect(next.runAt.getTime()).toBeGreaterThan(Date.now() + 5 * HOUR_MS);
+  });
+});
@@ -0,0 +1,107 @@
+import { storage } from './storage';
+import { enqueueJob, registerJobHandler, runExclusively, willRetry, PermanentJobError } from './jobQueue';
+import { getValidGoogleToken, GoogleTokenRevokedError } from './googleAuth';
+import { discoverNewsletterSenders, generateNewsletterAudio, ingestNewslettersForUser } from './newsletterIngestion';
+import type { Job } from '@shared/schema';
+
+export const JOB_TYPES = {
+  discoverSenders: 'discover-senders',
+  ingestNewsletters: 'ingest-newsletters',
+  generateAudio: 'generate-audio',
+  refreshFeed: 'refresh-feed',
+} as const;
+
+// How often each user's subscribed senders are checked for new mail
+const FEED_REFRESH_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+async function getAccessToken(userId: number | null): Promise<string> {
+  if (!userId) {
+    throw new PermanentJobError('Job has no user');
+  }
+
+  try {
+    const token = await getValidGoogleToken(userId);
+    if (!token) {
+      throw new PermanentJobError('Google authentication required');
+    }
+    return token.accessToken;
+  } catch (error) {
+    if (error instanceof GoogleTokenRevokedError) {
+      throw new PermanentJobError('Google access revoked');
+    }
+    throw error;
+  }
+}
+
+// Import new mail and queue speech synthesis for each new newsletter. A user's
+// imports and feed refreshes run one at a time, or both would store the same
+// messages and race on the mailbox sync state.
+async function ingest(job: Job, maxResults?: number) {
+  const result = await runExclusively(`ingest:${job.userId}`, async () =>
+    ingestNewslettersForUser(job.userId!, await getAccessToken(job.userId), maxResults)
+  );
+
+  for (const newsletter of result.created) {
+    await enqueueJob(JOB_TYPES.generateAudio, { newsletterId: newsletter.id }, { userId: job.userId! });
+  }
+
+  return { newsletterIds: result.created.map((n) => n.id), skipped: result.skipped };
+}
+
+export function enqueueSenderDiscovery(userId: number): Promise<Job> {
+  return enqueueJob(JOB_TYPES.discoverSenders, {}, { userId });
+}
+
+export function enqueueIngestion(userId: number, maxResults?: number): Promise<Job> {
+  return enqueueJob(JOB_TYPES.ingestNewsletters, maxResults ? { maxResults } : {}, { userId });
+}
+
+// Make sure a periodic refresh is scheduled for the user, without stacking duplicates
+export async function scheduleFeedRefresh(userId: number, delayMs = FEED_REFRESH_INTERVAL_MS): Promise<Job> {
+  const active = await storage.getActiveJobsByType(JOB_TYPES.refreshFeed);
+  const existing = active.find((job) => job.userId === userId && job.status === 'pending');
+  if (existing) return existing;
+
+  return enqueueJob(JOB_TYPES.refreshFeed, {}, { userId, runAt: new Date(Date.now() + delayMs) });
+}
+
+export function registerJobHandlers() {
+  registerJobHandler(JOB_TYPES.discoverSenders, async (job) => {
+    return discoverNewsletterSenders(job.userId!, await getAccessToken(job.userId));
+  });
+
+  registerJobHandler(JOB_TYPES.ingestNewsletters, async (job) => {
+    const { maxResults } = job.payload as { maxResults?: number };
+    return ingest(job, maxResults);
+  });
+
+  registerJobHandler(JOB_TYPES.generateAudio, async (job) => {
+    const { newsletterId } = job.payload as { newsletterId: number };
+    if (!(await storage.getNewsletterById(newsletterId))) {
+      throw new PermanentJobError(`Newsletter not found: ${newsletterId}`);
+    }
+
+    const newsletter = await generateNewsletterAudio(newsletterId);
+    return { audioUrl: newsletter.audioUrl, duration: newsletter.duration };
+  });
+
+  registerJobHandler(JOB_TYPES.refreshFeed, async (job) => {
+    let retrying = false;
+    try {
+      return await ingest(job);
+    } catch (error) {
+      // The retry schedules the next refresh when it finishes
+      retrying = willRetry(job, error);
+      throw error;
+    } finally {
+      // A refresh that failed for good still schedules the next one, or the
+      // user's feed would stop updating. This job is still marked running, so
+      // scheduling won't find it.
+      if (!retrying && job.userId) {
+        await scheduleFeedRefresh(job.userId).catch((error) =>
+          console.error(`Could not schedule the next feed refresh for user ${job.userId}:`, error)
+        );
+      }
+    }
+  });
+}
@@ -0,0 +1,158 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { storage } from './storage';
+import {
+  enqueueJob,
+  registerJobHandler,
+  retryDelay,
+  runExclusively,
+  startJobWorker,
+  stopJobWorker,
+  PermanentJobError,
+} from './jobQueue';
+
+const STALE_LOCK_MS = 300;
+
+// A promise with its resolve and reject exposed
+function deferred<T = void>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+describe('runExclusively', () => {
+  it('runs tasks with the same key one after another', async () => {
+    const first = deferred();
+    const order: string[] = [];
+
+    const a = runExclusively('user:1', async () => {
+      order.push('a started');
+      await first.promise;
+      order.push('a done');
+    });
+    const b = runExclusively('user:1', async () => {
+      order.push('b started');
+    });
+    const other = runExclusively('user:2', async () => {
+      order.push('other started');
+    });
+
+    await other;
+    expect(order).toEqual(['a started', 'other started']);
+
+    first.resolve();
+    await Promise.all([a, b]);
+    expect(order).toEqual(['a started', 'other started', 'a done', 'b started']);
+  });
+
+  it('keeps going after a task fails', async () => {
+    const failed = runExclusively('user:3', async () => {
+      throw new Error('boom');
+    });
+    const next = runExclusively('user:3', async () => 'ran');
+
+    await expect(failed).rejects.toThrow('boom');
+    await expect(next).resolves.toBe('ran');
+  });
+});
+
+describe('retryDelay', () => {
+  it('doubles from five seconds and caps at ten minutes', () => {
+    expect([1, 2, 3, 4].map(retryDelay)).toEqual([5000, 10000, 20000, 40000]);
+    expect(retryDelay(20)).toBe(10 * 60 * 1000);
+  });
+});
+
+describe('job worker', () => {
+  const failures = new Map<string, Error>();
+  const blocked = new Map<string, Promise<void>>();
+
+  beforeAll(async () => {
+    // Echoes its payload, unless the test set a failure or a wait for the payload's name
+    registerJobHandler('test', async (job) => {
+      const { name } = job.payload as { name: string };
+      await blocked.get(name);
+      const failure = failures.get(name);
+      if (failure) throw failure;
+      return job.payload;
+    });
+    await startJobWorker({ pollIntervalMs: 10, staleLockMs: STALE_LOCK_MS });
+  });
+
+  afterAll(() => {
+    stopJobWorker();
+  });
+
+  async function waitForStatus(id: number, status: string) {
+    await vi.waitFor(async () => {
+      expect((await storage.getJobById(id))?.status).toBe(status);
+    });
+    return (await storage.getJobById(id))!;
+  }
+
+  it('runs jobs and stores their result', async () => {
+    const job = await enqueueJob('test', { name: 'echo' });
+
+    expect(await waitForStatus(job.id, 'completed')).toMatchObject({
+      attempts: 1,
+      result: { name: 'echo' },
+      lockedAt: null,
+    });
+  });
+
+  it('leaves jobs that are not due yet alone', async () => {
+    const job = await enqueueJob('test', { name: 'later' }, { runAt: new Date(Date.now() + 60 * 60 * 1000) });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(await storage.getJobById(job.id)).toMatchObject({ status: 'pending', attempts: 0 });
+  });
+
+  it('retries failed jobs with backoff until their attempts run out', async () => {
+    failures.set('flaky', new Error('try again'));
+    const job = await enqueueJob('test', { name: 'flaky' }, { maxAttempts: 2 });
+
+    await vi.waitFor(async () => {
+      expect((await storage.getJobById(job.id))?.attempts).toBe(1);
+    });
+    const retrying = await waitForStatus(job.id, 'pending');
+    expect(retrying.error).toBe('try again');
+    expect(retrying.runAt.getTime()).toBeGreaterThan(Date.now() + retryDelay(1) - 1000);
+
+    // Skip the wait for the retry
+    await storage.updateJob(job.id, { runAt: new Date() });
+    expect(await waitForStatus(job.id, 'failed')).toMatchObject({ attempts: 2, error: 'try again' });
+  });
+
+  it('does not retry permanent failures', async () => {
+    failures.set('broken', new PermanentJobError('cannot work'));
+    const job = await enqueueJob('test', { name: 'broken' });
+
+    expect(await waitForStatus(job.id, 'failed')).toMatchObject({ attempts: 1, error: 'cannot work' });
+  });
+
+  it('renews the lock of a long job so it is not run twice', async () => {
+    const release = deferred();
+    blocked.set('slow', release.promise);
+    const job = await enqueueJob('test', { name: 'slow' });
+
+    await waitForStatus(job.id, 'running');
+    await new Promise((resolve) => setTimeout(resolve, STALE_LOCK_MS * 2));
+    const running = (await storage.getJobById(job.id))!;
+    expect(running).toMatchObject({ status: 'running', attempts: 1 });
+    expect(running.lockedAt!.getTime()).toBeGreaterThan(Date.now() - STALE_LOCK_MS);
+
+    release.resolve();
+    expect(await waitForStatus(job.id, 'completed')).toMatchObject({ attempts: 1 });
+  });
+
+  it('requeues jobs whose worker stopped renewing the lock', async () => {
+    // As if a worker claimed the job and then died
+    const job = await storage.createJob({ type: 'test', payload: { name: 'orphan' } });
+    await storage.updateJob(job.id, { status: 'running', attempts: 1, lockedAt: new Date(Date.now() - STALE_LOCK_MS * 2) });
+
+    expect(await waitForStatus(job.id, 'completed')).toMatchObject({ attempts: 2 });
+  });
+});
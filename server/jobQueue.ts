@@ -0,0 +1,184 @@
+import { storage } from './storage';
+import type { Job } from '@shared/schema';
+
+export type JobHandler = (job: Job) => Promise<unknown>;
+
+export interface EnqueueOptions {
+  userId?: number;
+  maxAttempts?: number;
+  runAt?: Date;
+}
+
+export interface JobWorkerOptions {
+  concurrency?: number;
+  pollIntervalMs?: number;
+  staleLockMs?: number;
+}
+
+// Thrown by handlers for failures that retrying won't fix
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentJobError';
+  }
+}
+
+const DEFAULT_CONCURRENCY = Number(process.env.JOB_CONCURRENCY) || 2;
+const DEFAULT_POLL_INTERVAL_MS = 2000;
+const BASE_RETRY_DELAY_MS = 5000;
+const MAX_RETRY_DELAY_MS = 10 * 60 * 1000;
+// Running jobs locked longer ago than this are assumed to belong to a dead worker.
+// Live workers renew their locks several times within it, so those are left alone.
+const DEFAULT_STALE_LOCK_MS = Number(process.env.JOB_STALE_LOCK_MS) || 15 * 60 * 1000;
+// How many times per stale period locks are renewed and stale jobs are looked for
+const LOCK_CHECKS_PER_STALE_PERIOD = 3;
+
+const handlers = new Map<string, JobHandler>();
+// Tail of the work queued under each key by runExclusively
+const exclusiveTails = new Map<string, Promise<unknown>>();
+
+let started = false;
+let claiming = false;
+let running = 0;
+let concurrency = DEFAULT_CONCURRENCY;
+let staleLockMs = DEFAULT_STALE_LOCK_MS;
+let pollTimer: NodeJS.Timeout | undefined;
+let requeueTimer: NodeJS.Timeout | undefined;
+
+export function registerJobHandler(type: string, handler: JobHandler) {
+  handlers.set(type, handler);
+}
+
+// Store a job and nudge the worker so it starts without waiting for the next poll
+export async function enqueueJob(
+  type: string,
+  payload: Record<string, unknown> = {},
+  options: EnqueueOptions = {}
+): Promise<Job> {
+  const job = await storage.createJob({
+    type,
+    payload,
+    userId: options.userId ?? null,
+    maxAttempts: options.maxAttempts,
+    runAt: options.runAt,
+  });
+  wakeWorker();
+  return job;
+}
+
+// Run task once everything queued before it under the same key has settled, so
+// handlers that touch the same data don't overlap in this worker
+export function runExclusively<T>(key: string, task: () => Promise<T>): Promise<T> {
+  const previous = exclusiveTails.get(key) ?? Promise.resolve();
+  const result = previous.then(task);
+  const tail = result.catch(() => undefined);
+  exclusiveTails.set(key, tail);
+  void tail.then(() => {
+    if (exclusiveTails.get(key) === tail) exclusiveTails.delete(key);
+  });
+  return result;
+}
+
+// Exponential backoff: 5s, 10s, 20s, ... capped at 10 minutes
+export function retryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+// Whether a job that failed with this error goes back in the queue
+export function willRetry(job: Job, error: unknown): boolean {
+  return !(error instanceof PermanentJobError) && job.attempts < job.maxAttempts;
+}
+
+async function runJob(job: Job) {
+  // Renew the lock while the handler works, so a long job isn't mistaken for an abandoned one
+  const heartbeat = setInterval(() => {
+    storage.updateJob(job.id, { lockedAt: new Date() })
+      .catch((error) => console.error(`Job ${job.id} lock could not be renewed:`, error));
+  }, staleLockMs / LOCK_CHECKS_PER_STALE_PERIOD);
+  heartbeat.unref();
+
+  try {
+    const handler = handlers.get(job.type);
+    if (!handler) {
+      throw new PermanentJobError(`No handler registered for job type: ${job.type}`);
+    }
+
+    const result = await handler(job);
+    clearInterval(heartbeat);
+    await storage.updateJob(job.id, { status: 'completed', result: result ?? null, error: null, lockedAt: null });
+  } catch (error: any) {
+    clearInterval(heartbeat);
+    const message = error?.message || String(error);
+    console.error(`Job ${job.id} (${job.type}) failed on attempt ${job.attempts}:`, message);
+
+    await storage.updateJob(job.id, willRetry(job, error)
+      ? { status: 'pending', error: message, lockedAt: null, runAt: new Date(Date.now() + retryDelay(job.attempts)) }
+      : { status: 'failed', error: message, lockedAt: null });
+  }
+}
+
+// Claim due jobs until every slot is busy or nothing is left to run
+async function fillSlots() {
+  if (claiming) return;
+  claiming = true;
+
+  try {
+    while (started && running < concurrency) {
+      const job = await storage.claimNextJob();
+      if (!job) break;
+
+      running++;
+      runJob(job)
+        .catch((error) => console.error(`Job ${job.id} could not be updated:`, error))
+        .finally(() => {
+          running--;
+          wakeWorker();
+        });
+    }
+  } catch (error) {
+    console.error('Job worker error:', error);
+  } finally {
+    claiming = false;
+  }
+}
+
+function wakeWorker() {
+  if (started) void fillSlots();
+}
+
+// Jobs whose worker died will never finish, so put them back in the queue
+async function requeueStaleJobs() {
+  try {
+    const requeued = await storage.requeueStaleJobs(new Date(Date.now() - staleLockMs));
+    if (requeued > 0) {
+      console.log(`Requeued ${requeued} interrupted job(s)`);
+      wakeWorker();
+    }
+  } catch (error) {
+    console.error('Job requeue error:', error);
+  }
+}
+
+export async function startJobWorker(options: JobWorkerOptions = {}) {
+  if (started) return;
+  started = true;
+  concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+  staleLockMs = options.staleLockMs ?? DEFAULT_STALE_LOCK_MS;
+
+  // Another worker may die while this one runs, so keep looking, not just at startup
+  await requeueStaleJobs();
+  requeueTimer = setInterval(requeueStaleJobs, staleLockMs / LOCK_CHECKS_PER_STALE_PERIOD);
+  requeueTimer.unref();
+
+  pollTimer = setInterval(wakeWorker, options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS);
+  pollTimer.unref();
+  wakeWorker();
+}
+
+export function stopJobWorker() {
+  started = false;
+  if (pollTimer) clearInterval(pollTimer);
+  if (requeueTimer) clearInterval(requeueTimer);
+  pollTimer = undefined;
+  requeueTimer = undefined;
+}
@@ -0,0 +1,93 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ListeningEventType, Newsletter, User } from '@shared/schema';
+import { storage } from './storage';
+import { getListeningStats } from './listeningStats';
+
+const MINUTE_MS = 60 * 1000;
+
+describe('getListeningStats', () => {
+  let newsletter: Newsletter;
+  let user: User;
+  let userCount = 0;
+
+  beforeAll(async () => {
+    const category = await storage.createCategory({ name: 'Technology', description: 'Tech news' });
+    newsletter = await storage.createNewsletter({
+      title: 'Weekly roundup',
+      publisher: 'Byte Sized',
+      description: 'The week in tech',
+      imageUrl: '',
+      audioUrl: '/audio/1.mp3',
+      duration: 1800,
+      categoryId: category.id,
+    });
+  });
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const name = `listener${++userCount}`;
+    user = await storage.createUser({ username: name, email: `${name}@example.com`, password: 'hashed' });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // Record an event at the given time
+  async function listen(at: string, type: ListeningEventType, position: number, fromPosition?: number) {
+    vi.setSystemTime(new Date(at));
+    await storage.createListeningEvent({ userId: user.id, newsletterId: newsletter.id, type, position, fromPosition });
+  }
+
+  function minutesOn(stats: Awaited<ReturnType<typeof getListeningStats>>, date: string) {
+    return stats.daily.find((day) => day.date === date)?.minutes;
+  }
+
+  it('adds up the audio played between a play and the next pause or completion', async () => {
+    await listen('2025-03-10T08:00:00Z', 'play', 0);
+    await listen('2025-03-10T08:10:00Z', 'pause', 600);
+    await listen('2025-03-11T08:00:00Z', 'play', 600);
+    await listen('2025-03-11T08:05:00Z', 'complete', 900);
+    vi.setSystemTime(new Date('2025-03-11T12:00:00Z'));
+
+    const stats = await getListeningStats(user.id);
+    expect(stats.totalMinutes).toBe(15);
+    expect(minutesOn(stats, '2025-03-10')).toBe(10);
+    expect(minutesOn(stats, '2025-03-11')).toBe(5);
+    expect(stats.weekly[stats.weekly.length - 1]).toEqual({ weekStart: '2025-03-10', minutes: 15 });
+    expect(stats.topPublishers).toEqual([{ publisher: 'Byte Sized', minutes: 15 }]);
+    expect(stats.topCategories).toEqual([{ category: 'Technology', minutes: 15 }]);
+    expect(stats.completion).toEqual({ started: 1, completed: 1, rate: 1 });
+    expect(stats.streak).toEqual({ current: 2, longest: 2 });
+  });
+
+  it('does not count the audio skipped by a seek', async () => {
+    await listen('2025-03-10T08:00:00Z', 'play', 0);
+    await listen('2025-03-10T08:02:00Z', 'seek', 600, 120);
+    await listen('2025-03-10T08:05:00Z', 'pause', 780);
+    vi.setSystemTime(new Date('2025-03-10T12:00:00Z'));
+
+    expect((await getListeningStats(user.id)).totalMinutes).toBe(5);
+  });
+
+  it('caps a span at the playback rate the time allows', async () => {
+    await listen('2025-03-10T08:00:00Z', 'play', 0);
+    await listen('2025-03-10T08:01:00Z', 'pause', 1500);
+    vi.setSystemTime(new Date('2025-03-10T12:00:00Z'));
+
+    const stats = await getListeningStats(user.id);
+    expect(stats.totalMinutes).toBe(3);
+    expect(stats.completion).toEqual({ started: 1, completed: 0, rate: 0 });
+  });
+
+  it('counts days in the listener\'s time zone', async () => {
+    await listen('2025-03-11T01:00:00Z', 'play', 0);
+    await listen('2025-03-11T01:10:00Z', 'pause', 600);
+    vi.setSystemTime(new Date(new Date('2025-03-11T01:10:00Z').getTime() + MINUTE_MS));
+
+    // Five hours behind UTC it was still the evening of the 10th
+    const stats = await getListeningStats(user.id, 300);
+    expect(minutesOn(stats, '2025-03-10')).toBe(10);
+    expect(stats.daily[stats.daily.length - 1].date).toBe('2025-03-10');
+  });
+});
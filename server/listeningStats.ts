@@ -0,0 +1,160 @@
+import { storage } from './storage';
+import type { ListeningEvent, ListeningStats, NewsletterSummary } from '@shared/schema';
+
+// Listening stats rebuilt from the player's events. A play starts a span of
+// listening that the next pause, seek or completion of the same newsletter
+// ends; after a seek listening carries on from where playback jumped to.
+
+const DAILY_DAYS = 30;
+// Totals, top lists and completion cover the weekly chart's weeks
+const WEEKLY_WEEKS = 12;
+// How far back streaks are counted
+const STREAK_DAYS = 365;
+const TOP_LIMIT = 5;
+// A span can't cover more audio than this many times the time that passed,
+// which guards against seeks the player never reported
+const MAX_PLAYBACK_RATE = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface ListenedSpan {
+  newsletter: NewsletterSummary;
+  seconds: number;
+  endedAt: Date;
+}
+
+type EventWithNewsletter = { event: ListeningEvent; newsletter: NewsletterSummary };
+
+function listenedSpans(rows: EventWithNewsletter[]): ListenedSpan[] {
+  const spans: ListenedSpan[] = [];
+  let open: { newsletterId: number; position: number; startedAt: Date } | null = null;
+
+  for (const { event, newsletter } of rows) {
+    const createdAt = new Date(event.createdAt);
+    const continues = open?.newsletterId === event.newsletterId;
+
+    if (open && continues && event.type !== 'play') {
+      const end = event.type === 'seek' ? event.fromPosition ?? event.position : event.position;
+      const elapsed = (createdAt.getTime() - open.startedAt.getTime()) / 1000;
+      const seconds = Math.min(Math.max(0, end - open.position), elapsed * MAX_PLAYBACK_RATE);
+      if (seconds > 0) {
+        spans.push({ newsletter, seconds, endedAt: createdAt });
+      }
+    }
+
+    if (event.type === 'play' || (event.type === 'seek' && continues)) {
+      open = { newsletterId: event.newsletterId, position: event.position, startedAt: createdAt };
+    } else if (continues) {
+      open = null;
+    }
+  }
+
+  return spans;
+}
+
+// Calendar date (YYYY-MM-DD) in the listener's time zone; the offset is
+// minutes behind UTC, as returned by Date.getTimezoneOffset() in the browser
+function localDate(date: Date, timezoneOffset: number): string {
+  return new Date(date.getTime() - timezoneOffset * 60 * 1000).toISOString().slice(0, 10);
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+// Monday of the date's week
+function weekStart(date: string): string {
+  const dayOfWeek = (new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7;
+  return addDays(date, -dayOfWeek);
+}
+
+function toMinutes(seconds: number): number {
+  return Math.round((seconds / 60) * 10) / 10;
+}
+
+function topEntries(totals: Map<string, number>): { name: string; minutes: number }[] {
+  return Array.from(totals.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, TOP_LIMIT)
+    .map(([name, seconds]) => ({ name, minutes: toMinutes(seconds) }));
+}
+
+function sumBy<T>(items: T[], key: (item: T) => string, seconds: (item: T) => number): Map<string, number> {
+  const totals = new Map<string, number>();
+  for (const item of items) {
+    totals.set(key(item), (totals.get(key(item)) || 0) + seconds(item));
+  }
+  return totals;
+}
+
+function streaks(days: Set<string>, today: string): { current: number; longest: number } {
+  // Today still counts towards the streak before anything has been played
+  let day = days.has(today) ? today : addDays(today, -1);
+  let current = 0;
+  while (days.has(day)) {
+    current++;
+    day = addDays(day, -1);
+  }
+
+  let longest = 0;
+  let run = 0;
+  let previous: string | null = null;
+  for (const date of Array.from(days).sort()) {
+    run = previous && addDays(previous, 1) === date ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = date;
+  }
+
+  return { current, longest };
+}
+
+export async function getListeningStats(userId: number, timezoneOffset = 0): Promise<ListeningStats> {
+  const now = new Date();
+  const today = localDate(now, timezoneOffset);
+  const rows = await storage.getListeningEventsSince(userId, new Date(now.getTime() - (STREAK_DAYS + 1) * DAY_MS));
+  const spans = listenedSpans(rows);
+  const dayOf = (span: ListenedSpan) => localDate(span.endedAt, timezoneOffset);
+
+  const firstDay = addDays(today, -(DAILY_DAYS - 1));
+  const firstWeek = addDays(weekStart(today), -7 * (WEEKLY_WEEKS - 1));
+  const recentSpans = spans.filter((span) => dayOf(span) >= firstWeek);
+  const recentRows = rows.filter(({ event }) => localDate(new Date(event.createdAt), timezoneOffset) >= firstWeek);
+
+  const secondsByDay = sumBy(spans, dayOf, (span) => span.seconds);
+  const secondsByWeek = sumBy(recentSpans, (span) => weekStart(dayOf(span)), (span) => span.seconds);
+
+  const categoryNames = new Map((await storage.getAllCategories()).map((category) => [category.id, category.name]));
+  const byPublisher = sumBy(recentSpans, (span) => span.newsletter.publisher, (span) => span.seconds);
+  const byCategory = sumBy(
+    recentSpans,
+    (span) => categoryNames.get(span.newsletter.categoryId) || 'Uncategorized',
+    (span) => span.seconds
+  );
+
+  const started = new Set(recentRows.filter(({ event }) => event.type === 'play').map(({ event }) => event.newsletterId));
+  const completed = new Set(
+    recentRows
+      .filter(({ event }) => event.type === 'complete' && started.has(event.newsletterId))
+      .map(({ event }) => event.newsletterId)
+  );
+
+  return {
+    totalMinutes: toMinutes(recentSpans.reduce((total, span) => total + span.seconds, 0)),
+    daily: Array.from({ length: DAILY_DAYS }, (_, i) => {
+      const date = addDays(firstDay, i);
+      return { date, minutes: toMinutes(secondsByDay.get(date) || 0) };
+    }),
+    weekly: Array.from({ length: WEEKLY_WEEKS }, (_, i) => {
+      const week = addDays(firstWeek, 7 * i);
+      return { weekStart: week, minutes: toMinutes(secondsByWeek.get(week) || 0) };
+    }),
+    topPublishers: topEntries(byPublisher).map(({ name, minutes }) => ({ publisher: name, minutes })),
+    topCategories: topEntries(byCategory).map(({ name, minutes }) => ({ category: name, minutes })),
+    completion: {
+      started: started.size,
+      completed: completed.size,
+      rate: started.size > 0 ? completed.size / started.size : 0,
+    },
+    streak: streaks(new Set(Array.from(secondsByDay.keys())), today),
+  };
+}
@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { verifyToken, extractTokenFromHeader } from './jwt';
 import { storage } from './storage';
+import { getValidGoogleToken, GoogleTokenRevokedError } from './googleAuth';
 
 // Middleware to verify JWT token
 export async function authMiddleware(req: Request, res: Response, next: NextFunction) {
@@ -37,6 +38,23 @@ export async function authMiddleware(req: Request, res: Response, next: NextFunc
   }
 }
 
+// Middleware that attaches the user when a valid JWT is sent, for routes that
+// also serve anonymous visitors
+export async function optionalAuthMiddleware(req: Request, _res: Response, next: NextFunction) {
+  try {
+    const token = extractTokenFromHeader(req.headers.authorization);
+    const payload = token ? verifyToken(token) : null;
+    const user = payload ? await storage.getUser(payload.userId) : undefined;
+
+    if (user) {
+      (req as any).user = user;
+    }
+  } catch (error) {
+    console.error('Optional auth middleware error:', error);
+  }
+  next();
+}
+
 // Middleware to verify Google OAuth token
 export async function googleAuthMiddleware(req: Request, res: Response, next: NextFunction) {
   try {
@@ -47,18 +65,22 @@ export async function googleAuthMiddleware(req: Request, res: Response, next: Ne
     
     const userId = (req as any).user.id;
     
-    // Get Google token for user
-    const token = await storage.getUserTokenByProvider(userId, 'google');
+    // Get Google token for user, refreshed if it has expired or is about to
+    let token;
+    try {
+      token = await getValidGoogleToken(userId);
+    } catch (error) {
+      if (error instanceof GoogleTokenRevokedError) {
+        return res.status(401).json({ message: 'Google access revoked' });
+      }
+      console.error('Google token refresh error:', error);
+      return res.status(503).json({ message: 'Failed to refresh Google token' });
+    }
     
     if (!token) {
       return res.status(401).json({ message: 'Google authentication required' });
     }
     
-    // Check if token is expired
-    if (token.expiresAt && new Date(token.expiresAt) < new Date()) {
-      return res.status(401).json({ message: 'Google token expired' });
-    }
-    
     // Add token to request object
     (req as any).googleToken = token;
     
@@ -0,0 +1,11 @@
+import path from "path";
+import { migrate } from "drizzle-orm/node-postgres/migrator";
+import type { Database } from "./db";
+
+// SQL migrations generated from shared/schema.ts by `npm run db:generate`
+export const MIGRATIONS_FOLDER = path.resolve(process.cwd(), "migrations");
+
+// Apply any migrations that have not been run against the database yet
+export async function runMigrations(db: Database): Promise<void> {
+  await migrate(db, { migrationsFolder: MIGRATIONS_FOLDER });
+}
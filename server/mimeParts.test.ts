@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import {
+  decodePartBody,
+  decodeQuotedPrintable,
+  embedInlineImages,
+  inlineImageDataUrl,
+  parseHeaderParams,
+  walkMessageParts,
+  type MessagePart,
+} from './mimeParts';
+
+function base64Url(bytes: Buffer | string): string {
+  return Buffer.from(bytes).toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function textPart(mimeType: string, body: string, headers: Record<string, string> = {}): MessagePart {
+  return {
+    mimeType,
+    headers: Object.entries(headers).map(([name, value]) => ({ name, value })),
+    body: { size: body.length, data: base64Url(body) },
+  };
+}
+
+describe('parseHeaderParams', () => {
+  it('splits the value from its parameters', () => {
+    expect(parseHeaderParams('Text/HTML; Charset="ISO-8859-1"; format=flowed')).toEqual({
+      value: 'text/html',
+      params: { charset: 'ISO-8859-1', format: 'flowed' },
+    });
+  });
+});
+
+describe('walkMessageParts', () => {
+  it('finds the bodies, inline images and attachments in nested multiparts', () => {
+    const html = textPart('text/html', '<p>Issue</p>');
+    const text = textPart('text/plain', 'Issue');
+    const logo: MessagePart = {
+      mimeType: 'image/png',
+      filename: 'logo.png',
+      headers: [{ name: 'Content-ID', value: '<logo@news>' }],
+      body: { size: 2048, attachmentId: 'att-1' },
+    };
+    const pdf: MessagePart = { mimeType: 'application/pdf', filename: 'issue.pdf', body: { attachmentId: 'att-2' } };
+    const forwarded = textPart('text/html', '<p>Forwarded</p>');
+
+    const bodies = walkMessageParts({
+      mimeType: 'multipart/mixed',
+      parts: [
+        {
+          mimeType: 'multipart/related',
+          parts: [{ mimeType: 'multipart/alternative', parts: [text, html] }, logo],
+        },
+        pdf,
+        { mimeType: 'message/rfc822', parts: [forwarded] },
+        forwarded,
+      ],
+    });
+
+    expect(bodies.html).toBe(html);
+    expect(bodies.text).toBe(text);
+    expect(bodies.inlineImages).toEqual([
+      { contentId: 'logo@news', mimeType: 'image/png', filename: 'logo.png', size: 2048, attachmentId: 'att-1', data: undefined },
+    ]);
+    expect(bodies.attachments).toEqual([pdf]);
+  });
+
+  it('treats text parts with a filename as attachments unless they are inline', () => {
+    const attached = { ...textPart('text/plain', 'notes'), filename: 'notes.txt' };
+    const inline = textPart('text/plain', 'body', { 'Content-Disposition': 'inline; filename="body.txt"' });
+
+    const bodies = walkMessageParts({ mimeType: 'multipart/mixed', parts: [attached, { ...inline, filename: 'body.txt' }] });
+
+    expect(bodies.attachments).toEqual([attached]);
+    expect(bodies.text?.filename).toBe('body.txt');
+  });
+
+  it('reads the type from the Content-Type header when Gmail leaves mimeType out', () => {
+    const part = textPart('', '<p>Hi</p>', { 'Content-Type': 'text/html; charset=utf-8' });
+
+    expect(walkMessageParts(part).html).toBe(part);
+  });
+});
+
+describe('embedInlineImages', () => {
+  it('points cid: references at the given URLs and drops images it has no URL for', () => {
+    const html = '<img src="cid:logo@news"><img src="cid:huge@news" alt="big"><div style="background:url(cid:bg%40news)"></div>';
+    const urls = new Map([
+      ['logo@news', 'data:image/png;base64,AAA'],
+      ['bg@news', 'data:image/gif;base64,BBB'],
+    ]);
+
+    expect(embedInlineImages(html, urls)).toBe(
+      '<img src="data:image/png;base64,AAA"><div style="background:url(data:image/gif;base64,BBB)"></div>'
+    );
+  });
+
+  it('turns base64url image bytes into a data: URL', () => {
+    const bytes = Buffer.from([0xfb, 0xff, 0xfe]);
+    const image = { contentId: 'x', mimeType: 'image/gif', filename: '', size: 3 };
+
+    expect(inlineImageDataUrl(image, base64Url(bytes))).toBe(`data:image/gif;base64,${bytes.toString('base64')}`);
+  });
+});
+
+describe('decodePartBody', () => {
+  it('decodes the body in its charset', () => {
+    const part: MessagePart = {
+      mimeType: 'text/plain',
+      headers: [{ name: 'Content-Type', value: 'text/plain; charset="iso-8859-1"' }],
+      body: { data: base64Url(Buffer.from([0x43, 0x61, 0x66, 0xe9])) },
+    };
+
+    expect(decodePartBody(part)).toBe('Café');
+  });
+
+  it('undoes quoted-printable that Gmail left in place', () => {
+    const part = textPart('text/html', '<a href=3D"https://example.com/?a=1&b=2">Caf=C3=A9 =\r\nnews</a>', {
+      'Content-Transfer-Encoding': 'quoted-printable',
+    });
+
+    expect(decodePartBody(part)).toBe('<a href="https://example.com/?a=1&b=2">Café news</a>');
+  });
+
+  it('leaves already decoded quoted-printable parts alone', () => {
+    const part = textPart('text/html', '<a href="https://example.com/?q=AB">Link</a>', {
+      'Content-Transfer-Encoding': 'quoted-printable',
+    });
+
+    expect(decodePartBody(part)).toBe('<a href="https://example.com/?q=AB">Link</a>');
+  });
+
+  it('uses bodies fetched separately and returns nothing without one', () => {
+    const part: MessagePart = { mimeType: 'text/plain', body: { attachmentId: 'att-1' } };
+
+    expect(decodePartBody(part)).toBe('');
+    expect(decodePartBody(part, base64Url('fetched'))).toBe('fetched');
+  });
+
+  it('falls back to UTF-8 for unknown charsets', () => {
+    const part = textPart('text/plain', 'plain', { 'Content-Type': 'text/plain; charset=x-made-up' });
+
+    expect(decodePartBody(part)).toBe('plain');
+  });
+});
+
+describe('decodeQuotedPrintable', () => {
+  it('keeps stray equals signs that are not escapes', () => {
+    expect(decodeQuotedPrintable('1+1=2 =3D=\nok').toString()).toBe('1+1=2 =ok');
+  });
+});
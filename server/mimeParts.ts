@@ -0,0 +1,183 @@
+// Walks the MIME tree Gmail returns for messages.get(format=full) and decodes the
+// bodies found in it. Parts nest arbitrarily: a typical newsletter is
+// multipart/mixed > multipart/related > multipart/alternative > text/html.
+
+interface MessageHeader {
+  name: string;
+  value: string;
+}
+
+export interface MessagePart {
+  partId?: string;
+  mimeType?: string;
+  filename?: string;
+  headers?: MessageHeader[];
+  body?: { size?: number; data?: string; attachmentId?: string };
+  parts?: MessagePart[];
+}
+
+export interface InlineImage {
+  contentId: string;
+  mimeType: string;
+  filename: string;
+  size: number;
+  // Large parts are stored separately and fetched with users.messages.attachments.get
+  attachmentId?: string;
+  // base64url, present when Gmail included the bytes in the message
+  data?: string;
+}
+
+export interface MessageBodies {
+  html?: MessagePart;
+  text?: MessagePart;
+  inlineImages: InlineImage[];
+  attachments: MessagePart[];
+}
+
+function getHeader(part: MessagePart, name: string): string {
+  const header = (part.headers || []).find(h => h.name.toLowerCase() === name.toLowerCase());
+  return header ? header.value : '';
+}
+
+// Split `text/html; charset="utf-8"` into the value and its lower-cased parameter names
+export function parseHeaderParams(value: string): { value: string; params: Record<string, string> } {
+  const [first, ...rest] = value.split(';');
+  const params: Record<string, string> = {};
+  for (const param of rest) {
+    const eq = param.indexOf('=');
+    if (eq < 0) continue;
+    params[param.slice(0, eq).trim().toLowerCase()] = param.slice(eq + 1).trim().replace(/^"|"$/g, '');
+  }
+  return { value: first.trim().toLowerCase(), params };
+}
+
+function mimeTypeOf(part: MessagePart): string {
+  return (part.mimeType || parseHeaderParams(getHeader(part, 'Content-Type')).value || 'text/plain').toLowerCase();
+}
+
+function isAttachment(part: MessagePart): boolean {
+  const disposition = parseHeaderParams(getHeader(part, 'Content-Disposition')).value;
+  return disposition === 'attachment' || (!!part.filename && disposition !== 'inline');
+}
+
+function contentIdOf(part: MessagePart): string {
+  return getHeader(part, 'Content-ID').replace(/^<|>$/g, '').trim();
+}
+
+// Find the HTML and plain text bodies, inline images and attachments in a message.
+// The first body of each kind wins, so text from forwarded or attached messages
+// further down the tree doesn't replace the newsletter itself.
+export function walkMessageParts(payload: MessagePart): MessageBodies {
+  const result: MessageBodies = { inlineImages: [], attachments: [] };
+
+  const visit = (part: MessagePart) => {
+    const mimeType = mimeTypeOf(part);
+
+    if (mimeType.startsWith('multipart/')) {
+      (part.parts || []).forEach(visit);
+      return;
+    }
+
+    const contentId = contentIdOf(part);
+    if (mimeType.startsWith('image/') && contentId) {
+      result.inlineImages.push({
+        contentId,
+        mimeType,
+        filename: part.filename || '',
+        size: part.body?.size || 0,
+        attachmentId: part.body?.attachmentId,
+        data: part.body?.data,
+      });
+      return;
+    }
+
+    if (isAttachment(part)) {
+      result.attachments.push(part);
+    } else if (mimeType === 'text/html' && !result.html) {
+      result.html = part;
+    } else if (mimeType === 'text/plain' && !result.text) {
+      result.text = part;
+    }
+  };
+
+  visit(payload);
+  return result;
+}
+
+function decodeBase64Url(data: string): Buffer {
+  return Buffer.from(data.replace(/-/g, '+').replace(/_/g, '/'), 'base64');
+}
+
+// Inline images are copied into the stored HTML, so very large ones are left out
+export const MAX_INLINE_IMAGE_BYTES = 1024 * 1024;
+
+const CID_URL_PATTERN = /cid:([^"'\s)>]+)/gi;
+
+// data: URL for an inline image, given its base64url bytes
+export function inlineImageDataUrl(image: InlineImage, data: string): string {
+  return `data:${image.mimeType};base64,${decodeBase64Url(data).toString('base64')}`;
+}
+
+// Replace the HTML's cid: references with the given URLs, keyed by Content-ID.
+// Images whose part is missing or too large are removed rather than left broken.
+export function embedInlineImages(html: string, urls: Map<string, string>): string {
+  const urlFor = (contentId: string) => {
+    if (urls.has(contentId)) return urls.get(contentId);
+    try {
+      return urls.get(decodeURIComponent(contentId));
+    } catch {
+      return undefined;
+    }
+  };
+
+  return html
+    .replace(CID_URL_PATTERN, (match, contentId: string) => urlFor(contentId) ?? match)
+    .replace(/<img\b[^>]*\bsrc\s*=\s*["']?cid:[^>]*>/gi, '');
+}
+
+export function decodeQuotedPrintable(text: string): Buffer {
+  const bytes: number[] = [];
+  const input = text.replace(/=\r?\n/g, '');
+  for (let i = 0; i < input.length; i++) {
+    const hex = input.slice(i + 1, i + 3);
+    if (input[i] === '=' && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(input.charCodeAt(i) & 0xff);
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+// Gmail normally undoes the transfer encoding itself, but some senders double-encode
+// and some parts arrive untouched. Soft line breaks and an encoded "=" are the
+// giveaways; checking for any "=XX" would mangle query strings in links.
+function stillQuotedPrintable(text: string): boolean {
+  return /=\r?\n|=3D/i.test(text);
+}
+
+function decodeCharset(bytes: Buffer, charset: string): string {
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(bytes);
+  } catch {
+    // Unknown charset label
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+// Decode a text part's body (base64url from Gmail, or fetched separately via its
+// attachmentId) to a string, honouring its transfer encoding and charset
+export function decodePartBody(part: MessagePart, data = part.body?.data): string {
+  if (!data) return '';
+
+  const charset = parseHeaderParams(getHeader(part, 'Content-Type')).params.charset || 'utf-8';
+  const encoding = getHeader(part, 'Content-Transfer-Encoding').toLowerCase();
+  let bytes = decodeBase64Url(data);
+
+  if (encoding === 'quoted-printable' && stillQuotedPrintable(bytes.toString('latin1'))) {
+    bytes = decodeQuotedPrintable(bytes.toString('latin1'));
+  }
+
+  return decodeCharset(bytes, charset);
+}
@@ -0,0 +1,192 @@
+import { storage } from './storage';
+import { EmailService, NewsletterContent, parseSender } from './emailService';
+import { generateAudio, chunkText } from './audioGeneration';
+import { buildChapters } from './chapters';
+import { classifyNewsletter } from './categoryClassifier';
+import { getMailboxChanges, commitMailboxChanges } from './gmailSync';
+import type { Newsletter, InsertNewsletter, NewsletterSender, NewsletterTranscript } from '@shared/schema';
+
+const DEFAULT_IMAGE_URL = 'https://images.unsplash.com/photo-1586339949916-3e9457bef6d3?ixlib=rb-1.2.1&auto=format&fit=crop&w=800&q=80';
+const DESCRIPTION_LENGTH = 280;
+
+export interface IngestionResult {
+  created: Newsletter[];
+  skipped: number;
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function buildDescription(body: string): string {
+  const text = collapseWhitespace(body);
+  if (text.length <= DESCRIPTION_LENGTH) return text;
+  return text.slice(0, DESCRIPTION_LENGTH).replace(/\s+\S*$/, '') + '…';
+}
+
+function findImageUrl(html?: string): string {
+  if (!html) return DEFAULT_IMAGE_URL;
+  const match = /<img[^>]+src=["'](https:\/\/[^"']+)["']/i.exec(html);
+  return match ? match[1] : DEFAULT_IMAGE_URL;
+}
+
+function parsePublishedAt(date: string): Date {
+  const parsed = new Date(date);
+  return isNaN(parsed.getTime()) ? new Date() : parsed;
+}
+
+// Text read aloud for a newsletter: title and publisher first, like a podcast intro
+function narrationText(newsletter: Newsletter): string {
+  return `${newsletter.title}.\n\nFrom ${newsletter.publisher}.\n\n${newsletter.bodyText || newsletter.description}`;
+}
+
+// The narrated text, split into the paragraphs the audio was generated from.
+// Before the audio exists the same split is used, just without timings.
+export function getNewsletterTranscript(newsletter: Newsletter): NewsletterTranscript {
+  const timed = !!newsletter.transcript?.length;
+  const segments = timed
+    ? newsletter.transcript!
+    : chunkText(narrationText(newsletter)).map((text) => ({ text, start: 0, end: 0 }));
+
+  return { newsletterId: newsletter.id, html: newsletter.bodyHtml, segments, timed };
+}
+
+// Newsletters link to their sender record, which subscribers may have added
+// by address before discovery ever saw mail from it
+async function findOrCreateSender(email: string, name?: string): Promise<NewsletterSender> {
+  const existing = await storage.getNewsletterSenderByEmail(email);
+  if (existing) return existing;
+
+  const domain = email.split('@')[1] || email;
+  return storage.createNewsletterSender({ name: name || domain, email, domain, emailCount: 1 });
+}
+
+// Map a fetched email onto a newsletter record owned by the user whose mailbox it
+// came from. Audio is generated separately, so audioUrl stays empty until
+// generateNewsletterAudio has run.
+async function toNewsletter(ownerId: number, content: NewsletterContent): Promise<InsertNewsletter> {
+  const sender = parseSender(content.from);
+  const senderEmail = sender?.email || null;
+  const knownSender = senderEmail ? await findOrCreateSender(senderEmail, sender?.name) : undefined;
+  const publisher = knownSender?.name || sender?.name || senderEmail?.split('@')[1] || 'Unknown sender';
+  const body = content.narration || content.plain_text || content.markdown || '';
+  const title = content.subject || '(no subject)';
+  const categoryId = await classifyNewsletter(ownerId, { title, text: body, senderEmail });
+
+  return {
+    title,
+    publisher,
+    description: buildDescription(body),
+    imageUrl: findImageUrl(content.html),
+    audioUrl: '',
+    duration: 0,
+    categoryId,
+    publishedAt: parsePublishedAt(content.date),
+    featured: false,
+    bodyText: body,
+    bodyHtml: content.html || null,
+    senderEmail,
+    ownerId,
+    senderId: knownSender?.id ?? null,
+    sourceMessageId: content.messageId,
+  };
+}
+
+// Pull new emails from the user's subscribed senders and store them as newsletters.
+// maxResults only limits the full sync; incremental syncs take every new message.
+export async function ingestNewslettersForUser(
+  userId: number,
+  accessToken: string,
+  maxResults = 50
+): Promise<IngestionResult> {
+  const subscriptions = await storage.getUserNewsletterSenders(userId);
+  const senderEmails = subscriptions.filter((s) => s.subscribed).map((s) => s.senderEmail);
+
+  const result: IngestionResult = { created: [], skipped: 0 };
+  if (senderEmails.length === 0) return result;
+
+  const emailService = new EmailService(accessToken);
+  const changes = await getMailboxChanges(userId, 'newsletters', emailService, () =>
+    emailService.listSenderMessageIds(senderEmails, maxResults)
+  );
+  // The full sync search is already limited to these senders
+  const messageIds = changes.fullSync
+    ? changes.messageIds
+    : await emailService.filterBySenders(changes.messageIds, senderEmails);
+  const emails = await emailService.getNewslettersByIds(messageIds);
+
+  for (const email of emails) {
+    const existing = await storage.getNewsletterBySourceMessageId(userId, email.messageId);
+    if (existing) {
+      result.skipped++;
+      continue;
+    }
+
+    const newsletter = await storage.createNewsletter(await toNewsletter(userId, email));
+    result.created.push(newsletter);
+  }
+
+  await commitMailboxChanges(userId, 'newsletters', changes);
+  return result;
+}
+
+// Synthesize speech for a stored newsletter and attach the audio to it
+export async function generateNewsletterAudio(newsletterId: number): Promise<Newsletter> {
+  const newsletter = await storage.getNewsletterById(newsletterId);
+  if (!newsletter) {
+    throw new Error(`Newsletter not found: ${newsletterId}`);
+  }
+
+  const audio = await generateAudio(narrationText(newsletter));
+  const updated = await storage.updateNewsletter(newsletterId, {
+    audioUrl: audio.audioUrl,
+    duration: audio.duration,
+    transcript: audio.segments,
+    chapters: buildChapters(newsletter, audio.segments),
+  });
+  return updated ?? newsletter;
+}
+
+// Find newsletter senders in mail received since the last discovery and record them
+// for the user. Returns every sender ever found in the user's mailbox, with
+// emailCount counting the messages seen from it there, plus the senders the user
+// follows, so the list stays complete between scans.
+export async function discoverNewsletterSenders(userId: number, accessToken: string): Promise<NewsletterSender[]> {
+  const emailService = new EmailService(accessToken);
+  const changes = await getMailboxChanges(userId, 'senders', emailService, () =>
+    emailService.listRecentNewsletterIds(100)
+  );
+  const authors = await emailService.getAuthorsByIds(changes.messageIds);
+
+  // A full sync rescans the mailbox from scratch, so earlier counts would be counted twice
+  const previousCounts = new Map(
+    changes.fullSync
+      ? []
+      : (await storage.getDiscoveredSenders(userId)).map(({ sender, discovered }) => [sender.id, discovered.emailCount])
+  );
+  for (const author of authors) {
+    const sender = await findOrCreateSender(author.email, author.name);
+    await storage.saveDiscoveredSender({
+      userId,
+      senderId: sender.id,
+      emailCount: (previousCounts.get(sender.id) ?? 0) + author.messageCount,
+    });
+  }
+
+  const senders = (await storage.getDiscoveredSenders(userId)).map(({ sender, discovered }) => ({
+    ...sender,
+    emailCount: discovered.emailCount,
+  }));
+  const seen = new Set(senders.map((sender) => sender.email));
+  for (const subscription of await storage.getUserNewsletterSenders(userId)) {
+    if (seen.has(subscription.senderEmail)) continue;
+    const sender = await storage.getNewsletterSenderByEmail(subscription.senderEmail);
+    if (sender) {
+      seen.add(sender.email);
+      senders.push({ ...sender, emailCount: 0 });
+    }
+  }
+
+  await commitMailboxChanges(userId, 'senders', changes);
+  return senders;
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import type { NewsletterSummary } from '@shared/schema';
+import { decodeCursor, encodeCursor, toPage } from './pagination';
+
+function row(id: number, publishedAt = new Date('2025-01-01T00:00:00.123Z')): NewsletterSummary {
+  return { id, publishedAt } as NewsletterSummary;
+}
+
+describe('cursors', () => {
+  it('round-trip the position of a newsletter', () => {
+    const publishedAt = new Date('2025-01-01T00:00:00.123Z');
+    expect(decodeCursor(encodeCursor(row(42, publishedAt)))).toEqual({ publishedAt, id: 42 });
+  });
+
+  it('reject anything that is not a cursor', () => {
+    expect(decodeCursor('not a cursor')).toBeNull();
+    expect(decodeCursor(Buffer.from('12:abc').toString('base64url'))).toBeNull();
+  });
+});
+
+describe('toPage', () => {
+  it('points the next cursor at the last item when more rows follow', () => {
+    const page = toPage([row(3), row(2), row(1)], 2);
+    expect(page.items.map((item) => item.id)).toEqual([3, 2]);
+    expect(decodeCursor(page.nextCursor!)?.id).toBe(2);
+  });
+
+  it('has no next cursor on the last page', () => {
+    expect(toPage([row(2), row(1)], 2).nextCursor).toBeNull();
+  });
+});
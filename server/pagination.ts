@@ -0,0 +1,28 @@
+import type { NewsletterPage, NewsletterSummary } from '@shared/schema';
+
+// Position in a newsletter list, ordered by publishedAt and then id
+export interface NewsletterCursor {
+  publishedAt: Date;
+  id: number;
+}
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+// Cursors are opaque to clients: base64url of "<publishedAt ms>:<id>"
+export function encodeCursor(newsletter: NewsletterSummary): string {
+  return Buffer.from(`${new Date(newsletter.publishedAt).getTime()}:${newsletter.id}`).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): NewsletterCursor | null {
+  const match = /^(\d+):(\d+)$/.exec(Buffer.from(cursor, 'base64url').toString());
+  if (!match) return null;
+  return { publishedAt: new Date(Number(match[1])), id: Number(match[2]) };
+}
+
+// Storage is asked for one row more than the page size to tell whether another page follows
+export function toPage(rows: NewsletterSummary[], limit: number): NewsletterPage {
+  const items = rows.slice(0, limit);
+  const nextCursor = rows.length > limit ? encodeCursor(items[items.length - 1]) : null;
+  return { items, nextCursor };
+}
@@ -0,0 +1,45 @@
+import crypto from "crypto";
+import { describe, expect, it } from "vitest";
+import { hashPassword, isPasswordHash, needsRehash, verifyPassword } from "./password";
+
+// A hash in the stored format, made with cheaper parameters than hashPassword uses
+function weakHash(password: string): string {
+  const salt = crypto.randomBytes(16);
+  const key = crypto.scryptSync(password, salt, 64, { N: 1024, r: 8, p: 1 });
+  return ["scrypt", 1024, 8, 1, salt.toString("base64"), key.toString("base64")].join("$");
+}
+
+describe("hashPassword", () => {
+  it("salts every hash and verifies only the right password", async () => {
+    const first = await hashPassword("correct horse");
+    const second = await hashPassword("correct horse");
+
+    expect(isPasswordHash(first)).toBe(true);
+    expect(first).not.toBe(second);
+    expect(first).not.toContain("correct horse");
+    expect(await verifyPassword("correct horse", first)).toBe(true);
+    expect(await verifyPassword("correct horse!", first)).toBe(false);
+    expect(needsRehash(first)).toBe(false);
+  });
+});
+
+describe("verifyPassword", () => {
+  it("accepts legacy plaintext rows, which need rehashing", async () => {
+    expect(await verifyPassword("hunter2", "hunter2")).toBe(true);
+    expect(await verifyPassword("hunter3", "hunter2")).toBe(false);
+    expect(needsRehash("hunter2")).toBe(true);
+  });
+
+  it("rejects every password for users without one", async () => {
+    expect(await verifyPassword("", "")).toBe(false);
+    expect(await verifyPassword("anything", "")).toBe(false);
+  });
+
+  it("checks hashes made with older parameters and asks for an upgrade", async () => {
+    const stored = weakHash("correct horse");
+
+    expect(await verifyPassword("correct horse", stored)).toBe(true);
+    expect(await verifyPassword("wrong", stored)).toBe(false);
+    expect(needsRehash(stored)).toBe(true);
+  });
+});
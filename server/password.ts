@@ -0,0 +1,56 @@
+import crypto from "crypto";
+
+// scrypt cost parameters for new hashes; older hashes are upgraded on login
+const SCRYPT_N = 16384;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+const PREFIX = "scrypt";
+
+function scrypt(password: string, salt: Buffer, keyLength: number, options: crypto.ScryptOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(password, salt, keyLength, options, (err, key) => (err ? reject(err) : resolve(key)));
+  });
+}
+
+// Hashes are stored as scrypt$N$r$p$salt$key with base64 salt and key
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(SALT_LENGTH);
+  const key = await scrypt(password, salt, KEY_LENGTH, { N: SCRYPT_N, r: SCRYPT_R, p: SCRYPT_P });
+  return [PREFIX, SCRYPT_N, SCRYPT_R, SCRYPT_P, salt.toString("base64"), key.toString("base64")].join("$");
+}
+
+export function isPasswordHash(stored: string): boolean {
+  return stored.startsWith(`${PREFIX}$`);
+}
+
+// Check a password against a stored hash, or against a legacy plaintext value
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  // OAuth users have no local password
+  if (!stored) return false;
+
+  if (!isPasswordHash(stored)) {
+    // Compare fixed-length digests so the comparison time doesn't depend on the input
+    const expected = crypto.createHash("sha256").update(stored).digest();
+    const actual = crypto.createHash("sha256").update(password).digest();
+    return crypto.timingSafeEqual(expected, actual);
+  }
+
+  const [, n, r, p, salt, key] = stored.split("$");
+  const expected = Buffer.from(key, "base64");
+  const actual = await scrypt(password, Buffer.from(salt, "base64"), expected.length, {
+    N: Number(n),
+    r: Number(r),
+    p: Number(p),
+    maxmem: 256 * Number(n) * Number(r),
+  });
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+// True for plaintext passwords and hashes made with weaker parameters
+export function needsRehash(stored: string): boolean {
+  if (!isPasswordHash(stored)) return true;
+  const [, n, r, p] = stored.split("$");
+  return Number(n) !== SCRYPT_N || Number(r) !== SCRYPT_R || Number(p) !== SCRYPT_P;
+}
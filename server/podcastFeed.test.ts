@@ -0,0 +1,110 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { InsertNewsletter, User } from '@shared/schema';
+import { escapeXml, formatItunesDuration } from './podcastFeed';
+
+// AUDIO_DIR is read when the audio module loads
+type PodcastFeed = typeof import('./podcastFeed');
+type Storage = typeof import('./storage')['storage'];
+
+describe('formatItunesDuration', () => {
+  it('formats seconds as HH:MM:SS', () => {
+    expect(formatItunesDuration(3725.4)).toBe('01:02:05');
+    expect(formatItunesDuration(-5)).toBe('00:00:00');
+  });
+});
+
+describe('escapeXml', () => {
+  it('escapes markup and quotes', () => {
+    expect(escapeXml(`Tom & Jerry's <"news">`)).toBe('Tom &amp; Jerry&apos;s &lt;&quot;news&quot;&gt;');
+  });
+});
+
+describe('buildPodcastFeed', () => {
+  const baseUrl = 'https://podstack.example';
+  let audioDir: string;
+  let podcastFeed: PodcastFeed;
+  let storage: Storage;
+  let user: User;
+  let feed: string;
+
+  beforeAll(async () => {
+    audioDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'podstack-feed-'));
+    vi.stubEnv('AUDIO_DIR', audioDir);
+    vi.resetModules();
+    podcastFeed = await import('./podcastFeed');
+    ({ storage } = await import('./storage'));
+    const { subscribeToSenders } = await import('./subscriptions');
+
+    const created = await storage.createUser({ username: 'listener', email: 'listener@example.com', password: 'hashed' });
+    user = (await storage.updateUser(created.id, { name: 'Ada', feedToken: 'feed-secret' }))!;
+    const categoryId = (await storage.createCategory({ name: 'Technology', description: 'Tech news' })).id;
+    const subscribed = await storage.createNewsletterSender({ name: 'Byte', email: 'byte@news.example', domain: 'news.example' });
+    const other = await storage.createNewsletterSender({ name: 'Other', email: 'other@news.example', domain: 'news.example' });
+    await subscribeToSenders(user.id, [subscribed.email]);
+
+    await fs.promises.writeFile(path.join(audioDir, 'ready.wav'), Buffer.alloc(1234));
+    await fs.promises.writeFile(path.join(audioDir, 'other.wav'), Buffer.alloc(10));
+
+    const create = (data: Partial<InsertNewsletter>) =>
+      storage.createNewsletter({
+        title: 'Untitled',
+        publisher: 'Byte & Co',
+        description: 'The week in tech',
+        imageUrl: 'https://example.com/cover.png',
+        audioUrl: '',
+        duration: 600,
+        categoryId,
+        senderId: subscribed.id,
+        ownerId: user.id,
+        publishedAt: new Date('2025-01-02T00:00:00Z'),
+        ...data,
+      });
+
+    await create({
+      title: 'Ready <issue>',
+      audioUrl: '/audio/ready.wav',
+      duration: 3725,
+      chapters: [{ title: 'Intro', start: 0 }, { title: 'News', start: 60 }],
+    });
+    await create({ title: 'Still generating' });
+    await create({ title: 'Hosted elsewhere', audioUrl: 'https://cdn.example.com/episode.mp3' });
+    await create({ title: 'File gone', audioUrl: '/audio/missing.wav' });
+    await create({ title: 'Not subscribed', audioUrl: '/audio/other.wav', senderId: other.id });
+
+    feed = await podcastFeed.buildPodcastFeed(user, baseUrl);
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await fs.promises.rm(audioDir, { recursive: true, force: true });
+  });
+
+  it('describes the private feed', () => {
+    expect(feed).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>\n<rss version="2.0"/);
+    expect(feed).toContain('<title>Ada&apos;s PodStack</title>');
+    expect(feed).toContain('<atom:link href="https://podstack.example/feeds/feed-secret.xml" rel="self" type="application/rss+xml"/>');
+    expect(feed).toContain('<itunes:block>Yes</itunes:block>');
+    expect(feed).toContain(`<lastBuildDate>${new Date('2025-01-02T00:00:00Z').toUTCString()}</lastBuildDate>`);
+  });
+
+  it('lists only subscribed newsletters whose audio file is ready', () => {
+    const items = feed.match(/<item>[\s\S]*?<\/item>/g) || [];
+
+    expect(items).toHaveLength(1);
+    expect(items[0]).toContain('<title>Ready &lt;issue&gt;</title>');
+    expect(items[0]).toContain('<enclosure url="https://podstack.example/audio/ready.wav" length="1234" type="audio/wav"/>');
+    expect(items[0]).toContain('<itunes:author>Byte &amp; Co</itunes:author>');
+    expect(items[0]).toContain('<itunes:duration>01:02:05</itunes:duration>');
+  });
+
+  it('links the chapters of private newsletters with the feed token', () => {
+    const [newsletterId] = feed.match(/podstack-newsletter-(\d+)/)!.slice(1);
+
+    expect(feed).toContain(
+      `<podcast:chapters url="https://podstack.example/api/newsletters/${newsletterId}/chapters?token=feed-secret" type="application/json+chapters"/>`
+    );
+  });
+});
@@ -0,0 +1,150 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { storage } from './storage';
+import { AUDIO_DIR, AUDIO_URL_PREFIX } from './audioGeneration';
+import { CHAPTERS_CONTENT_TYPE } from './chapters';
+import { getSubscribedSenderIds } from './subscriptions';
+import type { NewsletterSummary, User } from '@shared/schema';
+
+// Podcast apps only show recent episodes, so keep the feed small
+const FEED_ITEM_LIMIT = 100;
+const FEED_IMAGE_URL = 'https://images.unsplash.com/photo-1478737270239-2f02b77fc618?ixlib=rb-1.2.1&auto=format&fit=crop&w=1400&h=1400&q=80';
+
+const AUDIO_MIME_TYPES: Record<string, string> = {
+  '.mp3': 'audio/mpeg',
+  '.m4a': 'audio/mp4',
+  '.ogg': 'audio/ogg',
+  '.wav': 'audio/wav',
+};
+
+export function generateFeedToken(): string {
+  return crypto.randomBytes(24).toString('base64url');
+}
+
+// Return the user's feed token, creating one the first time it is requested
+export async function getOrCreateFeedToken(user: User): Promise<string> {
+  if (user.feedToken) return user.feedToken;
+  return rotateFeedToken(user.id);
+}
+
+// Replace the feed token, which invalidates any previously shared feed URL
+export async function rotateFeedToken(userId: number): Promise<string> {
+  const feedToken = generateFeedToken();
+  await storage.updateUser(userId, { feedToken });
+  return feedToken;
+}
+
+export function getFeedUrl(baseUrl: string, feedToken: string): string {
+  return `${baseUrl}/feeds/${feedToken}.xml`;
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// iTunes durations are HH:MM:SS
+export function formatItunesDuration(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  return [hours, minutes, secs].map((n) => String(n).padStart(2, '0')).join(':');
+}
+
+function absoluteUrl(url: string, baseUrl: string): string {
+  return new URL(url, `${baseUrl}/`).toString();
+}
+
+function audioMimeType(audioUrl: string): string {
+  const extension = path.extname(new URL(audioUrl, 'http://localhost').pathname).toLowerCase();
+  return AUDIO_MIME_TYPES[extension] || 'audio/mpeg';
+}
+
+// Enclosures need a byte length; it is only known for audio we generated ourselves,
+// and 0 when the file is missing
+async function audioLength(audioUrl: string): Promise<number> {
+  if (!audioUrl.startsWith(`${AUDIO_URL_PREFIX}/`)) return 0;
+
+  try {
+    const stats = await fs.stat(path.join(AUDIO_DIR, path.basename(audioUrl)));
+    return stats.size;
+  } catch {
+    return 0;
+  }
+}
+
+// Podcast apps fetch chapters without signing in, so chapters of the user's own
+// newsletters are requested with the feed token instead
+function chaptersUrl(newsletter: NewsletterSummary, baseUrl: string, feedToken: string | null): string {
+  const url = `/api/newsletters/${newsletter.id}/chapters`;
+  return absoluteUrl(newsletter.ownerId !== null && feedToken ? `${url}?token=${encodeURIComponent(feedToken)}` : url, baseUrl);
+}
+
+function renderItem(newsletter: NewsletterSummary, length: number, baseUrl: string, feedToken: string | null): string {
+  const audioUrl = absoluteUrl(newsletter.audioUrl, baseUrl);
+
+  return [
+    '    <item>',
+    `      <title>${escapeXml(newsletter.title)}</title>`,
+    `      <description>${escapeXml(newsletter.description)}</description>`,
+    `      <guid isPermaLink="false">podstack-newsletter-${newsletter.id}</guid>`,
+    `      <pubDate>${new Date(newsletter.publishedAt).toUTCString()}</pubDate>`,
+    `      <enclosure url="${escapeXml(audioUrl)}" length="${length}" type="${audioMimeType(newsletter.audioUrl)}"/>`,
+    `      <itunes:author>${escapeXml(newsletter.publisher)}</itunes:author>`,
+    `      <itunes:summary>${escapeXml(newsletter.description)}</itunes:summary>`,
+    `      <itunes:duration>${formatItunesDuration(newsletter.duration)}</itunes:duration>`,
+    `      <itunes:image href="${escapeXml(newsletter.imageUrl)}"/>`,
+    '      <itunes:explicit>false</itunes:explicit>',
+    ...(newsletter.chapters?.length
+      ? [`      <podcast:chapters url="${escapeXml(chaptersUrl(newsletter, baseUrl, feedToken))}" type="${CHAPTERS_CONTENT_TYPE}"/>`]
+      : []),
+    '    </item>',
+  ].join('\n');
+}
+
+// Render an RSS 2.0 podcast feed of newsletters from the user's subscribed senders
+export async function buildPodcastFeed(user: User, baseUrl: string): Promise<string> {
+  const senderIds = await getSubscribedSenderIds(user.id);
+  const recent = await storage.getRecentNewsletters({ senderIds, viewerId: user.id, limit: FEED_ITEM_LIMIT });
+  // Skip newsletters whose audio is still being generated or has no known length,
+  // since podcast apps reject enclosures without one
+  const episodes = (
+    await Promise.all(recent.map(async (newsletter) => ({ newsletter, length: await audioLength(newsletter.audioUrl) })))
+  ).filter(({ length }) => length > 0);
+
+  const owner = user.name || user.username;
+  const title = `${owner}'s PodStack`;
+  const description = 'Your newsletters, read aloud by PodStack.';
+  const feedUrl = user.feedToken ? getFeedUrl(baseUrl, user.feedToken) : baseUrl;
+  const items = episodes.map(({ newsletter, length }) => renderItem(newsletter, length, baseUrl, user.feedToken));
+  const lastBuildDate = episodes.length > 0 ? new Date(episodes[0].newsletter.publishedAt) : new Date();
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:podcast="https://podcastindex.org/namespace/1.0">',
+    '  <channel>',
+    `    <title>${escapeXml(title)}</title>`,
+    `    <link>${escapeXml(baseUrl)}</link>`,
+    `    <atom:link href="${escapeXml(feedUrl)}" rel="self" type="application/rss+xml"/>`,
+    `    <description>${escapeXml(description)}</description>`,
+    '    <language>en-us</language>',
+    `    <lastBuildDate>${lastBuildDate.toUTCString()}</lastBuildDate>`,
+    '    <itunes:author>PodStack</itunes:author>',
+    `    <itunes:summary>${escapeXml(description)}</itunes:summary>`,
+    `    <itunes:image href="${escapeXml(FEED_IMAGE_URL)}"/>`,
+    '    <itunes:category text="News"/>',
+    '    <itunes:explicit>false</itunes:explicit>',
+    // The feed is private to this user, so keep it out of podcast directories
+    '    <itunes:block>Yes</itunes:block>',
+    ...items,
+    '  </channel>',
+    '</rss>',
+    '',
+  ].join('\n');
+}
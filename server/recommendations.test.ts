@@ -0,0 +1,112 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { InsertNewsletter, User } from '@shared/schema';
+
+type Storage = typeof import('./storage')['storage'];
+type Recommendations = typeof import('./recommendations');
+type Subscriptions = typeof import('./subscriptions');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('getRecommendations', () => {
+  let storage: Storage;
+  let getRecommendations: Recommendations['getRecommendations'];
+  let subscriptions: Subscriptions;
+  let user: User;
+  let categoryIds: { tech: number; health: number };
+
+  // Each test gets an empty in-memory storage
+  beforeEach(async () => {
+    vi.resetModules();
+    ({ storage } = await import('./storage'));
+    ({ getRecommendations } = await import('./recommendations'));
+    subscriptions = await import('./subscriptions');
+
+    user = await storage.createUser({ username: 'reader', email: 'reader@example.com', password: 'hashed' });
+    categoryIds = {
+      tech: (await storage.createCategory({ name: 'Technology', description: 'Tech news' })).id,
+      health: (await storage.createCategory({ name: 'Health', description: 'Health news' })).id,
+    };
+  });
+
+  function createNewsletter(title: string, data: Partial<InsertNewsletter> = {}) {
+    return storage.createNewsletter({
+      title,
+      publisher: 'Byte Sized',
+      description: '',
+      imageUrl: 'https://example.com/cover.png',
+      audioUrl: '/audio/episode.wav',
+      duration: 600,
+      categoryId: categoryIds.tech,
+      publishedAt: new Date(Date.now() - DAY_MS),
+      ...data,
+    });
+  }
+
+  const titles = (recommendations: { newsletter: { title: string } }[]) => recommendations.map(({ newsletter }) => newsletter.title);
+
+  it('ranks newer newsletters first when it knows nothing about the user', async () => {
+    await createNewsletter('Last week', { publishedAt: new Date(Date.now() - 7 * DAY_MS) });
+    await createNewsletter('Yesterday');
+
+    const recommendations = await getRecommendations(user.id, 10);
+
+    expect(titles(recommendations)).toEqual(['Yesterday', 'Last week']);
+    expect(recommendations.every(({ reason }) => reason === 'recent')).toBe(true);
+  });
+
+  it('favours publishers and categories the user saved or listened to, and leaves those out', async () => {
+    const saved = await createNewsletter('Saved', { publisher: 'Wellness Weekly', categoryId: categoryIds.health });
+    const finished = await createNewsletter('Finished', { publisher: 'Wellness Weekly', categoryId: categoryIds.health });
+    await createNewsletter('Newer tech');
+    await createNewsletter('Same publisher', {
+      publisher: 'Wellness Weekly',
+      categoryId: categoryIds.health,
+      publishedAt: new Date(Date.now() - 3 * DAY_MS),
+    });
+    await createNewsletter('Same category', {
+      publisher: 'Sleep Notes',
+      categoryId: categoryIds.health,
+      publishedAt: new Date(Date.now() - 3 * DAY_MS),
+    });
+    await storage.saveNewsletterForUser({ userId: user.id, newsletterId: saved.id });
+    await storage.saveListeningProgress({ userId: user.id, newsletterId: finished.id, position: 600, completed: true });
+
+    const recommendations = await getRecommendations(user.id, 10);
+
+    expect(titles(recommendations)).toEqual(['Same publisher', 'Same category', 'Newer tech']);
+    expect(recommendations.map(({ reason }) => reason)).toEqual(['publisher', 'category', 'recent']);
+  });
+
+  it('boosts subscribed senders and drops unsubscribed ones', async () => {
+    const followed = await storage.createNewsletterSender({ name: 'Followed', email: 'hi@followed.example', domain: 'followed.example' });
+    const dropped = await storage.createNewsletterSender({ name: 'Dropped', email: 'hi@dropped.example', domain: 'dropped.example' });
+    await subscriptions.subscribeToSenders(user.id, [followed.email, dropped.email]);
+    await subscriptions.unsubscribeFromSenders(user.id, [dropped.email]);
+
+    await createNewsletter('Newer', { publishedAt: new Date() });
+    await createNewsletter('From a subscription', { senderId: followed.id, publishedAt: new Date(Date.now() - 5 * DAY_MS) });
+    await createNewsletter('From an unsubscribed sender', { senderId: dropped.id });
+
+    const recommendations = await getRecommendations(user.id, 10);
+
+    expect(titles(recommendations)).toEqual(['From a subscription', 'Newer']);
+    expect(recommendations[0].reason).toBe('subscribed');
+  });
+
+  it("never recommends other users' private newsletters", async () => {
+    const other = await storage.createUser({ username: 'other', email: 'other@example.com', password: 'hashed' });
+    await createNewsletter('Mine', { ownerId: user.id });
+    await createNewsletter('Theirs', { ownerId: other.id });
+    await createNewsletter('Shared');
+
+    expect(titles(await getRecommendations(user.id, 10)).sort()).toEqual(['Mine', 'Shared']);
+  });
+
+  it('returns at most the requested number', async () => {
+    for (let i = 0; i < 5; i++) {
+      await createNewsletter(`Issue ${i}`);
+    }
+
+    expect(await getRecommendations(user.id, 3)).toHaveLength(3);
+  });
+});
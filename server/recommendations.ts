@@ -0,0 +1,120 @@
+import { storage } from './storage';
+import { getSubscribedSenderIds, getUnsubscribedSenderIds } from './subscriptions';
+import type { NewsletterSummary, Recommendation, RecommendationReason } from '@shared/schema';
+
+// For You ranks newsletters the user hasn't saved or listened to yet. Saves and
+// listens build up an affinity for categories and publishers, newsletters from
+// subscribed senders get a boost, and everything fades with age so new issues
+// come first when scores are otherwise close.
+
+// Recent newsletters that are considered for ranking
+const CANDIDATE_LIMIT = 200;
+// Newsletters from subscribed senders are always considered, even older ones
+const SUBSCRIBED_CANDIDATE_LIMIT = 50;
+
+// How much each kind of interaction says about what the user likes
+const SAVE_WEIGHT = 2;
+const COMPLETE_WEIGHT = 3;
+// Unfinished listens count by how much of the newsletter was played
+const LISTEN_WEIGHT = 1;
+
+// How much each signal adds to a newsletter's score
+const CATEGORY_WEIGHT = 1;
+const PUBLISHER_WEIGHT = 1.5;
+const SUBSCRIBED_WEIGHT = 2;
+// Editorial picks still help users we know nothing about yet
+const FEATURED_WEIGHT = 0.25;
+
+// Half-lives in days: newsletters lose half their score after two weeks, and
+// interactions lose half their weight after a month
+const NEWSLETTER_HALF_LIFE_DAYS = 14;
+const INTERACTION_HALF_LIFE_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function decay(date: Date, halfLifeDays: number, now: number): number {
+  const ageDays = Math.max(0, now - new Date(date).getTime()) / DAY_MS;
+  return Math.pow(0.5, ageDays / halfLifeDays);
+}
+
+// Adds weight for a key, then scales everything to 0..1 relative to the strongest key
+class Affinity {
+  private weights = new Map<string, number>();
+
+  add(key: string, weight: number) {
+    this.weights.set(key, (this.weights.get(key) || 0) + weight);
+  }
+
+  normalized(): Map<string, number> {
+    const max = Math.max(0, ...Array.from(this.weights.values()));
+    const normalized = new Map<string, number>();
+    if (max > 0) {
+      this.weights.forEach((weight, key) => normalized.set(key, weight / max));
+    }
+    return normalized;
+  }
+}
+
+export async function getRecommendations(userId: number, limit: number): Promise<Recommendation[]> {
+  const now = Date.now();
+  const [saved, history, subscribedSenderIds, unsubscribedSenderIds] = await Promise.all([
+    storage.getUserNewsletters(userId),
+    storage.getUserListeningHistory(userId),
+    getSubscribedSenderIds(userId),
+    getUnsubscribedSenderIds(userId),
+  ]);
+
+  const categories = new Affinity();
+  const publishers = new Affinity();
+  const seen = new Set<number>();
+  const addInteraction = (newsletter: NewsletterSummary, weight: number, at: Date) => {
+    const decayed = weight * decay(at, INTERACTION_HALF_LIFE_DAYS, now);
+    categories.add(String(newsletter.categoryId), decayed);
+    publishers.add(newsletter.publisher, decayed);
+    seen.add(newsletter.id);
+  };
+
+  for (const { newsletter, savedAt } of saved) {
+    addInteraction(newsletter, SAVE_WEIGHT, savedAt);
+  }
+  for (const { newsletter, progress } of history) {
+    const weight = progress.completed
+      ? COMPLETE_WEIGHT
+      : LISTEN_WEIGHT * Math.min(1, progress.position / Math.max(1, newsletter.duration));
+    addInteraction(newsletter, weight, progress.updatedAt);
+  }
+
+  const categoryAffinity = categories.normalized();
+  const publisherAffinity = publishers.normalized();
+  const subscribed = new Set(subscribedSenderIds);
+
+  const candidates = new Map<number, NewsletterSummary>();
+  const pools = await Promise.all([
+    storage.getRecentNewsletters({ viewerId: userId, excludeSenderIds: unsubscribedSenderIds, limit: CANDIDATE_LIMIT }),
+    storage.getRecentNewsletters({ viewerId: userId, senderIds: subscribedSenderIds, limit: SUBSCRIBED_CANDIDATE_LIMIT }),
+  ]);
+  for (const newsletter of pools.flat()) {
+    if (!seen.has(newsletter.id)) {
+      candidates.set(newsletter.id, newsletter);
+    }
+  }
+
+  return Array.from(candidates.values())
+    .map((newsletter): Recommendation => {
+      const signals: [RecommendationReason, number][] = [
+        ['subscribed', newsletter.senderId !== null && subscribed.has(newsletter.senderId) ? SUBSCRIBED_WEIGHT : 0],
+        ['publisher', PUBLISHER_WEIGHT * (publisherAffinity.get(newsletter.publisher) || 0)],
+        ['category', CATEGORY_WEIGHT * (categoryAffinity.get(String(newsletter.categoryId)) || 0)],
+      ];
+      const [strongest, strongestWeight] = signals.reduce((best, signal) => (signal[1] > best[1] ? signal : best));
+      const boost = signals.reduce((total, [, weight]) => total + weight, 0) + (newsletter.featured ? FEATURED_WEIGHT : 0);
+
+      return {
+        newsletter,
+        score: (1 + boost) * decay(newsletter.publishedAt, NEWSLETTER_HALF_LIFE_DAYS, now),
+        reason: strongestWeight > 0 ? strongest : 'recent',
+      };
+    })
+    .sort((a, b) => b.score - a.score || b.newsletter.id - a.newsletter.id)
+    .slice(0, limit);
+}
@@ -1,17 +1,131 @@
-import type { Express } from "express";
+import express, { type Express, type Request, type Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, isNewsletterVisibleTo, toNewsletterSummary, type QueryOptions, type VisibilityOptions } from "./storage";
 import { setupAuthRoutes } from "./auth";
 import { z } from "zod";
-import { insertCategorySchema, insertNewsletterSchema, insertUserNewsletterSchema } from "@shared/schema";
+import { insertCategorySchema, insertNewsletterSchema, insertUserNewsletterSchema, insertPlaylistSchema, newsletterSorts, newsletterFeedScopes, listeningEventTypes, type Newsletter, type NewsletterSummary, type Playlist, type PlaylistWithNewsletters } from "@shared/schema";
 import { getAuthUrl, handleGoogleCallback, fetchGmailEmails } from "./googleAuth";
-import { authMiddleware, googleAuthMiddleware } from "./middleware";
-import { EmailService } from "./emailService";
+import { authMiddleware, googleAuthMiddleware, optionalAuthMiddleware } from "./middleware";
+import { enqueueIngestion, enqueueSenderDiscovery, scheduleFeedRefresh } from "./jobHandlers";
+import { resetMailboxSync } from "./gmailSync";
+import { AUDIO_DIR, AUDIO_URL_PREFIX } from "./audioGeneration";
+import { buildPodcastFeed, getFeedUrl, getOrCreateFeedToken, rotateFeedToken } from "./podcastFeed";
+import { getNewsletterTranscript } from "./newsletterIngestion";
+import { buildChaptersJson, CHAPTERS_CONTENT_TYPE } from "./chapters";
+import { overrideNewsletterCategory } from "./categoryClassifier";
+import { decodeCursor, toPage, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from "./pagination";
+import { searchNewsletters } from "./search";
+import { getNewArrivals, getPublisherDetail, getTrendingPublishers } from "./discover";
+import { getSubscribedSenderIds, getUnsubscribedSenderIds, subscribeToSenders, unsubscribeFromSenders } from "./subscriptions";
+import { getListeningStats } from "./listeningStats";
+import { getRecommendations } from "./recommendations";
+
+const newsletterPageQuerySchema = z.object({
+  search: z.string().optional(),
+  sort: z.enum(newsletterSorts).default("newest"),
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+  cursor: z.string().optional(),
+});
+
+const feedScopeSchema = z.enum(newsletterFeedScopes).default("subscribed");
+
+const listeningHistoryQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+  before: z.coerce.number().int().optional(),
+});
+
+const forYouQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+});
+
+const searchQuerySchema = z.object({
+  q: z.string().trim().min(1),
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+});
+
+// Job ids are Postgres serials; parseInt would read "12abc" as job 12
+const jobIdSchema = z.string().regex(/^\d+$/).transform(Number).pipe(z.number().int().positive().max(2147483647));
+
+// Look up a playlist only if it belongs to the given user
+async function getOwnedPlaylist(userId: number, playlistId: number): Promise<Playlist | undefined> {
+  const playlist = await storage.getPlaylistById(playlistId);
+  return playlist?.userId === userId ? playlist : undefined;
+}
+
+// Lists show shared newsletters plus the signed-in user's own, leaving out
+// senders the user unsubscribed from
+async function getVisibility(user?: { id: number }): Promise<VisibilityOptions> {
+  return user ? { viewerId: user.id, excludeSenderIds: await getUnsubscribedSenderIds(user.id) } : {};
+}
+
+// The transcript carries the original email, personal links and all, so it goes
+// to the user whose mailbox the newsletter came from, or to a subscriber of its
+// sender. Newsletters with neither owner nor sender are shared content.
+async function canReadTranscript(newsletter: Newsletter, userId: number): Promise<boolean> {
+  if (newsletter.ownerId !== null) {
+    return newsletter.ownerId === userId;
+  }
+  return newsletter.senderId === null || (await getSubscribedSenderIds(userId)).includes(newsletter.senderId);
+}
+
+// Absolute URLs in feeds use HOST when set, otherwise the host the request came in on
+function getBaseUrl(req: Request): string {
+  return (process.env.HOST || `${req.protocol}://${req.get("host")}`).replace(/\/+$/, "");
+}
+
+// Serve one page of a newsletter list. The category filter comes in as
+// `categoryParam`, and storage is asked for one extra row to find the next cursor.
+async function sendNewsletterPage(
+  req: Request,
+  res: Response,
+  categoryParam: string,
+  query: (options: QueryOptions) => Promise<NewsletterSummary[]>
+) {
+  const parseResult = newsletterPageQuerySchema.safeParse(req.query);
+  if (!parseResult.success) {
+    return res.status(400).json({ message: "Invalid query parameters", errors: parseResult.error.errors });
+  }
+
+  const { search, sort, limit, cursor } = parseResult.data;
+  const decodedCursor = cursor ? decodeCursor(cursor) : undefined;
+  if (decodedCursor === null) {
+    return res.status(400).json({ message: "Invalid cursor" });
+  }
+
+  const categoryId = req.query[categoryParam] ? parseInt(req.query[categoryParam] as string) : undefined;
+  const rows = await query({
+    categoryId: Number.isNaN(categoryId) ? undefined : categoryId,
+    search,
+    sort,
+    cursor: decodedCursor,
+    limit: limit + 1,
+  });
+  res.json(toPage(rows, limit));
+}
+
+async function withNewsletters(playlist: Playlist): Promise<PlaylistWithNewsletters> {
+  const newsletters = await storage.getPlaylistNewsletters(playlist.id);
+  return { ...playlist, newsletters };
+}
+
+// Changing a playlist's newsletters bumps its updatedAt, so read it again for the response
+async function reloadWithNewsletters(playlist: Playlist): Promise<PlaylistWithNewsletters> {
+  return withNewsletters((await storage.getPlaylistById(playlist.id)) ?? playlist);
+}
+
+// Look up a newsletter only if the given user (or anyone, without one) may see it
+async function getVisibleNewsletter(id: number, userId?: number): Promise<Newsletter | undefined> {
+  const newsletter = await storage.getNewsletterById(id);
+  return newsletter && isNewsletterVisibleTo(newsletter, userId) ? newsletter : undefined;
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth routes
   setupAuthRoutes(app);
 
+  // Generated newsletter audio
+  app.use(AUDIO_URL_PREFIX, express.static(AUDIO_DIR));
+
   // Google OAuth routes
   app.get("/api/auth/google/authorize", (_req, res) => {
     const authUrl = getAuthUrl();
@@ -35,38 +149,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Newsletter Sender routes
-  app.get("/api/newsletter-senders", authMiddleware, googleAuthMiddleware, async (req: any, res) => {
-    try {
-      const emailService = new EmailService(req.googleToken.accessToken);
-      const authors = await emailService.getNewsletterAuthors(100);
-
-      // Store these authors in the database
-      const senders = [];
-      for (const [name, email] of authors) {
-        const domain = email.split('@')[1];
-        // Check if sender already exists
-        let sender = await storage.getNewsletterSenderByEmail(email);
-        if (!sender) {
-          sender = await storage.createNewsletterSender({
-            name,
-            email,
-            domain,
-            emailCount: 1 // This would be calculated from actual emails
-          });
-        } else {
-          // Increment email count (mock implementation)
-          sender = await storage.createNewsletterSender({ // Using create for simplicity in MemStorage
-            ...sender,
-            emailCount: sender.emailCount + 1
-          });
-        }
-        senders.push(sender);
-      }
-
-      res.json(senders);
+  // Scanning the inbox takes a while, so it runs as a job; poll /api/jobs/:id for the senders
+  app.post("/api/newsletter-senders/discover", authMiddleware, googleAuthMiddleware, async (req: any, res) => {
+    try {
+      const job = await enqueueSenderDiscovery(req.user.id);
+      res.status(202).json(job);
     } catch (error) {
-      console.error("Error fetching newsletter senders:", error);
-      res.status(500).json({ message: "Failed to fetch newsletter senders" });
+      res.status(500).json({ message: "Failed to start newsletter sender discovery" });
     }
   });
 
@@ -79,27 +168,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid data format" });
       }
 
-      const subscriptions = [];
-      for (const email of senderEmails) {
-        // Check if subscription already exists
-        let subscription = await storage.getUserNewsletterSender(req.user.id, email);
-        if (!subscription) {
-          subscription = await storage.saveUserNewsletterSender({
-            userId: req.user.id,
-            senderEmail: email,
-            subscribed: true
-          });
-        } else {
-          // Update existing subscription
-          subscription = await storage.updateUserNewsletterSender(
-            req.user.id,
-            email,
-            true // Ensure subscribed is true
-          );
-        }
-        subscriptions.push(subscription);
-      }
-
+      const subscriptions = await subscribeToSenders(req.user.id, senderEmails);
       res.status(201).json(subscriptions);
     } catch (error) {
       res.status(500).json({ message: "Failed to subscribe to newsletter senders" });
@@ -116,6 +185,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid data format" });
       }
 
+      const previous = await storage.getUserNewsletterSender(req.user.id, email);
       const subscription = await storage.updateUserNewsletterSender(
         req.user.id,
         email,
@@ -126,12 +196,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Subscription not found" });
       }
 
+      if (subscribed && !previous?.subscribed) {
+        await resetMailboxSync(req.user.id, "newsletters");
+      }
+
       res.json(subscription);
     } catch (error) {
       res.status(500).json({ message: "Failed to update subscription" });
     }
   });
 
+  // Import emails from subscribed senders as newsletters
+  app.post("/api/newsletters/ingest", authMiddleware, googleAuthMiddleware, async (req: any, res) => {
+    try {
+      const maxResults = req.body?.maxResults ? parseInt(req.body.maxResults) : undefined;
+      const job = await enqueueIngestion(req.user.id, maxResults);
+      // Keep checking for new mail in the background from now on
+      await scheduleFeedRefresh(req.user.id);
+      res.status(202).json(job);
+    } catch (error) {
+      console.error("Error ingesting newsletters:", error);
+      res.status(500).json({ message: "Failed to start newsletter ingestion" });
+    }
+  });
+
+  // Background job status, only visible to the user who started the job
+  app.get("/api/jobs/:id", authMiddleware, async (req: any, res) => {
+    try {
+      const parseResult = jobIdSchema.safeParse(req.params.id);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Invalid job ID" });
+      }
+
+      const job = await storage.getJobById(parseResult.data);
+      if (!job || job.userId !== req.user.id) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      res.json(job);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch job" });
+    }
+  });
+
   // Get user's newsletter sender subscriptions
   app.get("/api/user/newsletter-senders", authMiddleware, async (req: any, res) => {
     try {
@@ -187,64 +294,243 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Newsletters
-  app.get("/api/newsletters/featured", async (req, res) => {
+  // Search
+  app.get("/api/search", optionalAuthMiddleware, async (req: any, res) => {
+    try {
+      const parseResult = searchQuerySchema.safeParse(req.query);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Invalid search query", errors: parseResult.error.errors });
+      }
+
+      const results = await searchNewsletters(parseResult.data.q, parseResult.data.limit, await getVisibility(req.user));
+      res.json(results);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to search newsletters" });
+    }
+  });
+
+  // Discover
+  app.get("/api/publishers", optionalAuthMiddleware, async (req: any, res) => {
+    try {
+      const publishers = await storage.getPublishers(await getVisibility(req.user));
+      res.json(publishers);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch publishers" });
+    }
+  });
+
+  app.get("/api/publishers/trending", optionalAuthMiddleware, async (req: any, res) => {
+    try {
+      const publishers = await getTrendingPublishers(await getVisibility(req.user));
+      res.json(publishers);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch trending publishers" });
+    }
+  });
+
+  app.get("/api/publishers/:publisher", optionalAuthMiddleware, async (req: any, res) => {
+    try {
+      const publisher = await getPublisherDetail(req.params.publisher, await getVisibility(req.user));
+      if (!publisher) {
+        return res.status(404).json({ message: "Publisher not found" });
+      }
+
+      res.json(publisher);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch publisher" });
+    }
+  });
+
+  // Following a publisher subscribes to every address its newsletters came from
+  app.post("/api/publishers/:publisher/follow", authMiddleware, async (req: any, res) => {
+    try {
+      const publisher = await storage.getPublisher(req.params.publisher, { viewerId: req.user.id });
+      if (!publisher) {
+        return res.status(404).json({ message: "Publisher not found" });
+      }
+      if (publisher.senderEmails.length === 0) {
+        return res.status(400).json({ message: "Publisher has no sender to follow" });
+      }
+
+      const subscriptions = await subscribeToSenders(req.user.id, publisher.senderEmails);
+      res.status(201).json(subscriptions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to follow publisher" });
+    }
+  });
+
+  app.delete("/api/publishers/:publisher/follow", authMiddleware, async (req: any, res) => {
     try {
-      const categoryId = req.query.category ? parseInt(req.query.category as string) : undefined;
-      const search = req.query.search as string | undefined;
+      const publisher = await storage.getPublisher(req.params.publisher, { viewerId: req.user.id });
+      if (!publisher) {
+        return res.status(404).json({ message: "Publisher not found" });
+      }
+
+      await unsubscribeFromSenders(req.user.id, publisher.senderEmails);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to unfollow publisher" });
+    }
+  });
 
-      const newsletters = await storage.getFeaturedNewsletters({ categoryId, search });
-      res.json(newsletters);
+  app.get("/api/discover/new-arrivals", optionalAuthMiddleware, async (req: any, res) => {
+    try {
+      const arrivals = await getNewArrivals(await getVisibility(req.user));
+      res.json(arrivals);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch new arrivals" });
+    }
+  });
+
+  // Newsletters
+  app.get("/api/newsletters/featured", optionalAuthMiddleware, async (req: any, res) => {
+    try {
+      const visibility = await getVisibility(req.user);
+      await sendNewsletterPage(req, res, "category", (options) => storage.getFeaturedNewsletters({ ...options, ...visibility }));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch featured newsletters" });
     }
   });
 
-  app.get("/api/newsletters/recent", async (req, res) => {
+  app.get("/api/newsletters/recent", optionalAuthMiddleware, async (req: any, res) => {
     try {
-      const categoryId = req.query.category ? parseInt(req.query.category as string) : undefined;
-      const search = req.query.search as string | undefined;
+      const scopeResult = feedScopeSchema.safeParse(req.query.scope);
+      if (!scopeResult.success) {
+        return res.status(400).json({ message: "Invalid feed scope" });
+      }
 
-      const newsletters = await storage.getRecentNewsletters({ categoryId, search });
-      res.json(newsletters);
+      // Signed-in users see their subscribed senders unless they ask for everything
+      const senderIds = req.user && scopeResult.data === "subscribed"
+        ? await getSubscribedSenderIds(req.user.id)
+        : undefined;
+      const visibility = await getVisibility(req.user);
+      await sendNewsletterPage(req, res, "category", (options) =>
+        storage.getRecentNewsletters({ ...options, ...visibility, senderIds })
+      );
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch recent newsletters" });
     }
   });
 
-  app.get("/api/newsletters/by-category", async (req, res) => {
+  app.get("/api/newsletters/by-category", optionalAuthMiddleware, async (req: any, res) => {
     try {
-      const categoryId = req.query.categoryId ? parseInt(req.query.categoryId as string) : undefined;
-      const search = req.query.search as string | undefined;
-
-      const newsletters = await storage.getNewslettersByCategory({ categoryId, search });
-      res.json(newsletters);
+      const visibility = await getVisibility(req.user);
+      await sendNewsletterPage(req, res, "categoryId", (options) => storage.getNewslettersByCategory({ ...options, ...visibility }));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch newsletters by category" });
     }
   });
 
-  app.get("/api/newsletters/:id", async (req, res) => {
+  app.get("/api/newsletters/for-you", authMiddleware, async (req: any, res) => {
+    try {
+      const parseResult = forYouQuerySchema.safeParse(req.query);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Invalid query parameters", errors: parseResult.error.errors });
+      }
+
+      const recommendations = await getRecommendations(req.user.id, parseResult.data.limit);
+      res.json(recommendations);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch recommendations" });
+    }
+  });
+
+  app.get("/api/newsletters/:id", optionalAuthMiddleware, async (req: any, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
         return res.status(400).json({ message: "Invalid newsletter ID" });
       }
 
-      const newsletter = await storage.getNewsletterById(id);
+      const newsletter = await getVisibleNewsletter(id, req.user?.id);
       if (!newsletter) {
         return res.status(404).json({ message: "Newsletter not found" });
       }
 
-      res.json(newsletter);
+      // The body goes through the transcript endpoint, which checks who may read it
+      res.json(toNewsletterSummary(newsletter));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch newsletter" });
     }
   });
 
+  app.get("/api/newsletters/:id/transcript", authMiddleware, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid newsletter ID" });
+      }
+
+      const newsletter = await storage.getNewsletterById(id);
+      if (!newsletter || !(await canReadTranscript(newsletter, req.user.id))) {
+        return res.status(404).json({ message: "Newsletter not found" });
+      }
+
+      res.json(getNewsletterTranscript(newsletter));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch transcript" });
+    }
+  });
+
+  // Correct the category the classifier picked; the classifier learns from it.
+  // Only the owner of an ingested newsletter can, as shared ones are everyone's.
+  app.put("/api/newsletters/:id/category", authMiddleware, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid newsletter ID" });
+      }
+
+      const parseResult = z.object({ categoryId: z.number() }).safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Invalid category data", errors: parseResult.error.errors });
+      }
+
+      const newsletter = await getVisibleNewsletter(id, req.user.id);
+      if (!newsletter) {
+        return res.status(404).json({ message: "Newsletter not found" });
+      }
+      if (newsletter.ownerId !== req.user.id) {
+        return res.status(403).json({ message: "Only the newsletter's owner can change its category" });
+      }
+
+      const category = await storage.getCategoryById(parseResult.data.categoryId);
+      if (!category) {
+        return res.status(404).json({ message: "Category not found" });
+      }
+
+      const updated = await overrideNewsletterCategory(req.user.id, newsletter, category.id);
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update newsletter category" });
+    }
+  });
+
+  // Podcasting 2.0 chapters file, linked from the podcast feed. Podcast apps
+  // can't sign in, so the feed token identifies the user instead.
+  app.get("/api/newsletters/:id/chapters", optionalAuthMiddleware, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid newsletter ID" });
+      }
+
+      const feedUser = typeof req.query.token === "string" ? await storage.getUserByFeedToken(req.query.token) : undefined;
+      const newsletter = await getVisibleNewsletter(id, req.user?.id ?? feedUser?.id);
+      if (!newsletter) {
+        return res.status(404).json({ message: "Newsletter not found" });
+      }
+
+      res.type(CHAPTERS_CONTENT_TYPE).send(JSON.stringify(buildChaptersJson(newsletter)));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch chapters" });
+    }
+  });
+
   app.post("/api/newsletters", async (req, res) => {
     try {
-      const parseResult = insertNewsletterSchema.safeParse(req.body);
+      // Newsletters added here are shared; only ingestion creates ones owned by a user
+      const parseResult = insertNewsletterSchema.omit({ ownerId: true }).safeParse(req.body);
       if (!parseResult.success) {
         return res.status(400).json({ message: "Invalid newsletter data", errors: parseResult.error.errors });
       }
@@ -276,7 +562,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { newsletterId } = parseResult.data;
       
       // Check if newsletter exists
-      const newsletter = await storage.getNewsletterById(newsletterId);
+      const newsletter = await getVisibleNewsletter(newsletterId, req.user.id);
       if (!newsletter) {
         return res.status(404).json({ message: "Newsletter not found" });
       }
@@ -319,6 +605,476 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Remove several saved newsletters at once; ids that aren't saved are ignored
+  app.delete("/api/user/newsletters", authMiddleware, async (req: any, res) => {
+    try {
+      const parseResult = z.object({ newsletterIds: z.array(z.number()).min(1) }).safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Invalid data", errors: parseResult.error.errors });
+      }
+
+      for (const newsletterId of parseResult.data.newsletterIds) {
+        await storage.removeNewsletterForUser(req.user.id, newsletterId);
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to remove newsletters" });
+    }
+  });
+
+  // Listening progress
+  app.get("/api/user/progress", authMiddleware, async (req: any, res) => {
+    try {
+      const progress = await storage.getUserListeningProgress(req.user.id);
+      res.json(progress);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch listening progress" });
+    }
+  });
+
+  // Clear the progress of several newsletters, taking them out of the library's listening tabs
+  app.delete("/api/user/progress", authMiddleware, async (req: any, res) => {
+    try {
+      const parseResult = z.object({ newsletterIds: z.array(z.number()).min(1) }).safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Invalid data", errors: parseResult.error.errors });
+      }
+
+      for (const newsletterId of parseResult.data.newsletterIds) {
+        await storage.deleteListeningProgress(req.user.id, newsletterId);
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to clear listening progress" });
+    }
+  });
+
+  // Newsletters the user has started, with their progress, most recently played first
+  app.get("/api/user/listening", authMiddleware, async (req: any, res) => {
+    try {
+      const history = await storage.getUserListeningHistory(req.user.id);
+      res.json(history);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch listening history" });
+    }
+  });
+
+  app.get("/api/user/progress/:newsletterId", authMiddleware, async (req: any, res) => {
+    try {
+      const newsletterId = parseInt(req.params.newsletterId);
+      if (isNaN(newsletterId)) {
+        return res.status(400).json({ message: "Invalid newsletter ID" });
+      }
+
+      const progress = await storage.getListeningProgress(req.user.id, newsletterId);
+      if (!progress) {
+        return res.status(404).json({ message: "Progress not found" });
+      }
+
+      res.json(progress);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch listening progress" });
+    }
+  });
+
+  app.put("/api/user/progress/:newsletterId", authMiddleware, async (req: any, res) => {
+    try {
+      const newsletterId = parseInt(req.params.newsletterId);
+      if (isNaN(newsletterId)) {
+        return res.status(400).json({ message: "Invalid newsletter ID" });
+      }
+
+      const parseResult = z.object({
+        position: z.number().min(0),
+        completed: z.boolean().optional(),
+      }).safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Invalid data", errors: parseResult.error.errors });
+      }
+
+      const newsletter = await getVisibleNewsletter(newsletterId, req.user.id);
+      if (!newsletter) {
+        return res.status(404).json({ message: "Newsletter not found" });
+      }
+
+      const progress = await storage.saveListeningProgress({
+        userId: req.user.id,
+        newsletterId,
+        position: Math.round(parseResult.data.position),
+        completed: parseResult.data.completed ?? false,
+      });
+      res.json(progress);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to save listening progress" });
+    }
+  });
+
+  // Listening history
+  app.post("/api/user/history", authMiddleware, async (req: any, res) => {
+    try {
+      const parseResult = z.object({
+        newsletterId: z.number().int(),
+        type: z.enum(listeningEventTypes),
+        position: z.number().min(0),
+        fromPosition: z.number().min(0).optional(),
+      }).safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Invalid listening event data", errors: parseResult.error.errors });
+      }
+
+      const { newsletterId, type, position, fromPosition } = parseResult.data;
+      const newsletter = await getVisibleNewsletter(newsletterId, req.user.id);
+      if (!newsletter) {
+        return res.status(404).json({ message: "Newsletter not found" });
+      }
+
+      const event = await storage.createListeningEvent({
+        userId: req.user.id,
+        newsletterId,
+        type,
+        position: Math.round(position),
+        fromPosition: fromPosition === undefined ? null : Math.round(fromPosition),
+      });
+      res.status(201).json(event);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to record listening event" });
+    }
+  });
+
+  app.get("/api/user/history", authMiddleware, async (req: any, res) => {
+    try {
+      const parseResult = listeningHistoryQuerySchema.safeParse(req.query);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Invalid query parameters", errors: parseResult.error.errors });
+      }
+
+      const { limit, before } = parseResult.data;
+      const history = await storage.getListeningHistory(req.user.id, limit, before);
+      res.json(history);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch listening history" });
+    }
+  });
+
+  app.get("/api/user/stats", authMiddleware, async (req: any, res) => {
+    try {
+      // Minutes behind UTC, as the browser reports it, so days follow the listener's clock
+      const parseResult = z.coerce.number().int().min(-840).max(840).default(0).safeParse(req.query.timezoneOffset);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Invalid time zone offset" });
+      }
+
+      const stats = await getListeningStats(req.user.id, parseResult.data);
+      res.json(stats);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch listening stats" });
+    }
+  });
+
+  // Play queue
+  app.get("/api/user/queue", authMiddleware, async (req: any, res) => {
+    try {
+      const queue = await storage.getPlayQueue(req.user.id);
+      res.json(queue);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch play queue" });
+    }
+  });
+
+  // Replace the queue, e.g. after reordering
+  app.put("/api/user/queue", authMiddleware, async (req: any, res) => {
+    try {
+      const parseResult = z.object({ newsletterIds: z.array(z.number()) }).safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Invalid data", errors: parseResult.error.errors });
+      }
+
+      const { newsletterIds } = parseResult.data;
+      for (const newsletterId of newsletterIds) {
+        if (!(await getVisibleNewsletter(newsletterId, req.user.id))) {
+          return res.status(404).json({ message: `Newsletter not found: ${newsletterId}` });
+        }
+      }
+
+      const queue = await storage.setPlayQueue(req.user.id, newsletterIds);
+      res.json(queue);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update play queue" });
+    }
+  });
+
+  // Add a newsletter to the front ("play next") or the end of the queue
+  app.post("/api/user/queue", authMiddleware, async (req: any, res) => {
+    try {
+      const parseResult = z.object({
+        newsletterId: z.number(),
+        next: z.boolean().optional(),
+      }).safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Invalid data", errors: parseResult.error.errors });
+      }
+
+      const { newsletterId, next } = parseResult.data;
+      const newsletter = await getVisibleNewsletter(newsletterId, req.user.id);
+      if (!newsletter) {
+        return res.status(404).json({ message: "Newsletter not found" });
+      }
+
+      const current = await storage.getPlayQueue(req.user.id);
+      const remaining = current.map((n) => n.id).filter((id) => id !== newsletterId);
+      const newsletterIds = next ? [newsletterId, ...remaining] : [...remaining, newsletterId];
+
+      const queue = await storage.setPlayQueue(req.user.id, newsletterIds);
+      res.status(201).json(queue);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to add to play queue" });
+    }
+  });
+
+  app.delete("/api/user/queue/:newsletterId", authMiddleware, async (req: any, res) => {
+    try {
+      const newsletterId = parseInt(req.params.newsletterId);
+      if (isNaN(newsletterId)) {
+        return res.status(400).json({ message: "Invalid newsletter ID" });
+      }
+
+      const current = await storage.getPlayQueue(req.user.id);
+      if (!current.some((n) => n.id === newsletterId)) {
+        return res.status(404).json({ message: "Newsletter not in queue" });
+      }
+
+      const queue = await storage.setPlayQueue(
+        req.user.id,
+        current.map((n) => n.id).filter((id) => id !== newsletterId)
+      );
+      res.json(queue);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to remove from play queue" });
+    }
+  });
+
+  app.delete("/api/user/queue", authMiddleware, async (req: any, res) => {
+    try {
+      await storage.setPlayQueue(req.user.id, []);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to clear play queue" });
+    }
+  });
+
+  // Named playlists
+  const playlistDataSchema = insertPlaylistSchema.pick({ name: true, description: true }).extend({
+    name: z.string().trim().min(1),
+  });
+
+  app.get("/api/user/playlists", authMiddleware, async (req: any, res) => {
+    try {
+      const playlists = await storage.getUserPlaylists(req.user.id);
+      res.json(await Promise.all(playlists.map(withNewsletters)));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch playlists" });
+    }
+  });
+
+  app.post("/api/user/playlists", authMiddleware, async (req: any, res) => {
+    try {
+      const parseResult = playlistDataSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Invalid playlist data", errors: parseResult.error.errors });
+      }
+
+      const playlist = await storage.createPlaylist({ ...parseResult.data, userId: req.user.id });
+      res.status(201).json(await withNewsletters(playlist));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create playlist" });
+    }
+  });
+
+  app.get("/api/user/playlists/:id", authMiddleware, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid playlist ID" });
+      }
+
+      const playlist = await getOwnedPlaylist(req.user.id, id);
+      if (!playlist) {
+        return res.status(404).json({ message: "Playlist not found" });
+      }
+
+      res.json(await withNewsletters(playlist));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch playlist" });
+    }
+  });
+
+  app.put("/api/user/playlists/:id", authMiddleware, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid playlist ID" });
+      }
+
+      const parseResult = playlistDataSchema.partial().safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Invalid playlist data", errors: parseResult.error.errors });
+      }
+
+      if (!(await getOwnedPlaylist(req.user.id, id))) {
+        return res.status(404).json({ message: "Playlist not found" });
+      }
+
+      const playlist = await storage.updatePlaylist(id, parseResult.data);
+      res.json(await withNewsletters(playlist!));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update playlist" });
+    }
+  });
+
+  app.delete("/api/user/playlists/:id", authMiddleware, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid playlist ID" });
+      }
+
+      if (!(await getOwnedPlaylist(req.user.id, id))) {
+        return res.status(404).json({ message: "Playlist not found" });
+      }
+
+      await storage.deletePlaylist(id);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete playlist" });
+    }
+  });
+
+  // Add a newsletter to the end of a playlist
+  app.post("/api/user/playlists/:id/newsletters", authMiddleware, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid playlist ID" });
+      }
+
+      const parseResult = z.object({ newsletterId: z.number() }).safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Invalid data", errors: parseResult.error.errors });
+      }
+
+      const playlist = await getOwnedPlaylist(req.user.id, id);
+      if (!playlist) {
+        return res.status(404).json({ message: "Playlist not found" });
+      }
+
+      const { newsletterId } = parseResult.data;
+      if (!(await getVisibleNewsletter(newsletterId, req.user.id))) {
+        return res.status(404).json({ message: "Newsletter not found" });
+      }
+
+      const current = await storage.getPlaylistNewsletters(id);
+      if (current.some((n) => n.id === newsletterId)) {
+        return res.status(409).json({ message: "Newsletter already in playlist" });
+      }
+
+      await storage.setPlaylistNewsletters(id, [...current.map((n) => n.id), newsletterId]);
+      res.status(201).json(await reloadWithNewsletters(playlist));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to add newsletter to playlist" });
+    }
+  });
+
+  // Replace the playlist's newsletters, e.g. after reordering
+  app.put("/api/user/playlists/:id/newsletters", authMiddleware, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid playlist ID" });
+      }
+
+      const parseResult = z.object({ newsletterIds: z.array(z.number()) }).safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Invalid data", errors: parseResult.error.errors });
+      }
+
+      const playlist = await getOwnedPlaylist(req.user.id, id);
+      if (!playlist) {
+        return res.status(404).json({ message: "Playlist not found" });
+      }
+
+      const { newsletterIds } = parseResult.data;
+      for (const newsletterId of newsletterIds) {
+        if (!(await getVisibleNewsletter(newsletterId, req.user.id))) {
+          return res.status(404).json({ message: `Newsletter not found: ${newsletterId}` });
+        }
+      }
+
+      await storage.setPlaylistNewsletters(id, newsletterIds);
+      res.json(await reloadWithNewsletters(playlist));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update playlist" });
+    }
+  });
+
+  app.delete("/api/user/playlists/:id/newsletters/:newsletterId", authMiddleware, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const newsletterId = parseInt(req.params.newsletterId);
+      if (isNaN(id) || isNaN(newsletterId)) {
+        return res.status(400).json({ message: "Invalid playlist or newsletter ID" });
+      }
+
+      const playlist = await getOwnedPlaylist(req.user.id, id);
+      if (!playlist) {
+        return res.status(404).json({ message: "Playlist not found" });
+      }
+
+      const current = await storage.getPlaylistNewsletters(id);
+      if (!current.some((n) => n.id === newsletterId)) {
+        return res.status(404).json({ message: "Newsletter not in playlist" });
+      }
+
+      await storage.setPlaylistNewsletters(id, current.map((n) => n.id).filter((nid) => nid !== newsletterId));
+      res.json(await reloadWithNewsletters(playlist));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to remove newsletter from playlist" });
+    }
+  });
+
+  // Private podcast feed
+  app.get("/api/user/feed", authMiddleware, async (req: any, res) => {
+    try {
+      const feedToken = await getOrCreateFeedToken(req.user);
+      res.json({ url: getFeedUrl(getBaseUrl(req), feedToken) });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch podcast feed" });
+    }
+  });
+
+  app.post("/api/user/feed/rotate", authMiddleware, async (req: any, res) => {
+    try {
+      const feedToken = await rotateFeedToken(req.user.id);
+      res.json({ url: getFeedUrl(getBaseUrl(req), feedToken) });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to reset podcast feed" });
+    }
+  });
+
+  // Podcast apps can't send auth headers, so the token in the URL identifies the user
+  app.get("/feeds/:token.xml", async (req, res) => {
+    try {
+      const user = await storage.getUserByFeedToken(req.params.token);
+      if (!user) {
+        return res.status(404).type("text/plain").send("Feed not found");
+      }
+
+      const feed = await buildPodcastFeed(user, getBaseUrl(req));
+      res.type("application/rss+xml; charset=utf-8").send(feed);
+    } catch (error) {
+      res.status(500).type("text/plain").send("Failed to build podcast feed");
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
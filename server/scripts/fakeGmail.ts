@@ -0,0 +1,11 @@
+import { createFakeGmailApp, FakeMailbox, DEFAULT_FIXTURES_DIR } from "../fakeGmail";
+
+const port = Number(process.env.FAKE_GMAIL_PORT) || 5055;
+const fixturesDir = process.env.FAKE_GMAIL_FIXTURES || DEFAULT_FIXTURES_DIR;
+
+const mailbox = new FakeMailbox(fixturesDir);
+
+createFakeGmailApp(mailbox).listen(port, () => {
+  console.log(`Fake Gmail serving ${mailbox.size} messages from ${fixturesDir}`);
+  console.log(`Start the app with GOOGLE_API_BASE_URL=http://localhost:${port}`);
+});
@@ -0,0 +1,16 @@
+import { connection } from "../db";
+import { runMigrations } from "../migrate";
+
+(async () => {
+  if (!connection) {
+    console.error("DATABASE_URL must be set to run migrations");
+    process.exit(1);
+  }
+
+  try {
+    await runMigrations(connection.db);
+    console.log("Migrations applied");
+  } finally {
+    await connection.pool.end();
+  }
+})();
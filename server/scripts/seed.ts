@@ -0,0 +1,17 @@
+import { connection } from "../db";
+import { storage } from "../storage";
+import { seedDatabase } from "../seed";
+
+(async () => {
+  if (!connection) {
+    console.error("DATABASE_URL must be set to seed the database");
+    process.exit(1);
+  }
+
+  try {
+    const created = await seedDatabase(storage);
+    console.log(`Seeded ${created.categories} categories and ${created.newsletters} newsletters`);
+  } finally {
+    await connection.pool.end();
+  }
+})();
@@ -0,0 +1,55 @@
+import { storage, type VisibilityOptions } from './storage';
+import { findWords, isEmptySearchQuery, normalizeTerm, parseSearchQuery, type ParsedSearchQuery } from './searchQuery';
+import type { SearchResult, SearchSnippet } from '@shared/schema';
+
+// Characters of body text shown per result, and how many of them come before the first match
+const SNIPPET_LENGTH = 200;
+const SNIPPET_CONTEXT = 60;
+const ELLIPSIS = '…';
+
+function matcher(query: ParsedSearchQuery): (word: string) => boolean {
+  const terms = new Set([...query.terms, ...query.phrases.flat()].map(normalizeTerm));
+  const prefix = query.prefix;
+  return (word) => terms.has(normalizeTerm(word)) || (!!prefix && word.startsWith(prefix));
+}
+
+// A window of a newsletter's body around its first match, with the matching words marked
+export function buildSnippet(body: string, query: ParsedSearchQuery): SearchSnippet {
+  const text = body.replace(/\s+/g, ' ').trim();
+  const words = findWords(text);
+  const matches = matcher(query);
+
+  const first = words.find((word) => matches(word.word));
+  const windowStart = first ? Math.max(0, first.start - SNIPPET_CONTEXT) : 0;
+  // Start and end on whole words
+  const start = windowStart === 0 ? 0 : words.find((word) => word.start >= windowStart)?.start ?? 0;
+  const fits = words.filter((word) => word.start >= start && word.end <= start + SNIPPET_LENGTH);
+  const end = text.length <= start + SNIPPET_LENGTH ? text.length : fits[fits.length - 1]?.end ?? text.length;
+
+  const lead = start > 0 ? ELLIPSIS : '';
+  const highlights = fits
+    .filter((word) => matches(word.word))
+    .map((word): [number, number] => [word.start - start + lead.length, word.end - start + lead.length]);
+
+  return {
+    text: lead + text.slice(start, end) + (end < text.length ? ELLIPSIS : ''),
+    highlights,
+  };
+}
+
+// Newsletters matching the search box syntax, best match first
+export async function searchNewsletters(
+  input: string,
+  limit: number,
+  visibility: VisibilityOptions = {}
+): Promise<SearchResult[]> {
+  const query = parseSearchQuery(input);
+  if (isEmptySearchQuery(query)) return [];
+
+  const matches = await storage.searchNewsletters(query, limit, visibility);
+  return matches.map(({ newsletter, bodyText, rank }) => ({
+    newsletter,
+    rank,
+    snippet: buildSnippet(bodyText || newsletter.description, query),
+  }));
+}
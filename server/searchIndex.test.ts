@@ -0,0 +1,68 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { Newsletter } from '@shared/schema';
+import { SearchIndex } from './searchIndex';
+import { parseSearchQuery } from './searchQuery';
+
+function newsletter(id: number, title: string, bodyText = ''): Newsletter {
+  return {
+    id,
+    title,
+    publisher: 'Byte Sized',
+    description: '',
+    imageUrl: '',
+    audioUrl: '',
+    duration: 0,
+    categoryId: 1,
+    publishedAt: new Date(),
+    featured: false,
+    bodyText,
+    bodyHtml: null,
+    transcript: null,
+    chapters: null,
+    senderEmail: null,
+    senderId: null,
+    ownerId: null,
+    sourceMessageId: null,
+  };
+}
+
+describe('SearchIndex', () => {
+  let index: SearchIndex;
+
+  beforeEach(() => {
+    index = new SearchIndex();
+    index.add(newsletter(1, 'Stock markets rally', 'Shares rose across the board.'));
+    index.add(newsletter(2, 'Quantum computing', 'Why stock prices of chip makers moved.'));
+    index.add(newsletter(3, 'Weekend reading', 'Long reads about rate cuts.'));
+  });
+
+  const ids = (query: string) => Array.from(index.search(parseSearchQuery(query)).keys()).sort();
+
+  it('requires every word', () => {
+    expect(ids('stock ')).toEqual([1, 2]);
+    expect(ids('stock quantum ')).toEqual([2]);
+  });
+
+  it('ranks title matches above body matches', () => {
+    const scores = index.search(parseSearchQuery('stock '));
+    expect(scores.get(1)!).toBeGreaterThan(scores.get(2)!);
+  });
+
+  it('matches phrases in order', () => {
+    expect(ids('"rate cuts"')).toEqual([3]);
+    expect(ids('"cuts rate"')).toEqual([]);
+  });
+
+  it('matches the word being typed as a prefix, including finished plurals', () => {
+    expect(ids('quan')).toEqual([2]);
+    expect(ids('stocks')).toEqual([1, 2]);
+  });
+
+  it('forgets removed and replaced newsletters', () => {
+    index.remove(1);
+    index.add(newsletter(2, 'Renamed'));
+
+    expect(ids('stock ')).toEqual([]);
+    expect(index.size).toBe(2);
+  });
+});
@@ -0,0 +1,133 @@
+import { normalizeTerm, tokenizeSearchText, type ParsedSearchQuery } from './searchQuery';
+import type { Newsletter } from '@shared/schema';
+
+// Inverted index over newsletter titles, publishers, descriptions and bodies,
+// used by the in-memory storage. Scores are tf-idf with matches in the title
+// and publisher counting more than matches in the body, like the weights the
+// Postgres search uses.
+
+const FIELD_WEIGHTS = {
+  title: 4,
+  publisher: 4,
+  description: 2,
+  body: 1,
+} as const;
+
+type Field = keyof typeof FIELD_WEIGHTS;
+
+interface IndexedDocument {
+  // Normalized words of each field, in order, for matching phrases
+  fields: Record<Field, string[]>;
+}
+
+export class SearchIndex {
+  private documents = new Map<number, IndexedDocument>();
+  // Weighted occurrences of each normalized word per newsletter
+  private postings = new Map<string, Map<number, number>>();
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  add(newsletter: Newsletter) {
+    this.remove(newsletter.id);
+
+    const fields: Record<Field, string[]> = {
+      title: this.tokenize(newsletter.title),
+      publisher: this.tokenize(newsletter.publisher),
+      description: this.tokenize(newsletter.description),
+      body: this.tokenize(newsletter.bodyText || ''),
+    };
+    this.documents.set(newsletter.id, { fields });
+
+    (Object.keys(fields) as Field[]).forEach((field) => {
+      for (const term of fields[field]) {
+        const posting = this.postings.get(term) ?? new Map<number, number>();
+        this.postings.set(term, posting);
+        posting.set(newsletter.id, (posting.get(newsletter.id) || 0) + FIELD_WEIGHTS[field]);
+      }
+    });
+  }
+
+  remove(id: number) {
+    const document = this.documents.get(id);
+    if (!document) return;
+
+    Object.values(document.fields).forEach((terms) => {
+      for (const term of terms) {
+        const posting = this.postings.get(term);
+        posting?.delete(id);
+        if (posting && posting.size === 0) this.postings.delete(term);
+      }
+    });
+    this.documents.delete(id);
+  }
+
+  // Scores of the newsletters matching every word, phrase and prefix of the
+  // query; filters are left to the caller
+  search(query: ParsedSearchQuery): Map<number, number> {
+    const required: Map<number, number>[] = [];
+
+    for (const term of [...query.terms, ...query.phrases.flat()]) {
+      required.push(this.scoreTerms([normalizeTerm(term)]));
+    }
+    if (query.prefix) {
+      // Indexed words are normalized, so a finished plural like "stocks" has to
+      // match "stock" too
+      const prefix = query.prefix;
+      const normalized = normalizeTerm(prefix);
+      const terms = Array.from(this.postings.keys()).filter((term) => term.startsWith(prefix) || term === normalized);
+      required.push(this.scoreTerms(terms));
+    }
+
+    if (required.length === 0) return new Map();
+
+    // Intersect, starting from the rarest requirement
+    required.sort((a, b) => a.size - b.size);
+    const scores = new Map<number, number>();
+    required[0].forEach((score, id) => {
+      if (required.every((matches) => matches.has(id))) {
+        scores.set(id, required.reduce((total, matches) => total + matches.get(id)!, 0));
+      }
+    });
+
+    const phrases = query.phrases.map((phrase) => phrase.map(normalizeTerm));
+    scores.forEach((_score, id) => {
+      const document = this.documents.get(id)!;
+      if (!phrases.every((phrase) => this.containsPhrase(document, phrase))) {
+        scores.delete(id);
+      }
+    });
+
+    return scores;
+  }
+
+  private tokenize(text: string): string[] {
+    return tokenizeSearchText(text).map(normalizeTerm);
+  }
+
+  // Summed tf-idf of any of the given words, per newsletter
+  private scoreTerms(terms: string[]): Map<number, number> {
+    const scores = new Map<number, number>();
+    for (const term of terms) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+
+      const idf = Math.log(1 + this.documents.size / posting.size);
+      posting.forEach((weight, id) => {
+        // Dampen repeated words so a long body doesn't drown out a title match
+        scores.set(id, (scores.get(id) || 0) + (1 + Math.log(weight)) * idf);
+      });
+    }
+    return scores;
+  }
+
+  private containsPhrase(document: IndexedDocument, phrase: string[]): boolean {
+    return Object.values(document.fields).some((terms) => {
+      for (let i = 0; i + phrase.length <= terms.length; i++) {
+        if (phrase.every((term, offset) => terms[i + offset] === term)) return true;
+      }
+      return false;
+    });
+  }
+}
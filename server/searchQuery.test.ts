@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { findWords, isEmptySearchQuery, normalizeTerm, parseSearchQuery } from './searchQuery';
+
+describe('parseSearchQuery', () => {
+  it('splits words, phrases and filters', () => {
+    expect(parseSearchQuery('publisher:"Morning Brew" "rate cut" fed category:business ')).toEqual({
+      terms: ['fed'],
+      phrases: [['rate', 'cut']],
+      publisher: 'Morning Brew',
+      category: 'business',
+    });
+  });
+
+  it('treats a trailing word as a prefix', () => {
+    expect(parseSearchQuery('quantum comp')).toEqual({ terms: ['quantum'], phrases: [], prefix: 'comp' });
+    expect(parseSearchQuery('quantum comp ')).toEqual({ terms: ['quantum', 'comp'], phrases: [] });
+  });
+
+  it('searches unknown filters and one-word phrases as words', () => {
+    expect(parseSearchQuery('re:launch "ai" ')).toEqual({ terms: ['re', 'launch', 'ai'], phrases: [] });
+  });
+
+  it('recognizes an empty query', () => {
+    expect(isEmptySearchQuery(parseSearchQuery('  "" '))).toBe(true);
+    expect(isEmptySearchQuery(parseSearchQuery('publisher:brew'))).toBe(false);
+  });
+});
+
+describe('normalizeTerm', () => {
+  it('folds simple plurals only', () => {
+    expect(normalizeTerm('newsletters')).toBe('newsletter');
+    expect(normalizeTerm('stocks')).toBe('stock');
+    expect(normalizeTerm('business')).toBe('business');
+    expect(normalizeTerm('status')).toBe('status');
+    expect(normalizeTerm('bus')).toBe('bus');
+  });
+});
+
+describe('findWords', () => {
+  it('returns lowercase words with their offsets', () => {
+    expect(findWords('Hello, World')).toEqual([
+      { word: 'hello', start: 0, end: 5 },
+      { word: 'world', start: 7, end: 12 },
+    ]);
+  });
+});
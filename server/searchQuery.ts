@@ -0,0 +1,84 @@
+// Parses the search box syntax: bare words, "quoted phrases" and
+// publisher:/category: filters, e.g. `publisher:"Morning Brew" "rate cut" fed`.
+// Every word and phrase must match. A trailing word that is still being typed
+// also matches words it is the start of.
+
+export interface ParsedSearchQuery {
+  // Lowercase words, without the word being typed
+  terms: string[];
+  // Lowercase words of each quoted phrase
+  phrases: string[][];
+  // Word being typed, matched as a prefix
+  prefix?: string;
+  publisher?: string;
+  category?: string;
+}
+
+const WORD_PATTERN = /[a-z0-9\u00c0-\uffff]+/g;
+const QUERY_PART_PATTERN = /(\w+):"([^"]*)"?|(\w+):(\S+)|"([^"]*)"?|(\S+)/g;
+
+export function tokenizeSearchText(text: string): string[] {
+  return text.toLowerCase().match(WORD_PATTERN) || [];
+}
+
+// Every word in the text, with its position, for highlighting matches
+export function findWords(text: string): { word: string; start: number; end: number }[] {
+  const words: { word: string; start: number; end: number }[] = [];
+  const lower = text.toLowerCase();
+  const pattern = new RegExp(WORD_PATTERN.source, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(lower))) {
+    words.push({ word: match[0], start: match.index, end: match.index + match[0].length });
+  }
+  return words;
+}
+
+// Folds simple plurals together so "newsletters" finds "newsletter"
+export function normalizeTerm(word: string): string {
+  if (word.length > 4 && word.endsWith('s') && !/(ss|us|is)$/.test(word)) {
+    return word.slice(0, -1);
+  }
+  return word;
+}
+
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const query: ParsedSearchQuery = { terms: [], phrases: [] };
+  const words: string[] = [];
+  let endsWithWord = false;
+  let match: RegExpExecArray | null;
+
+  const pattern = new RegExp(QUERY_PART_PATTERN.source, 'g');
+  while ((match = pattern.exec(input))) {
+    const [, quotedKey, quotedValue, key, value, phrase, word] = match;
+    const filterKey = (quotedKey ?? key)?.toLowerCase();
+    const filterValue = (quotedValue ?? value)?.trim();
+    endsWithWord = false;
+
+    if ((filterKey === 'publisher' || filterKey === 'category') && filterValue) {
+      query[filterKey] = filterValue;
+    } else if (phrase !== undefined) {
+      const tokens = tokenizeSearchText(phrase);
+      if (tokens.length > 1) query.phrases.push(tokens);
+      else words.push(...tokens);
+    } else {
+      // Unknown filters like "re:" are searched as plain words
+      const tokens = tokenizeSearchText(word ?? match[0]);
+      words.push(...tokens);
+      endsWithWord = tokens.length > 0 && match.index + match[0].length === input.length;
+    }
+  }
+
+  if (endsWithWord) {
+    query.prefix = words.pop();
+  }
+  query.terms = words;
+  return query;
+}
+
+export function isEmptySearchQuery(query: ParsedSearchQuery): boolean {
+  return query.terms.length === 0 && query.phrases.length === 0 && !query.prefix && !query.publisher && !query.category;
+}
+
+export function hasTextSearch(query: ParsedSearchQuery): boolean {
+  return query.terms.length > 0 || query.phrases.length > 0 || !!query.prefix;
+}
@@ -0,0 +1,128 @@
+import type { InsertCategory, InsertNewsletter } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+type SampleNewsletter = Omit<InsertNewsletter, "categoryId" | "publishedAt"> & { categoryName: string };
+
+// Demo categories
+export const sampleCategories: InsertCategory[] = [
+  { name: "Technology", description: "Latest tech news and innovations" },
+  { name: "Business", description: "Business news, insights, and analysis" },
+  { name: "Science", description: "Scientific breakthroughs and research" },
+  { name: "Health", description: "Health, wellness, and medical news" },
+  { name: "Politics", description: "Political news and analysis" }
+];
+
+// Demo newsletters, published one day apart starting today
+export const sampleNewsletters: SampleNewsletter[] = [
+  {
+    title: "Tech Insider Daily",
+    publisher: "TechCrunch",
+    description: "Daily tech news and insights from Silicon Valley and beyond.",
+    imageUrl: "https://images.unsplash.com/photo-1589903308904-1010c2294adc?ixlib=rb-1.2.1&auto=format&fit=crop&w=800&q=80",
+    audioUrl: "https://cdn.pixabay.com/download/audio/2021/11/13/audio_cb31232ebb.mp3?filename=lofi-study-112191.mp3",
+    duration: 900, // 15 min
+    categoryName: "Technology",
+    featured: true
+  },
+  {
+    title: "Financial Digest",
+    publisher: "Bloomberg",
+    description: "Expert financial analysis and market insights delivered to your ears.",
+    imageUrl: "https://images.unsplash.com/photo-1526304640581-d334cdbbf45e?ixlib=rb-1.2.1&auto=format&fit=crop&w=800&q=80",
+    audioUrl: "https://cdn.pixabay.com/download/audio/2022/03/15/audio_628ce3666f.mp3?filename=ambient-piano-amp-strings-10711.mp3",
+    duration: 1320, // 22 min
+    categoryName: "Business",
+    featured: true
+  },
+  {
+    title: "Wellness Weekly",
+    publisher: "Health Insider",
+    description: "The latest health research and wellness tips for a balanced lifestyle.",
+    imageUrl: "https://images.unsplash.com/photo-1505751172876-fa1923c5c528?ixlib=rb-1.2.1&auto=format&fit=crop&w=800&q=80",
+    audioUrl: "https://cdn.pixabay.com/download/audio/2022/03/10/audio_270f49bc27.mp3?filename=forest-lullaby-110624.mp3",
+    duration: 1080, // 18 min
+    categoryName: "Health",
+    featured: true
+  },
+  {
+    title: "AI Breakthrough Weekly",
+    publisher: "MIT Technology",
+    description: "Latest research and developments in artificial intelligence and machine learning.",
+    imageUrl: "https://images.unsplash.com/photo-1519389950473-47ba0277781c?ixlib=rb-1.2.1&auto=format&fit=crop&w=100&h=100&q=80",
+    audioUrl: "https://cdn.pixabay.com/download/audio/2021/11/25/audio_00cb9ae7bc.mp3?filename=electronic-future-beats-117997.mp3",
+    duration: 720, // 12 min
+    categoryName: "Technology"
+  },
+  {
+    title: "Climate Change Update",
+    publisher: "Nature Publishing",
+    description: "Research and news about climate change, sustainability, and environmental protection.",
+    imageUrl: "https://images.unsplash.com/photo-1551288049-bebda4e38f71?ixlib=rb-1.2.1&auto=format&fit=crop&w=100&h=100&q=80",
+    audioUrl: "https://cdn.pixabay.com/download/audio/2022/05/16/audio_d1d14b027d.mp3?filename=inspiring-dream-140960.mp3",
+    duration: 1200, // 20 min
+    categoryName: "Science"
+  },
+  {
+    title: "Startup Funding Roundup",
+    publisher: "Venture Beat",
+    description: "Weekly summary of startup fundraising, acquisitions, and venture capital trends.",
+    imageUrl: "https://images.unsplash.com/photo-1460925895917-afdab827c52f?ixlib=rb-1.2.1&auto=format&fit=crop&w=100&h=100&q=80",
+    audioUrl: "https://cdn.pixabay.com/download/audio/2022/10/25/audio_f1b7e16d32.mp3?filename=relaxing-145038.mp3",
+    duration: 1020, // 17 min
+    categoryName: "Business"
+  },
+  {
+    title: "Political Analysis",
+    publisher: "The Washington Post",
+    description: "In-depth analysis of politics, policy, and international relations.",
+    imageUrl: "https://images.unsplash.com/photo-1540910419892-4a36d2c3266c?ixlib=rb-1.2.1&auto=format&fit=crop&w=800&q=80",
+    audioUrl: "https://cdn.pixabay.com/download/audio/2022/05/27/audio_d18fb3ef5a.mp3?filename=life-of-a-wanderer-15500.mp3",
+    duration: 1500, // 25 min
+    categoryName: "Politics"
+  },
+  {
+    title: "Medical Breakthroughs",
+    publisher: "JAMA Network",
+    description: "Latest medical research, treatments, and healthcare innovations.",
+    imageUrl: "https://images.unsplash.com/photo-1576671334150-d2d56ebf2b53?ixlib=rb-1.2.1&auto=format&fit=crop&w=800&q=80",
+    audioUrl: "https://cdn.pixabay.com/download/audio/2022/01/18/audio_d0c6bf3069.mp3?filename=cinematic-chill-hip-hop-131453.mp3",
+    duration: 840, // 14 min
+    categoryName: "Health"
+  }
+];
+
+// Insert the demo categories and newsletters that are not there yet.
+// Safe to run repeatedly against the same database.
+export async function seedDatabase(storage: IStorage): Promise<{ categories: number; newsletters: number }> {
+  const created = { categories: 0, newsletters: 0 };
+
+  for (const data of sampleCategories) {
+    if (!(await storage.getCategoryByName(data.name))) {
+      await storage.createCategory(data);
+      created.categories++;
+    }
+  }
+
+  const now = new Date();
+  let daysAgo = 0;
+
+  for (const { categoryName, ...data } of sampleNewsletters) {
+    const publishDate = new Date(now);
+    publishDate.setDate(publishDate.getDate() - daysAgo++);
+
+    const category = await storage.getCategoryByName(categoryName);
+    if (!category) continue;
+
+    const matches = await storage.getRecentNewsletters({ search: data.title });
+    if (matches.some((n) => n.title === data.title && n.publisher === data.publisher)) continue;
+
+    await storage.createNewsletter({
+      ...data,
+      categoryId: category.id,
+      publishedAt: publishDate,
+    });
+    created.newsletters++;
+  }
+
+  return created;
+}
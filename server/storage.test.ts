@@ -0,0 +1,403 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { sql } from "drizzle-orm";
+import type { InsertNewsletter } from "@shared/schema";
+import { createDb, type Database } from "./db";
+import { runMigrations } from "./migrate";
+import { parseSearchQuery } from "./searchQuery";
+import { DbStorage, MemStorage, type IStorage } from "./storage";
+
+// Both storage implementations have to behave the same. DbStorage is only
+// tested when TEST_DATABASE_URL points at a Postgres database, and every table
+// in that database is emptied before each test.
+
+const connection = process.env.TEST_DATABASE_URL ? createDb(process.env.TEST_DATABASE_URL) : undefined;
+
+async function resetDatabase(db: Database) {
+  const { rows } = await db.execute<{ tablename: string }>(
+    sql`select tablename from pg_tables where schemaname = 'public'`
+  );
+  const tables = rows.map(({ tablename }) => `"${tablename}"`).join(", ");
+  await db.execute(sql.raw(`TRUNCATE ${tables} RESTART IDENTITY CASCADE`));
+}
+
+const implementations: { name: string; create: () => Promise<IStorage> }[] = [
+  { name: "MemStorage", create: async () => new MemStorage() },
+];
+if (connection) {
+  implementations.push({
+    name: "DbStorage",
+    create: async () => {
+      await resetDatabase(connection.db);
+      return new DbStorage(connection.db);
+    },
+  });
+}
+
+beforeAll(async () => {
+  if (connection) await runMigrations(connection.db);
+});
+
+afterAll(async () => {
+  await connection?.pool.end();
+});
+
+describe.each(implementations)("$name", ({ create }) => {
+  let storage: IStorage;
+  let categoryId: number;
+
+  beforeEach(async () => {
+    storage = await create();
+    categoryId = (await storage.createCategory({ name: "Technology", description: "Tech news" })).id;
+  });
+
+  function newsletter(data: Partial<InsertNewsletter> = {}): InsertNewsletter {
+    return {
+      title: "Weekly roundup",
+      publisher: "Byte Sized",
+      description: "The week in tech",
+      imageUrl: "https://example.com/cover.png",
+      audioUrl: "",
+      duration: 600,
+      categoryId,
+      publishedAt: new Date("2025-01-01T00:00:00Z"),
+      ...data,
+    };
+  }
+
+  function createUser(name = "reader") {
+    return storage.createUser({ username: name, email: `${name}@example.com`, password: "hashed" });
+  }
+
+  function createSender(email: string) {
+    return storage.createNewsletterSender({ name: email, email, domain: email.split("@")[1] });
+  }
+
+  const ids = (rows: { id: number }[]) => rows.map((row) => row.id);
+
+  describe("users", () => {
+    it("finds users by id, username, email and feed token", async () => {
+      const user = await createUser();
+      await storage.updateUser(user.id, { feedToken: "secret" });
+
+      expect((await storage.getUser(user.id))?.username).toBe("reader");
+      expect((await storage.getUserByUsername("reader"))?.id).toBe(user.id);
+      expect((await storage.getUserByEmail("reader@example.com"))?.id).toBe(user.id);
+      expect((await storage.getUserByFeedToken("secret"))?.id).toBe(user.id);
+      expect(await storage.getUserByUsername("nobody")).toBeUndefined();
+    });
+  });
+
+  describe("newsletters", () => {
+    it("returns the body with a single newsletter but not in lists", async () => {
+      const created = await storage.createNewsletter(newsletter({ bodyText: "Body", bodyHtml: "<p>Body</p>" }));
+
+      expect(await storage.getNewsletterById(created.id)).toMatchObject({ bodyText: "Body", bodyHtml: "<p>Body</p>" });
+      const [listed] = await storage.getRecentNewsletters();
+      expect(listed.id).toBe(created.id);
+      expect(listed).not.toHaveProperty("bodyText");
+      expect(listed).not.toHaveProperty("bodyHtml");
+      expect(listed).not.toHaveProperty("transcript");
+    });
+
+    it("sorts by publish date, then id", async () => {
+      const older = await storage.createNewsletter(newsletter({ publishedAt: new Date("2025-01-01T00:00:00Z") }));
+      const newer = await storage.createNewsletter(newsletter({ publishedAt: new Date("2025-02-01T00:00:00Z") }));
+      const sameTime = await storage.createNewsletter(newsletter({ publishedAt: new Date("2025-02-01T00:00:00Z") }));
+
+      expect(ids(await storage.getRecentNewsletters())).toEqual([sameTime.id, newer.id, older.id]);
+      expect(ids(await storage.getRecentNewsletters({ sort: "oldest" }))).toEqual([older.id, newer.id, sameTime.id]);
+      expect(ids(await storage.getRecentNewsletters({ limit: 1 }))).toEqual([sameTime.id]);
+    });
+
+    it("pages through newsletters published at the same time", async () => {
+      const publishedAt = new Date("2025-03-01T12:00:00.123Z");
+      const created: number[] = [];
+      for (let i = 0; i < 5; i++) {
+        created.unshift((await storage.createNewsletter(newsletter({ publishedAt }))).id);
+      }
+
+      const seen: number[] = [];
+      let page = await storage.getRecentNewsletters({ limit: 2 });
+      while (page.length > 0) {
+        seen.push(...ids(page));
+        const last = page[page.length - 1];
+        page = await storage.getRecentNewsletters({ limit: 2, cursor: { publishedAt: last.publishedAt, id: last.id } });
+      }
+      expect(seen).toEqual(created);
+    });
+
+    it("filters by category, featured flag and search term", async () => {
+      const otherCategory = await storage.createCategory({ name: "Science", description: "Science news" });
+      const featured = await storage.createNewsletter(newsletter({ featured: true, title: "Quantum weekly" }));
+      const science = await storage.createNewsletter(newsletter({ categoryId: otherCategory.id }));
+
+      expect(ids(await storage.getNewslettersByCategory({ categoryId: otherCategory.id }))).toEqual([science.id]);
+      expect(ids(await storage.getFeaturedNewsletters())).toEqual([featured.id]);
+      expect(ids(await storage.getRecentNewsletters({ search: "quantum" }))).toEqual([featured.id]);
+    });
+
+    it("filters by sender", async () => {
+      const sender = await createSender("news@bytesized.dev");
+      const fromSender = await storage.createNewsletter(newsletter({ senderId: sender.id }));
+      await storage.createNewsletter(newsletter());
+
+      expect(ids(await storage.getRecentNewsletters({ senderIds: [sender.id] }))).toEqual([fromSender.id]);
+      expect(await storage.getRecentNewsletters({ senderIds: [] })).toEqual([]);
+    });
+
+    it("only shows ingested newsletters to their owner", async () => {
+      const owner = await createUser("owner");
+      const other = await createUser("other");
+      const shared = await storage.createNewsletter(newsletter());
+      const owned = await storage.createNewsletter(
+        newsletter({ ownerId: owner.id, sourceMessageId: "msg-1", publishedAt: new Date("2025-02-01T00:00:00Z") })
+      );
+
+      expect(ids(await storage.getRecentNewsletters())).toEqual([shared.id]);
+      expect(ids(await storage.getRecentNewsletters({ viewerId: other.id }))).toEqual([shared.id]);
+      expect(ids(await storage.getRecentNewsletters({ viewerId: owner.id }))).toEqual([owned.id, shared.id]);
+      expect((await storage.getNewsletterBySourceMessageId(owner.id, "msg-1"))?.id).toBe(owned.id);
+      expect(await storage.getNewsletterBySourceMessageId(other.id, "msg-1")).toBeUndefined();
+    });
+
+    it("leaves out excluded senders but keeps newsletters without a sender", async () => {
+      const sender = await createSender("news@bytesized.dev");
+      const shared = await storage.createNewsletter(newsletter());
+      await storage.createNewsletter(newsletter({ senderId: sender.id }));
+
+      expect(ids(await storage.getRecentNewsletters({ excludeSenderIds: [sender.id] }))).toEqual([shared.id]);
+    });
+
+    it("updates newsletters", async () => {
+      const created = await storage.createNewsletter(newsletter());
+      const updated = await storage.updateNewsletter(created.id, { audioUrl: "/audio/1.mp3", duration: 42 });
+
+      expect(updated).toMatchObject({ id: created.id, audioUrl: "/audio/1.mp3", duration: 42 });
+      expect((await storage.getNewsletterById(created.id))?.duration).toBe(42);
+      expect(await storage.updateNewsletter(999, { duration: 1 })).toBeUndefined();
+    });
+  });
+
+  describe("search", () => {
+    it("matches words, prefixes and filters, and returns the body for snippets", async () => {
+      const quantum = await storage.createNewsletter(
+        newsletter({ title: "Quantum computing explained", bodyText: "Qubits and quantum chips" })
+      );
+      await storage.createNewsletter(newsletter({ title: "Markets wrap", publisher: "Money Matters" }));
+
+      const [match, ...rest] = await storage.searchNewsletters(parseSearchQuery("quantum"), 10);
+      expect(rest).toEqual([]);
+      expect(match.newsletter.id).toBe(quantum.id);
+      expect(match.bodyText).toBe("Qubits and quantum chips");
+      expect(match.rank).toBeGreaterThan(0);
+
+      expect(ids((await storage.searchNewsletters(parseSearchQuery("quant"), 10)).map((m) => m.newsletter))).toEqual([quantum.id]);
+      expect(await storage.searchNewsletters(parseSearchQuery("publisher:money quantum"), 10)).toEqual([]);
+    });
+
+    it("only finds newsletters the viewer can see", async () => {
+      const owner = await createUser();
+      await storage.createNewsletter(newsletter({ title: "Private quantum notes", ownerId: owner.id }));
+
+      expect(await storage.searchNewsletters(parseSearchQuery("quantum"), 10)).toEqual([]);
+      expect(await storage.searchNewsletters(parseSearchQuery("quantum"), 10, { viewerId: owner.id })).toHaveLength(1);
+    });
+  });
+
+  describe("publishers", () => {
+    it("summarizes publishers from their visible newsletters", async () => {
+      const owner = await createUser();
+      await storage.createNewsletter(newsletter({ senderEmail: "a@bytesized.dev" }));
+      await storage.createNewsletter(
+        newsletter({ senderEmail: "b@bytesized.dev", imageUrl: "https://example.com/latest.png", publishedAt: new Date("2025-02-01T00:00:00Z") })
+      );
+      await storage.createNewsletter(newsletter({ publisher: "Hidden", ownerId: owner.id }));
+
+      const [summary, ...rest] = await storage.getPublishers();
+      expect(rest).toEqual([]);
+      expect(summary).toMatchObject({
+        publisher: "Byte Sized",
+        imageUrl: "https://example.com/latest.png",
+        newsletterCount: 2,
+        latestPublishedAt: new Date("2025-02-01T00:00:00Z"),
+      });
+      expect(summary.senderEmails.sort()).toEqual(["a@bytesized.dev", "b@bytesized.dev"]);
+
+      expect((await storage.getPublishers({ viewerId: owner.id })).map((p) => p.publisher)).toEqual(["Byte Sized", "Hidden"]);
+      expect((await storage.getPublisher("Byte Sized"))?.newsletterCount).toBe(2);
+      expect(await storage.getPublisher("Hidden")).toBeUndefined();
+      expect((await storage.getPublisher("Hidden", { viewerId: owner.id }))?.newsletterCount).toBe(1);
+      expect(await storage.getNewslettersByPublisher("Byte Sized")).toHaveLength(2);
+      expect(await storage.getNewslettersByPublisher("Hidden")).toEqual([]);
+      expect(await storage.getNewslettersByPublisher("Hidden", { viewerId: owner.id })).toHaveLength(1);
+    });
+
+    it("counts recent listens and saves of shared newsletters only", async () => {
+      const user = await createUser();
+      const shared = await storage.createNewsletter(newsletter());
+      const owned = await storage.createNewsletter(newsletter({ publisher: "Hidden", ownerId: user.id }));
+      for (const { id } of [shared, owned]) {
+        await storage.saveListeningProgress({ userId: user.id, newsletterId: id, position: 30 });
+        await storage.saveNewsletterForUser({ userId: user.id, newsletterId: id });
+      }
+
+      expect(await storage.getPublisherActivity(new Date(Date.now() - 60_000))).toEqual([
+        { publisher: "Byte Sized", listens: 1, saves: 1 },
+      ]);
+      expect(await storage.getPublisherActivity(new Date(Date.now() + 60_000))).toEqual([]);
+    });
+  });
+
+  describe("saved newsletters", () => {
+    it("saves, lists and removes newsletters for a user", async () => {
+      const user = await createUser();
+      const created = await storage.createNewsletter(newsletter());
+
+      await storage.saveNewsletterForUser({ userId: user.id, newsletterId: created.id });
+      expect((await storage.getUserNewsletters(user.id)).map(({ newsletter }) => newsletter.id)).toEqual([created.id]);
+      expect(await storage.getUserNewsletterByIds(user.id, created.id)).toBeDefined();
+      expect(await storage.isFirstTimeLogin(user.id)).toBe(false);
+
+      await storage.removeNewsletterForUser(user.id, created.id);
+      expect(await storage.getUserNewsletters(user.id)).toEqual([]);
+      expect(await storage.isFirstTimeLogin(user.id)).toBe(true);
+    });
+  });
+
+  describe("senders", () => {
+    it("keeps subscribed and unsubscribed senders apart", async () => {
+      const user = await createUser();
+      const followed = await createSender("followed@example.com");
+      const dropped = await createSender("dropped@example.com");
+      await storage.saveUserNewsletterSender({ userId: user.id, senderEmail: followed.email, subscribed: true });
+      await storage.saveUserNewsletterSender({ userId: user.id, senderEmail: dropped.email, subscribed: false });
+
+      expect((await storage.getUserNewsletterSender(user.id, dropped.email))?.subscribed).toBe(false);
+      expect(await storage.getUserSenderIds(user.id, true)).toEqual([followed.id]);
+      expect(await storage.getUserSenderIds(user.id, false)).toEqual([dropped.id]);
+
+      await storage.updateUserNewsletterSender(user.id, dropped.email, true);
+      expect(await storage.getUserSenderIds(user.id, true)).toEqual([followed.id, dropped.id]);
+    });
+
+    it("counts discovered senders per user", async () => {
+      const user = await createUser();
+      const other = await createUser("other");
+      const sender = await createSender("news@bytesized.dev");
+      await storage.saveDiscoveredSender({ userId: user.id, senderId: sender.id, emailCount: 2 });
+      await storage.saveDiscoveredSender({ userId: user.id, senderId: sender.id, emailCount: 5 });
+
+      const discovered = await storage.getDiscoveredSenders(user.id);
+      expect(discovered.map(({ sender, discovered }) => [sender.email, discovered.emailCount])).toEqual([
+        ["news@bytesized.dev", 5],
+      ]);
+      expect(await storage.getDiscoveredSenders(other.id)).toEqual([]);
+    });
+  });
+
+  describe("listening", () => {
+    it("keeps one progress record per user and newsletter", async () => {
+      const user = await createUser();
+      const created = await storage.createNewsletter(newsletter());
+
+      const first = await storage.saveListeningProgress({ userId: user.id, newsletterId: created.id, position: 30 });
+      const second = await storage.saveListeningProgress({ userId: user.id, newsletterId: created.id, position: 90, completed: true });
+
+      expect(second.id).toBe(first.id);
+      expect(await storage.getListeningProgress(user.id, created.id)).toMatchObject({ position: 90, completed: true });
+      expect((await storage.getUserListeningHistory(user.id)).map(({ newsletter }) => newsletter.id)).toEqual([created.id]);
+
+      await storage.deleteListeningProgress(user.id, created.id);
+      expect(await storage.getListeningProgress(user.id, created.id)).toBeUndefined();
+    });
+
+    it("pages back through listening events, newest first", async () => {
+      const user = await createUser();
+      const created = await storage.createNewsletter(newsletter());
+      const play = await storage.createListeningEvent({ userId: user.id, newsletterId: created.id, type: "play", position: 0 });
+      const pause = await storage.createListeningEvent({ userId: user.id, newsletterId: created.id, type: "pause", position: 60 });
+
+      expect((await storage.getListeningHistory(user.id, 10)).map(({ event }) => event.id)).toEqual([pause.id, play.id]);
+      expect((await storage.getListeningHistory(user.id, 10, pause.id)).map(({ event }) => event.id)).toEqual([play.id]);
+      expect((await storage.getListeningEventsSince(user.id, new Date(0))).map(({ event }) => event.id)).toEqual([play.id, pause.id]);
+    });
+  });
+
+  describe("queue and playlists", () => {
+    it("keeps the play queue in order without duplicates", async () => {
+      const user = await createUser();
+      const a = await storage.createNewsletter(newsletter());
+      const b = await storage.createNewsletter(newsletter());
+
+      expect(ids(await storage.setPlayQueue(user.id, [b.id, a.id, b.id]))).toEqual([b.id, a.id]);
+      expect(ids(await storage.getPlayQueue(user.id))).toEqual([b.id, a.id]);
+    });
+
+    it("stores playlists and their newsletters in order", async () => {
+      const user = await createUser();
+      const a = await storage.createNewsletter(newsletter());
+      const b = await storage.createNewsletter(newsletter());
+      const playlist = await storage.createPlaylist({ userId: user.id, name: "Commute" });
+
+      expect(ids(await storage.setPlaylistNewsletters(playlist.id, [b.id, a.id]))).toEqual([b.id, a.id]);
+      expect((await storage.updatePlaylist(playlist.id, { name: "Morning commute" }))?.name).toBe("Morning commute");
+      expect((await storage.getUserPlaylists(user.id)).map((p) => p.name)).toEqual(["Morning commute"]);
+
+      await storage.deletePlaylist(playlist.id);
+      expect(await storage.getPlaylistById(playlist.id)).toBeUndefined();
+      expect(await storage.getPlaylistNewsletters(playlist.id)).toEqual([]);
+    });
+  });
+
+  describe("gmail sync state", () => {
+    it("keeps the last full sync time until a new one is recorded", async () => {
+      const user = await createUser();
+      const fullSyncedAt = new Date("2025-01-01T00:00:00Z");
+      await storage.saveGmailSyncState({ userId: user.id, scope: "newsletters", historyId: "100", fullSyncedAt });
+      await storage.saveGmailSyncState({ userId: user.id, scope: "newsletters", historyId: "200" });
+
+      expect(await storage.getGmailSyncState(user.id, "newsletters")).toMatchObject({ historyId: "200", fullSyncedAt });
+      expect(await storage.getGmailSyncState(user.id, "senders")).toBeUndefined();
+
+      await storage.deleteGmailSyncState(user.id, "newsletters");
+      expect(await storage.getGmailSyncState(user.id, "newsletters")).toBeUndefined();
+    });
+  });
+
+  describe("jobs", () => {
+    it("claims due jobs once, oldest first", async () => {
+      const first = await storage.createJob({ type: "ingest", payload: {}, runAt: new Date(Date.now() - 60_000) });
+      const second = await storage.createJob({ type: "ingest", payload: {}, runAt: new Date(Date.now() - 30_000) });
+      await storage.createJob({ type: "ingest", payload: {}, runAt: new Date(Date.now() + 60 * 60_000) });
+
+      expect(await storage.claimNextJob()).toMatchObject({ id: first.id, status: "running", attempts: 1 });
+      expect((await storage.claimNextJob())?.id).toBe(second.id);
+      expect(await storage.claimNextJob()).toBeUndefined();
+      expect(await storage.getActiveJobsByType("ingest")).toHaveLength(3);
+    });
+
+    it("requeues jobs locked before the cutoff", async () => {
+      const job = await storage.createJob({ type: "ingest", payload: {} });
+      await storage.claimNextJob();
+
+      expect(await storage.requeueStaleJobs(new Date(Date.now() - 60_000))).toBe(0);
+      expect(await storage.requeueStaleJobs(new Date(Date.now() + 60_000))).toBe(1);
+      expect(await storage.getJobById(job.id)).toMatchObject({ status: "pending", lockedAt: null });
+    });
+  });
+
+  describe("category overrides", () => {
+    it("keeps the latest override per newsletter", async () => {
+      const user = await createUser();
+      const science = await storage.createCategory({ name: "Science", description: "Science news" });
+      const created = await storage.createNewsletter(newsletter());
+
+      const first = await storage.saveCategoryOverride({ newsletterId: created.id, userId: user.id, categoryId });
+      const latest = await storage.saveCategoryOverride({ newsletterId: created.id, userId: user.id, categoryId: science.id });
+
+      expect(latest.id).toBe(first.id);
+      expect((await storage.getCategoryOverride(created.id))?.categoryId).toBe(science.id);
+      expect((await storage.getCategoryOverrides()).map(({ override }) => override.categoryId)).toEqual([science.id]);
+    });
+  });
+});
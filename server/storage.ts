@@ -1,10 +1,27 @@
 import { 
+  users,
+  userTokens,
+  categories,
+  newsletters,
+  userNewsletters,
+  newsletterSenders,
+  userNewsletterSenders,
+  discoveredSenders,
+  listeningProgress,
+  listeningEvents,
+  playQueueItems,
+  playlists,
+  playlistItems,
+  jobs,
+  gmailSyncStates,
+  categoryOverrides,
   type User, 
   type InsertUser, 
   type Category, 
   type InsertCategory, 
   type Newsletter, 
   type InsertNewsletter, 
+  type NewsletterSummary,
   type UserNewsletter, 
   type InsertUserNewsletter,
   type UserToken,
@@ -12,13 +29,65 @@ import {
   type NewsletterSender,
   type InsertNewsletterSender,
   type UserNewsletterSender,
-  type InsertUserNewsletterSender
+  type InsertUserNewsletterSender,
+  type DiscoveredSender,
+  type InsertDiscoveredSender,
+  type ListeningProgress,
+  type InsertListeningProgress,
+  type ListeningEvent,
+  type InsertListeningEvent,
+  type Playlist,
+  type InsertPlaylist,
+  type Job,
+  type InsertJob,
+  type GmailSyncState,
+  type InsertGmailSyncState,
+  type GmailSyncScope,
+  type CategoryOverride,
+  type InsertCategoryOverride,
+  type NewsletterSort,
+  type PublisherSummary,
+  newsletterSearchVector
 } from "@shared/schema";
+import { and, asc, count, desc, eq, getTableColumns, gte, ilike, inArray, isNull, lt, lte, max, notInArray, or, sql, type SQL } from "drizzle-orm";
+import { connection, type Database } from "./db";
+import type { NewsletterCursor } from "./pagination";
+import { SearchIndex } from "./searchIndex";
+import { hasTextSearch, parseSearchQuery, type ParsedSearchQuery } from "./searchQuery";
 
-interface QueryOptions {
+// Which newsletters a reader gets to see in lists and search results
+export interface VisibilityOptions {
+  // Newsletters ingested from this user's mailbox are included besides the shared ones
+  viewerId?: number;
+  // Left out, e.g. the senders the reader unsubscribed from
+  excludeSenderIds?: number[];
+}
+
+// Ingested newsletters belong to the user whose mailbox they came from; the rest are shared
+export function isNewsletterVisibleTo(newsletter: NewsletterSummary, viewerId?: number): boolean {
+  return newsletter.ownerId === null || newsletter.ownerId === viewerId;
+}
+
+// Lists and single newsletters leave out the email body and transcript, which only
+// the transcript endpoint serves, to readers allowed to see them
+export function toNewsletterSummary<T extends Record<"bodyText" | "bodyHtml" | "transcript", unknown>>({
+  bodyText,
+  bodyHtml,
+  transcript,
+  ...summary
+}: T): Omit<T, "bodyText" | "bodyHtml" | "transcript"> {
+  return summary;
+}
+
+export interface QueryOptions extends VisibilityOptions {
   categoryId?: number;
-  search?: string;
+  search?: string; // search box syntax, see parseSearchQuery
+  // Only newsletters from these senders; an empty list matches nothing
+  senderIds?: number[];
   limit?: number;
+  sort?: NewsletterSort;
+  // Only return newsletters after this position in the sort order
+  cursor?: NewsletterCursor;
 }
 
 // Interface for storage operations
@@ -28,6 +97,7 @@ export interface IStorage {
   getUserByUsername(username: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
   getUserByProviderInfo(provider: string, providerId: string): Promise<User | undefined>;
+  getUserByFeedToken(feedToken: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: number, userData: Partial<User>): Promise<User | undefined>;
   
@@ -46,13 +116,29 @@ export interface IStorage {
   
   // Newsletter methods
   getNewsletterById(id: number): Promise<Newsletter | undefined>;
-  getFeaturedNewsletters(options?: QueryOptions): Promise<Newsletter[]>;
-  getRecentNewsletters(options?: QueryOptions): Promise<Newsletter[]>;
-  getNewslettersByCategory(options?: QueryOptions): Promise<Newsletter[]>;
+  getFeaturedNewsletters(options?: QueryOptions): Promise<NewsletterSummary[]>;
+  getRecentNewsletters(options?: QueryOptions): Promise<NewsletterSummary[]>;
+  getNewslettersByCategory(options?: QueryOptions): Promise<NewsletterSummary[]>;
+  getNewsletterBySourceMessageId(ownerId: number, messageId: string): Promise<Newsletter | undefined>;
   createNewsletter(newsletter: InsertNewsletter): Promise<Newsletter>;
+  updateNewsletter(id: number, newsletterData: Partial<Newsletter>): Promise<Newsletter | undefined>;
+
+  // Search methods
+  searchNewsletters(
+    query: ParsedSearchQuery,
+    limit: number,
+    visibility?: VisibilityOptions
+  ): Promise<{ newsletter: NewsletterSummary; bodyText: string | null; rank: number }[]>;
+
+  // Publisher methods
+  getPublishers(visibility?: VisibilityOptions): Promise<PublisherSummary[]>;
+  getPublisher(publisher: string, visibility?: VisibilityOptions): Promise<PublisherSummary | undefined>;
+  getNewslettersByPublisher(publisher: string, visibility?: VisibilityOptions): Promise<NewsletterSummary[]>;
+  // Listens and saves of shared newsletters since the given time, by publisher
+  getPublisherActivity(since: Date): Promise<{ publisher: string; listens: number; saves: number }[]>;
   
   // User Newsletter methods
-  getUserNewsletters(userId: number): Promise<{ newsletter: Newsletter; savedAt: Date }[]>;
+  getUserNewsletters(userId: number): Promise<{ newsletter: NewsletterSummary; savedAt: Date }[]>;
   getUserNewsletterByIds(userId: number, newsletterId: number): Promise<UserNewsletter | undefined>;
   saveNewsletterForUser(data: InsertUserNewsletter): Promise<UserNewsletter>;
   removeNewsletterForUser(userId: number, newsletterId: number): Promise<void>;
@@ -61,12 +147,63 @@ export interface IStorage {
   getNewsletterSenders(): Promise<NewsletterSender[]>;
   createNewsletterSender(sender: InsertNewsletterSender): Promise<NewsletterSender>;
   getNewsletterSenderByEmail(email: string): Promise<NewsletterSender | undefined>;
+  updateNewsletterSender(id: number, senderData: Partial<NewsletterSender>): Promise<NewsletterSender | undefined>;
 
   // User Newsletter Sender methods
   getUserNewsletterSenders(userId: number): Promise<UserNewsletterSender[]>;
   saveUserNewsletterSender(data: InsertUserNewsletterSender): Promise<UserNewsletterSender>;
   updateUserNewsletterSender(userId: number, senderEmail: string, subscribed: boolean): Promise<UserNewsletterSender | undefined>;
   getUserNewsletterSender(userId: number, senderEmail: string): Promise<UserNewsletterSender | undefined>;
+  getUserSenderIds(userId: number, subscribed: boolean): Promise<number[]>;
+
+  // Discovered Sender methods
+  getDiscoveredSenders(userId: number): Promise<{ sender: NewsletterSender; discovered: DiscoveredSender }[]>;
+  saveDiscoveredSender(data: InsertDiscoveredSender): Promise<DiscoveredSender>;
+
+  // Listening Progress methods
+  getListeningProgress(userId: number, newsletterId: number): Promise<ListeningProgress | undefined>;
+  getUserListeningProgress(userId: number): Promise<ListeningProgress[]>;
+  getUserListeningHistory(userId: number): Promise<{ newsletter: NewsletterSummary; progress: ListeningProgress }[]>;
+  saveListeningProgress(data: InsertListeningProgress): Promise<ListeningProgress>;
+  deleteListeningProgress(userId: number, newsletterId: number): Promise<void>;
+
+  // Listening Event methods
+  createListeningEvent(event: InsertListeningEvent): Promise<ListeningEvent>;
+  // Newest first; before is an event id to page back from
+  getListeningHistory(userId: number, limit: number, before?: number): Promise<{ event: ListeningEvent; newsletter: NewsletterSummary }[]>;
+  // Oldest first
+  getListeningEventsSince(userId: number, since: Date): Promise<{ event: ListeningEvent; newsletter: NewsletterSummary }[]>;
+
+  // Play Queue methods
+  getPlayQueue(userId: number): Promise<NewsletterSummary[]>;
+  setPlayQueue(userId: number, newsletterIds: number[]): Promise<NewsletterSummary[]>;
+
+  // Playlist methods
+  getUserPlaylists(userId: number): Promise<Playlist[]>;
+  getPlaylistById(id: number): Promise<Playlist | undefined>;
+  createPlaylist(playlist: InsertPlaylist): Promise<Playlist>;
+  updatePlaylist(id: number, playlistData: Partial<Playlist>): Promise<Playlist | undefined>;
+  deletePlaylist(id: number): Promise<void>;
+  getPlaylistNewsletters(playlistId: number): Promise<NewsletterSummary[]>;
+  setPlaylistNewsletters(playlistId: number, newsletterIds: number[]): Promise<NewsletterSummary[]>;
+
+  // Gmail Sync State methods
+  getGmailSyncState(userId: number, scope: GmailSyncScope): Promise<GmailSyncState | undefined>;
+  saveGmailSyncState(data: InsertGmailSyncState): Promise<GmailSyncState>;
+  deleteGmailSyncState(userId: number, scope: GmailSyncScope): Promise<void>;
+
+  // Job methods
+  createJob(job: InsertJob): Promise<Job>;
+  getJobById(id: number): Promise<Job | undefined>;
+  getActiveJobsByType(type: string): Promise<Job[]>;
+  claimNextJob(): Promise<Job | undefined>;
+  updateJob(id: number, jobData: Partial<Job>): Promise<Job | undefined>;
+  requeueStaleJobs(lockedBefore: Date): Promise<number>;
+
+  // Category Override methods
+  getCategoryOverride(newsletterId: number): Promise<CategoryOverride | undefined>;
+  getCategoryOverrides(): Promise<{ override: CategoryOverride; newsletter: Newsletter }[]>;
+  saveCategoryOverride(data: InsertCategoryOverride): Promise<CategoryOverride>;
 
   // First-time login detection
   isFirstTimeLogin(userId: number): Promise<boolean>;
@@ -81,6 +218,16 @@ export class MemStorage implements IStorage {
   private userNewsletters: Map<string, UserNewsletter>;
   private newsletterSenders: Map<number, NewsletterSender>;
   private userNewsletterSenders: Map<string, UserNewsletterSender>;
+  private discoveredSenders: Map<string, DiscoveredSender>;
+  private listeningProgress: Map<string, ListeningProgress>;
+  private listeningEvents: Map<number, ListeningEvent>;
+  private playQueues: Map<number, number[]>;
+  private playlists: Map<number, Playlist>;
+  private playlistItems: Map<number, number[]>;
+  private jobs: Map<number, Job>;
+  private gmailSyncStates: Map<string, GmailSyncState>;
+  private categoryOverrides: Map<number, CategoryOverride>;
+  private searchIndex: SearchIndex;
 
   private userId: number = 1;
   private userTokenId: number = 1;
@@ -89,6 +236,13 @@ export class MemStorage implements IStorage {
   private userNewsletterId: number = 1;
   private newsletterSenderId: number = 1;
   private userNewsletterSenderId: number = 1;
+  private discoveredSenderId: number = 1;
+  private listeningProgressId: number = 1;
+  private listeningEventId: number = 1;
+  private playlistId: number = 1;
+  private jobId: number = 1;
+  private gmailSyncStateId: number = 1;
+  private categoryOverrideId: number = 1;
 
   constructor() {
     this.users = new Map();
@@ -98,9 +252,16 @@ export class MemStorage implements IStorage {
     this.userNewsletters = new Map();
     this.newsletterSenders = new Map();
     this.userNewsletterSenders = new Map();
-
-    // Initialize with sample data
-    this.initSampleData();
+    this.discoveredSenders = new Map();
+    this.listeningProgress = new Map();
+    this.listeningEvents = new Map();
+    this.playQueues = new Map();
+    this.playlists = new Map();
+    this.playlistItems = new Map();
+    this.jobs = new Map();
+    this.gmailSyncStates = new Map();
+    this.categoryOverrides = new Map();
+    this.searchIndex = new SearchIndex();
   }
   
   // User methods
@@ -121,6 +282,10 @@ export class MemStorage implements IStorage {
       (user) => user.provider === provider && user.providerId === providerId
     );
   }
+
+  async getUserByFeedToken(feedToken: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find((user) => user.feedToken === feedToken);
+  }
   
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.userId++;
@@ -132,7 +297,8 @@ export class MemStorage implements IStorage {
       name: insertUser.name || null,
       avatarUrl: insertUser.avatarUrl || null,
       provider: insertUser.provider || null,
-      providerId: insertUser.providerId || null
+      providerId: insertUser.providerId || null,
+      feedToken: null
     };
     this.users.set(id, user);
     return user;
@@ -244,95 +410,70 @@ export class MemStorage implements IStorage {
     return this.newsletters.get(id);
   }
   
-  async getFeaturedNewsletters(options: QueryOptions = {}): Promise<Newsletter[]> {
-    let newsletters = Array.from(this.newsletters.values()).filter((n) => n.featured);
-    
-    // Filter by category if provided
-    if (options.categoryId) {
-      newsletters = newsletters.filter((n) => n.categoryId === options.categoryId);
-    }
-    
-    // Filter by search term if provided
-    if (options.search) {
-      const search = options.search.toLowerCase();
-      newsletters = newsletters.filter(
-        (n) =>
-          n.title.toLowerCase().includes(search) ||
-          n.publisher.toLowerCase().includes(search) ||
-          n.description.toLowerCase().includes(search)
-      );
-    }
-    
-    // Sort by published date, newest first
-    newsletters.sort((a, b) => 
-      new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime()
+  private isVisible(newsletter: Newsletter, options: VisibilityOptions): boolean {
+    return (
+      isNewsletterVisibleTo(newsletter, options.viewerId) &&
+      !(newsletter.senderId !== null && options.excludeSenderIds?.includes(newsletter.senderId))
     );
-    
-    // Apply limit if provided
-    if (options.limit) {
-      newsletters = newsletters.slice(0, options.limit);
-    }
-    
-    return newsletters;
   }
-  
-  async getRecentNewsletters(options: QueryOptions = {}): Promise<Newsletter[]> {
-    let newsletters = Array.from(this.newsletters.values());
-    
+
+  private queryNewsletters(newsletters: Newsletter[], options: QueryOptions): NewsletterSummary[] {
+    newsletters = newsletters.filter((n) => this.isVisible(n, options));
+
     // Filter by category if provided
     if (options.categoryId) {
       newsletters = newsletters.filter((n) => n.categoryId === options.categoryId);
     }
+
+    // Filter by sender if provided
+    if (options.senderIds) {
+      const senderIds = new Set(options.senderIds);
+      newsletters = newsletters.filter((n) => n.senderId !== null && senderIds.has(n.senderId));
+    }
     
-    // Filter by search term if provided
+    // Filter by search query if provided
     if (options.search) {
-      const search = options.search.toLowerCase();
-      newsletters = newsletters.filter(
-        (n) =>
-          n.title.toLowerCase().includes(search) ||
-          n.publisher.toLowerCase().includes(search) ||
-          n.description.toLowerCase().includes(search)
-      );
+      const matches = new Set(this.matchNewsletters(parseSearchQuery(options.search)).map((m) => m.newsletter.id));
+      newsletters = newsletters.filter((n) => matches.has(n.id));
     }
     
-    // Sort by published date, newest first
-    newsletters.sort((a, b) => 
-      new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime()
-    );
+    // Sort by published date then id, newest first unless asked otherwise
+    const direction = options.sort === "oldest" ? 1 : -1;
+    const compare = (a: { publishedAt: Date; id: number }, b: { publishedAt: Date; id: number }) =>
+      direction * (new Date(a.publishedAt).getTime() - new Date(b.publishedAt).getTime() || a.id - b.id);
+    newsletters.sort(compare);
+
+    // Skip everything up to and including the cursor
+    if (options.cursor) {
+      const cursor = options.cursor;
+      newsletters = newsletters.filter((n) => compare(n, cursor) > 0);
+    }
     
     // Apply limit if provided
     if (options.limit) {
       newsletters = newsletters.slice(0, options.limit);
     }
     
-    return newsletters;
+    return newsletters.map(toNewsletterSummary);
+  }
+
+  async getFeaturedNewsletters(options: QueryOptions = {}): Promise<NewsletterSummary[]> {
+    const featured = Array.from(this.newsletters.values()).filter((n) => n.featured);
+    return this.queryNewsletters(featured, options);
   }
   
-  async getNewslettersByCategory(options: QueryOptions = {}): Promise<Newsletter[]> {
-    let newsletters = Array.from(this.newsletters.values());
-    
-    // Filter by category if provided
-    if (options.categoryId) {
-      newsletters = newsletters.filter((n) => n.categoryId === options.categoryId);
-    }
-    
-    // Filter by search term if provided
-    if (options.search) {
-      const search = options.search.toLowerCase();
-      newsletters = newsletters.filter(
-        (n) =>
-          n.title.toLowerCase().includes(search) ||
-          n.publisher.toLowerCase().includes(search) ||
-          n.description.toLowerCase().includes(search)
-      );
-    }
-    
-    // Sort by published date, newest first
-    newsletters.sort((a, b) => 
-      new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime()
+  async getRecentNewsletters(options: QueryOptions = {}): Promise<NewsletterSummary[]> {
+    return this.queryNewsletters(Array.from(this.newsletters.values()), options);
+  }
+  
+  async getNewslettersByCategory(options: QueryOptions = {}): Promise<NewsletterSummary[]> {
+    return this.queryNewsletters(Array.from(this.newsletters.values()), options);
+  }
+  
+  async getNewsletterBySourceMessageId(ownerId: number, messageId: string): Promise<Newsletter | undefined> {
+    return Array.from(this.newsletters.values()).find(
+      (n) => n.ownerId === ownerId && n.sourceMessageId === messageId
     );
-    
-    return newsletters;
   }
   
   async createNewsletter(newsletter: InsertNewsletter): Promise<Newsletter> {
@@ -342,14 +483,130 @@ export class MemStorage implements IStorage {
       ...newsletter, 
       id, 
       publishedAt: newsletter.publishedAt || now,
-      featured: newsletter.featured || false
+      featured: newsletter.featured || false,
+      bodyText: newsletter.bodyText || null,
+      bodyHtml: newsletter.bodyHtml || null,
+      transcript: newsletter.transcript || null,
+      chapters: newsletter.chapters || null,
+      senderEmail: newsletter.senderEmail || null,
+      ownerId: newsletter.ownerId ?? null,
+      senderId: newsletter.senderId ?? null,
+      sourceMessageId: newsletter.sourceMessageId || null
     };
     this.newsletters.set(id, newNewsletter);
+    this.searchIndex.add(newNewsletter);
     return newNewsletter;
   }
-  
+
+  async updateNewsletter(id: number, newsletterData: Partial<Newsletter>): Promise<Newsletter | undefined> {
+    const newsletter = this.newsletters.get(id);
+    if (!newsletter) return undefined;
+
+    const updatedNewsletter = { ...newsletter, ...newsletterData, id };
+    this.newsletters.set(id, updatedNewsletter);
+    this.searchIndex.add(updatedNewsletter);
+    return updatedNewsletter;
+  }
+
+  // Search methods
+  async searchNewsletters(
+    query: ParsedSearchQuery,
+    limit: number,
+    visibility: VisibilityOptions = {}
+  ): Promise<{ newsletter: NewsletterSummary; bodyText: string | null; rank: number }[]> {
+    // Best match first, then newest
+    return this.matchNewsletters(query)
+      .filter((match) => this.isVisible(match.newsletter, visibility))
+      .sort((a, b) =>
+        b.rank - a.rank ||
+        new Date(b.newsletter.publishedAt).getTime() - new Date(a.newsletter.publishedAt).getTime() ||
+        b.newsletter.id - a.newsletter.id
+      )
+      .slice(0, limit)
+      .map(({ newsletter, rank }) => ({ newsletter: toNewsletterSummary(newsletter), bodyText: newsletter.bodyText, rank }));
+  }
+
+  // Every newsletter matching the query's text and filters, with its rank
+  private matchNewsletters(query: ParsedSearchQuery): { newsletter: Newsletter; rank: number }[] {
+    const scores = hasTextSearch(query) ? this.searchIndex.search(query) : undefined;
+    const publisher = query.publisher?.toLowerCase();
+    const category = query.category?.toLowerCase();
+    const categoryIds = category
+      ? new Set(Array.from(this.categories.values()).filter((c) => c.name.toLowerCase().includes(category)).map((c) => c.id))
+      : undefined;
+
+    return Array.from(this.newsletters.values())
+      .filter((n) => !scores || scores.has(n.id))
+      .filter((n) => !publisher || n.publisher.toLowerCase().includes(publisher))
+      .filter((n) => !categoryIds || categoryIds.has(n.categoryId))
+      .map((newsletter) => ({ newsletter, rank: scores?.get(newsletter.id) ?? 0 }));
+  }
+
+  // Publisher methods
+  private summarizePublisher(
+    publisher: string,
+    publisherNewsletters: Newsletter[],
+    visibility: VisibilityOptions
+  ): PublisherSummary {
+    const [latest] = this.queryNewsletters(publisherNewsletters, { ...visibility, limit: 1 });
+    const senderEmails = publisherNewsletters
+      .map((n) => n.senderEmail)
+      .filter((email): email is string => !!email);
+    return {
+      publisher,
+      imageUrl: latest.imageUrl,
+      newsletterCount: publisherNewsletters.length,
+      latestPublishedAt: latest.publishedAt,
+      senderEmails: Array.from(new Set(senderEmails)),
+    };
+  }
+
+  async getPublishers(visibility: VisibilityOptions = {}): Promise<PublisherSummary[]> {
+    const byPublisher = new Map<string, Newsletter[]>();
+    for (const newsletter of Array.from(this.newsletters.values()).filter((n) => this.isVisible(n, visibility))) {
+      byPublisher.set(newsletter.publisher, [...(byPublisher.get(newsletter.publisher) || []), newsletter]);
+    }
+
+    return Array.from(byPublisher.entries())
+      .map(([publisher, publisherNewsletters]) => this.summarizePublisher(publisher, publisherNewsletters, visibility))
+      .sort((a, b) => a.publisher.localeCompare(b.publisher));
+  }
+
+  async getPublisher(publisher: string, visibility: VisibilityOptions = {}): Promise<PublisherSummary | undefined> {
+    const publisherNewsletters = Array.from(this.newsletters.values()).filter(
+      (n) => n.publisher === publisher && this.isVisible(n, visibility)
+    );
+    return publisherNewsletters.length > 0 ? this.summarizePublisher(publisher, publisherNewsletters, visibility) : undefined;
+  }
+
+  async getNewslettersByPublisher(publisher: string, visibility: VisibilityOptions = {}): Promise<NewsletterSummary[]> {
+    const newsletters = Array.from(this.newsletters.values()).filter((n) => n.publisher === publisher);
+    return this.queryNewsletters(newsletters, visibility);
+  }
+
+  async getPublisherActivity(since: Date): Promise<{ publisher: string; listens: number; saves: number }[]> {
+    const activity = new Map<string, { publisher: string; listens: number; saves: number }>();
+    const tally = (newsletterId: number, kind: "listens" | "saves") => {
+      const newsletter = this.newsletters.get(newsletterId);
+      // Only shared newsletters count, so private mail doesn't show up in everyone's trends
+      if (!newsletter || newsletter.ownerId !== null) return;
+      const entry = activity.get(newsletter.publisher) ?? { publisher: newsletter.publisher, listens: 0, saves: 0 };
+      entry[kind]++;
+      activity.set(newsletter.publisher, entry);
+    };
+
+    Array.from(this.listeningProgress.values())
+      .filter((progress) => progress.updatedAt >= since)
+      .forEach((progress) => tally(progress.newsletterId, "listens"));
+    Array.from(this.userNewsletters.values())
+      .filter((saved) => saved.savedAt >= since)
+      .forEach((saved) => tally(saved.newsletterId, "saves"));
+
+    return Array.from(activity.values());
+  }
+
   // User Newsletter methods
-  async getUserNewsletters(userId: number): Promise<{ newsletter: Newsletter; savedAt: Date }[]> {
+  async getUserNewsletters(userId: number): Promise<{ newsletter: NewsletterSummary; savedAt: Date }[]> {
     const userNewsletters = Array.from(this.userNewsletters.values()).filter(
       (un) => un.userId === userId
     );
@@ -360,7 +617,7 @@ export class MemStorage implements IStorage {
         throw new Error(`Newsletter not found: ${un.newsletterId}`);
       }
       return {
-        newsletter,
+        newsletter: toNewsletterSummary(newsletter),
         savedAt: un.savedAt
       };
     });
@@ -415,6 +672,15 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async updateNewsletterSender(id: number, senderData: Partial<NewsletterSender>): Promise<NewsletterSender | undefined> {
+    const sender = this.newsletterSenders.get(id);
+    if (!sender) return undefined;
+
+    const updatedSender = { ...sender, ...senderData, id };
+    this.newsletterSenders.set(id, updatedSender);
+    return updatedSender;
+  }
+
   // User Newsletter Sender methods
   async getUserNewsletterSenders(userId: number): Promise<UserNewsletterSender[]> {
     return Array.from(this.userNewsletterSenders.values()).filter(
@@ -429,7 +695,7 @@ export class MemStorage implements IStorage {
       ...data,
       id,
       subscribedAt: now,
-      subscribed: data.subscribed || true, // Provide default value
+      subscribed: data.subscribed ?? true, // Provide default value
     };
 
     const key = `${data.userId}-${data.senderEmail}`;
@@ -452,139 +718,1037 @@ export class MemStorage implements IStorage {
     return this.userNewsletterSenders.get(key);
   }
 
+  async getUserSenderIds(userId: number, subscribed: boolean): Promise<number[]> {
+    const emails = new Set(
+      Array.from(this.userNewsletterSenders.values())
+        .filter((subscription) => subscription.userId === userId && subscription.subscribed === subscribed)
+        .map((subscription) => subscription.senderEmail)
+    );
+    return Array.from(this.newsletterSenders.values())
+      .filter((sender) => emails.has(sender.email))
+      .map((sender) => sender.id);
+  }
+
+  // Discovered Sender methods
+  async getDiscoveredSenders(userId: number): Promise<{ sender: NewsletterSender; discovered: DiscoveredSender }[]> {
+    return Array.from(this.discoveredSenders.values())
+      .filter((discovered) => discovered.userId === userId)
+      .map((discovered) => ({ sender: this.newsletterSenders.get(discovered.senderId)!, discovered }))
+      .filter(({ sender }) => !!sender)
+      .sort((a, b) => a.sender.domain.localeCompare(b.sender.domain) || a.sender.email.localeCompare(b.sender.email));
+  }
+
+  async saveDiscoveredSender(data: InsertDiscoveredSender): Promise<DiscoveredSender> {
+    const key = `${data.userId}-${data.senderId}`;
+    const existing = this.discoveredSenders.get(key);
+    const discovered: DiscoveredSender = {
+      id: existing?.id ?? this.discoveredSenderId++,
+      userId: data.userId,
+      senderId: data.senderId,
+      emailCount: data.emailCount ?? 0,
+      lastSeenAt: new Date(),
+    };
+    this.discoveredSenders.set(key, discovered);
+    return discovered;
+  }
+
+  // Listening Progress methods
+  async getListeningProgress(userId: number, newsletterId: number): Promise<ListeningProgress | undefined> {
+    return this.listeningProgress.get(`${userId}-${newsletterId}`);
+  }
+
+  async getUserListeningProgress(userId: number): Promise<ListeningProgress[]> {
+    return Array.from(this.listeningProgress.values())
+      .filter((progress) => progress.userId === userId)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
+  async getUserListeningHistory(userId: number): Promise<{ newsletter: NewsletterSummary; progress: ListeningProgress }[]> {
+    const progress = await this.getUserListeningProgress(userId);
+    return progress
+      .filter((p) => this.newsletters.has(p.newsletterId))
+      .map((p) => ({ newsletter: toNewsletterSummary(this.newsletters.get(p.newsletterId)!), progress: p }));
+  }
+
+  async saveListeningProgress(data: InsertListeningProgress): Promise<ListeningProgress> {
+    const key = `${data.userId}-${data.newsletterId}`;
+    const existing = this.listeningProgress.get(key);
+    const progress: ListeningProgress = {
+      id: existing?.id ?? this.listeningProgressId++,
+      userId: data.userId,
+      newsletterId: data.newsletterId,
+      position: data.position ?? 0,
+      completed: data.completed ?? false,
+      updatedAt: new Date()
+    };
+    this.listeningProgress.set(key, progress);
+    return progress;
+  }
+
+  async deleteListeningProgress(userId: number, newsletterId: number): Promise<void> {
+    this.listeningProgress.delete(`${userId}-${newsletterId}`);
+  }
+
+  // Listening Event methods
+  async createListeningEvent(event: InsertListeningEvent): Promise<ListeningEvent> {
+    const id = this.listeningEventId++;
+    const listeningEvent: ListeningEvent = {
+      ...event,
+      id,
+      fromPosition: event.fromPosition ?? null,
+      createdAt: new Date()
+    };
+    this.listeningEvents.set(id, listeningEvent);
+    return listeningEvent;
+  }
+
+  async getListeningHistory(userId: number, limit: number, before?: number): Promise<{ event: ListeningEvent; newsletter: NewsletterSummary }[]> {
+    return this.withEventNewsletters(
+      Array.from(this.listeningEvents.values())
+        .filter((event) => event.userId === userId && (before === undefined || event.id < before))
+        .sort((a, b) => b.id - a.id)
+    ).slice(0, limit);
+  }
+
+  async getListeningEventsSince(userId: number, since: Date): Promise<{ event: ListeningEvent; newsletter: NewsletterSummary }[]> {
+    return this.withEventNewsletters(
+      Array.from(this.listeningEvents.values())
+        .filter((event) => event.userId === userId && event.createdAt >= since)
+        .sort((a, b) => a.id - b.id)
+    );
+  }
+
+  private withEventNewsletters(events: ListeningEvent[]): { event: ListeningEvent; newsletter: NewsletterSummary }[] {
+    return events
+      .filter((event) => this.newsletters.has(event.newsletterId))
+      .map((event) => ({ event, newsletter: toNewsletterSummary(this.newsletters.get(event.newsletterId)!) }));
+  }
+
+  // Play Queue methods
+  async getPlayQueue(userId: number): Promise<NewsletterSummary[]> {
+    const newsletterIds = this.playQueues.get(userId) || [];
+    return newsletterIds
+      .map((id) => this.newsletters.get(id))
+      .filter((newsletter): newsletter is Newsletter => !!newsletter)
+      .map(toNewsletterSummary);
+  }
+
+  async setPlayQueue(userId: number, newsletterIds: number[]): Promise<NewsletterSummary[]> {
+    this.playQueues.set(userId, Array.from(new Set(newsletterIds)));
+    return this.getPlayQueue(userId);
+  }
+
+  // Playlist methods
+  async getUserPlaylists(userId: number): Promise<Playlist[]> {
+    return Array.from(this.playlists.values())
+      .filter((playlist) => playlist.userId === userId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getPlaylistById(id: number): Promise<Playlist | undefined> {
+    return this.playlists.get(id);
+  }
+
+  async createPlaylist(insertPlaylist: InsertPlaylist): Promise<Playlist> {
+    const id = this.playlistId++;
+    const now = new Date();
+    const playlist: Playlist = {
+      ...insertPlaylist,
+      id,
+      description: insertPlaylist.description || null,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.playlists.set(id, playlist);
+    this.playlistItems.set(id, []);
+    return playlist;
+  }
+
+  async updatePlaylist(id: number, playlistData: Partial<Playlist>): Promise<Playlist | undefined> {
+    const playlist = this.playlists.get(id);
+    if (!playlist) return undefined;
+
+    const updatedPlaylist = { ...playlist, ...playlistData, id, updatedAt: new Date() };
+    this.playlists.set(id, updatedPlaylist);
+    return updatedPlaylist;
+  }
+
+  async deletePlaylist(id: number): Promise<void> {
+    this.playlists.delete(id);
+    this.playlistItems.delete(id);
+  }
+
+  async getPlaylistNewsletters(playlistId: number): Promise<NewsletterSummary[]> {
+    const newsletterIds = this.playlistItems.get(playlistId) || [];
+    return newsletterIds
+      .map((id) => this.newsletters.get(id))
+      .filter((newsletter): newsletter is Newsletter => !!newsletter)
+      .map(toNewsletterSummary);
+  }
+
+  async setPlaylistNewsletters(playlistId: number, newsletterIds: number[]): Promise<NewsletterSummary[]> {
+    this.playlistItems.set(playlistId, Array.from(new Set(newsletterIds)));
+    await this.updatePlaylist(playlistId, {});
+    return this.getPlaylistNewsletters(playlistId);
+  }
+
+  // Gmail Sync State methods
+  async getGmailSyncState(userId: number, scope: GmailSyncScope): Promise<GmailSyncState | undefined> {
+    return this.gmailSyncStates.get(`${userId}-${scope}`);
+  }
+
+  async saveGmailSyncState(data: InsertGmailSyncState): Promise<GmailSyncState> {
+    const key = `${data.userId}-${data.scope}`;
+    const existing = this.gmailSyncStates.get(key);
+    const state: GmailSyncState = {
+      id: existing?.id ?? this.gmailSyncStateId++,
+      userId: data.userId,
+      scope: data.scope,
+      historyId: data.historyId,
+      syncedAt: new Date(),
+      fullSyncedAt: data.fullSyncedAt ?? existing?.fullSyncedAt ?? null
+    };
+    this.gmailSyncStates.set(key, state);
+    return state;
+  }
+
+  async deleteGmailSyncState(userId: number, scope: GmailSyncScope): Promise<void> {
+    this.gmailSyncStates.delete(`${userId}-${scope}`);
+  }
+
+  // Job methods
+  async createJob(insertJob: InsertJob): Promise<Job> {
+    const id = this.jobId++;
+    const now = new Date();
+    const job: Job = {
+      id,
+      type: insertJob.type,
+      payload: insertJob.payload ?? {},
+      status: insertJob.status ?? "pending",
+      userId: insertJob.userId ?? null,
+      attempts: insertJob.attempts ?? 0,
+      maxAttempts: insertJob.maxAttempts ?? 3,
+      runAt: insertJob.runAt ?? now,
+      lockedAt: null,
+      result: null,
+      error: null,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.jobs.set(id, job);
+    return job;
+  }
+
+  async getJobById(id: number): Promise<Job | undefined> {
+    return this.jobs.get(id);
+  }
+
+  async getActiveJobsByType(type: string): Promise<Job[]> {
+    return Array.from(this.jobs.values()).filter(
+      (job) => job.type === type && (job.status === "pending" || job.status === "running")
+    );
+  }
+
+  async claimNextJob(): Promise<Job | undefined> {
+    const now = new Date();
+    const next = Array.from(this.jobs.values())
+      .filter((job) => job.status === "pending" && job.runAt <= now)
+      .sort((a, b) => a.runAt.getTime() - b.runAt.getTime() || a.id - b.id)[0];
+    if (!next) return undefined;
+
+    return this.updateJob(next.id, { status: "running", lockedAt: now, attempts: next.attempts + 1 });
+  }
+
+  async updateJob(id: number, jobData: Partial<Job>): Promise<Job | undefined> {
+    const job = this.jobs.get(id);
+    if (!job) return undefined;
+
+    const updatedJob = { ...job, ...jobData, id, updatedAt: new Date() };
+    this.jobs.set(id, updatedJob);
+    return updatedJob;
+  }
+
+  async requeueStaleJobs(lockedBefore: Date): Promise<number> {
+    const stale = Array.from(this.jobs.values()).filter(
+      (job) => job.status === "running" && (!job.lockedAt || job.lockedAt < lockedBefore),
+    );
+    for (const job of stale) {
+      await this.updateJob(job.id, { status: "pending", lockedAt: null });
+    }
+    return stale.length;
+  }
+
+  // Category Override methods
+  async getCategoryOverride(newsletterId: number): Promise<CategoryOverride | undefined> {
+    return this.categoryOverrides.get(newsletterId);
+  }
+
+  async getCategoryOverrides(): Promise<{ override: CategoryOverride; newsletter: Newsletter }[]> {
+    return Array.from(this.categoryOverrides.values())
+      .filter((override) => this.newsletters.has(override.newsletterId))
+      .map((override) => ({ override, newsletter: this.newsletters.get(override.newsletterId)! }));
+  }
+
+  async saveCategoryOverride(data: InsertCategoryOverride): Promise<CategoryOverride> {
+    const existing = this.categoryOverrides.get(data.newsletterId);
+    const override: CategoryOverride = {
+      ...data,
+      id: existing?.id ?? this.categoryOverrideId++,
+      createdAt: new Date()
+    };
+    this.categoryOverrides.set(data.newsletterId, override);
+    return override;
+  }
+
   // First-time login detection
   async isFirstTimeLogin(userId: number): Promise<boolean> {
     const userNewsletters = await this.getUserNewsletters(userId);
     const userNewsletterSenders = await this.getUserNewsletterSenders(userId);
     return userNewsletters.length === 0 && userNewsletterSenders.length === 0;
   }
+}
+
+// Postgres text query requiring every word, phrase and prefix of a search
+function toTsQuery(query: ParsedSearchQuery): SQL | undefined {
+  const parts = [
+    ...query.terms.map((term) => sql`plainto_tsquery('english', ${term})`),
+    ...query.phrases.map((phrase) => sql`phraseto_tsquery('english', ${phrase.join(" ")})`),
+  ];
+  if (query.prefix) {
+    parts.push(sql`to_tsquery('english', ${`${query.prefix}:*`})`);
+  }
+  return parts.length > 0 ? sql`(${sql.join(parts, sql` && `)})` : undefined;
+}
+
+// PostgreSQL storage implementation
+// Columns of a NewsletterSummary, for list queries
+const newsletterSummaryColumns = toNewsletterSummary(getTableColumns(newsletters));
+
+export class DbStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  // User methods
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.email, email));
+    return user;
+  }
+
+  async getUserByProviderInfo(provider: string, providerId: string): Promise<User | undefined> {
+    const [user] = await this.db
+      .select()
+      .from(users)
+      .where(and(eq(users.provider, provider), eq(users.providerId, providerId)));
+    return user;
+  }
+
+  async getUserByFeedToken(feedToken: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.feedToken, feedToken));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async updateUser(id: number, userData: Partial<User>): Promise<User | undefined> {
+    const { id: _, ...data } = userData;
+    const [user] = await this.db.update(users).set(data).where(eq(users.id, id)).returning();
+    return user;
+  }
+
+  // User Token methods
+  async getUserTokens(userId: number): Promise<UserToken[]> {
+    return this.db.select().from(userTokens).where(eq(userTokens.userId, userId));
+  }
+
+  async getUserTokenByProvider(userId: number, provider: string): Promise<UserToken | undefined> {
+    const [token] = await this.db
+      .select()
+      .from(userTokens)
+      .where(and(eq(userTokens.userId, userId), eq(userTokens.provider, provider)));
+    return token;
+  }
+
+  async saveUserToken(insertToken: InsertUserToken): Promise<UserToken> {
+    // Check if token already exists for this user and provider
+    const existingToken = await this.getUserTokenByProvider(insertToken.userId, insertToken.provider);
+
+    if (existingToken) {
+      const [updatedToken] = await this.db
+        .update(userTokens)
+        .set({ ...insertToken, updatedAt: new Date() })
+        .where(eq(userTokens.id, existingToken.id))
+        .returning();
+      return updatedToken;
+    }
+
+    const [userToken] = await this.db.insert(userTokens).values(insertToken).returning();
+    return userToken;
+  }
+
+  async updateUserToken(id: number, tokenData: Partial<UserToken>): Promise<UserToken | undefined> {
+    const { id: _, ...data } = tokenData;
+    const [token] = await this.db
+      .update(userTokens)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(userTokens.id, id))
+      .returning();
+    return token;
+  }
+
+  async deleteUserToken(id: number): Promise<void> {
+    await this.db.delete(userTokens).where(eq(userTokens.id, id));
+  }
+
+  // Category methods
+  async getCategoryById(id: number): Promise<Category | undefined> {
+    const [category] = await this.db.select().from(categories).where(eq(categories.id, id));
+    return category;
+  }
+
+  async getCategoryByName(name: string): Promise<Category | undefined> {
+    const [category] = await this.db.select().from(categories).where(eq(categories.name, name));
+    return category;
+  }
+
+  async getAllCategories(): Promise<Category[]> {
+    return this.db.select().from(categories).orderBy(categories.id);
+  }
+
+  async createCategory(category: InsertCategory): Promise<Category> {
+    const [newCategory] = await this.db.insert(categories).values(category).returning();
+    return newCategory;
+  }
+
+  // Newsletter methods
+  async getNewsletterById(id: number): Promise<Newsletter | undefined> {
+    const [newsletter] = await this.db.select().from(newsletters).where(eq(newsletters.id, id));
+    return newsletter;
+  }
 
-  // Initialize sample data
-  private initSampleData() {
-    // Create categories
-    const categoryData: InsertCategory[] = [
-      { name: "Technology", description: "Latest tech news and innovations" },
-      { name: "Business", description: "Business news, insights, and analysis" },
-      { name: "Science", description: "Scientific breakthroughs and research" },
-      { name: "Health", description: "Health, wellness, and medical news" },
-      { name: "Politics", description: "Political news and analysis" }
+  private visibilityFilters(options: VisibilityOptions): SQL[] {
+    // Shared newsletters, plus the viewer's own
+    const filters: SQL[] = [
+      options.viewerId !== undefined
+        ? or(isNull(newsletters.ownerId), eq(newsletters.ownerId, options.viewerId))!
+        : isNull(newsletters.ownerId),
     ];
-    
-    const categories: Category[] = categoryData.map(cat => {
-      const category: Category = { 
-        ...cat, 
-        id: this.categoryId++,
-        description: cat.description || null
-      };
-      this.categories.set(category.id, category);
-      return category;
+
+    if (options.excludeSenderIds?.length) {
+      filters.push(or(isNull(newsletters.senderId), notInArray(newsletters.senderId, options.excludeSenderIds))!);
+    }
+
+    return filters;
+  }
+
+  private newsletterFilters(options: QueryOptions): SQL[] {
+    const filters: SQL[] = this.visibilityFilters(options);
+
+    // Filter by category if provided
+    if (options.categoryId) {
+      filters.push(eq(newsletters.categoryId, options.categoryId));
+    }
+
+    // Filter by sender if provided
+    if (options.senderIds) {
+      filters.push(options.senderIds.length > 0 ? inArray(newsletters.senderId, options.senderIds) : sql`false`);
+    }
+
+    // Filter by search query if provided
+    if (options.search) {
+      filters.push(...this.searchFilters(parseSearchQuery(options.search)));
+    }
+
+    return filters;
+  }
+
+  private searchFilters(query: ParsedSearchQuery): SQL[] {
+    const filters: SQL[] = [];
+    const tsQuery = toTsQuery(query);
+
+    if (tsQuery) {
+      filters.push(sql`${newsletterSearchVector(newsletters)} @@ ${tsQuery}`);
+    }
+    if (query.publisher) {
+      filters.push(ilike(newsletters.publisher, `%${query.publisher}%`));
+    }
+    if (query.category) {
+      const matchingCategories = this.db
+        .select({ id: categories.id })
+        .from(categories)
+        .where(ilike(categories.name, `%${query.category}%`));
+      filters.push(inArray(newsletters.categoryId, matchingCategories));
+    }
+
+    return filters;
+  }
+
+  private async queryNewsletters(filters: SQL[], options: QueryOptions): Promise<NewsletterSummary[]> {
+    const oldest = options.sort === "oldest";
+
+    // Cursors only keep millisecond precision, so sort and compare at that
+    // precision too; otherwise rows in the same millisecond could be skipped
+    const publishedAt = sql`date_trunc('milliseconds', ${newsletters.publishedAt})`;
+
+    if (options.cursor) {
+      const position = sql`(${publishedAt}, ${newsletters.id})`;
+      const cursor = sql`(${options.cursor.publishedAt.toISOString()}::timestamp, ${options.cursor.id})`;
+      filters = [...filters, oldest ? sql`${position} > ${cursor}` : sql`${position} < ${cursor}`];
+    }
+
+    // Sort by published date then id, newest first unless asked otherwise
+    const order = oldest ? asc : desc;
+    const query = this.db
+      .select(newsletterSummaryColumns)
+      .from(newsletters)
+      .where(and(...filters))
+      .orderBy(order(publishedAt), order(newsletters.id));
+
+    return options.limit ? query.limit(options.limit) : query;
+  }
+
+  async getFeaturedNewsletters(options: QueryOptions = {}): Promise<NewsletterSummary[]> {
+    const filters = [eq(newsletters.featured, true), ...this.newsletterFilters(options)];
+    return this.queryNewsletters(filters, options);
+  }
+
+  async getRecentNewsletters(options: QueryOptions = {}): Promise<NewsletterSummary[]> {
+    return this.queryNewsletters(this.newsletterFilters(options), options);
+  }
+
+  async getNewslettersByCategory(options: QueryOptions = {}): Promise<NewsletterSummary[]> {
+    return this.queryNewsletters(this.newsletterFilters(options), options);
+  }
+
+  async getNewsletterBySourceMessageId(ownerId: number, messageId: string): Promise<Newsletter | undefined> {
+    const [newsletter] = await this.db
+      .select()
+      .from(newsletters)
+      .where(and(eq(newsletters.ownerId, ownerId), eq(newsletters.sourceMessageId, messageId)));
+    return newsletter;
+  }
+
+  async createNewsletter(newsletter: InsertNewsletter): Promise<Newsletter> {
+    const [newNewsletter] = await this.db.insert(newsletters).values(newsletter).returning();
+    return newNewsletter;
+  }
+
+  async updateNewsletter(id: number, newsletterData: Partial<Newsletter>): Promise<Newsletter | undefined> {
+    const { id: _, ...data } = newsletterData;
+    const [newsletter] = await this.db
+      .update(newsletters)
+      .set(data)
+      .where(eq(newsletters.id, id))
+      .returning();
+    return newsletter;
+  }
+
+  // Search methods
+  async searchNewsletters(
+    query: ParsedSearchQuery,
+    limit: number,
+    visibility: VisibilityOptions = {}
+  ): Promise<{ newsletter: NewsletterSummary; bodyText: string | null; rank: number }[]> {
+    const tsQuery = toTsQuery(query);
+    const rank = tsQuery
+      ? sql<number>`ts_rank(${newsletterSearchVector(newsletters)}, ${tsQuery})`
+      : sql<number>`0::real`;
+
+    // Best match first, then newest
+    const rows = await this.db
+      .select({ newsletter: newsletterSummaryColumns, bodyText: newsletters.bodyText, rank })
+      .from(newsletters)
+      .where(and(...this.searchFilters(query), ...this.visibilityFilters(visibility)))
+      .orderBy(desc(rank), desc(newsletters.publishedAt), desc(newsletters.id))
+      .limit(limit);
+    return rows.map((row) => ({ ...row, rank: Number(row.rank) }));
+  }
+
+  // Publisher methods
+  private async queryPublishers(filters: SQL[]): Promise<PublisherSummary[]> {
+    const rows = await this.db
+      .select({
+        publisher: newsletters.publisher,
+        // Cover of the publisher's latest newsletter
+        imageUrl: sql<string>`(array_agg(${newsletters.imageUrl} order by ${newsletters.publishedAt} desc))[1]`,
+        newsletterCount: count(),
+        latestPublishedAt: max(newsletters.publishedAt).mapWith(newsletters.publishedAt),
+        senderEmails: sql<string[]>`array_remove(array_agg(distinct ${newsletters.senderEmail}), null)`,
+      })
+      .from(newsletters)
+      .where(and(...filters))
+      .groupBy(newsletters.publisher)
+      .orderBy(newsletters.publisher);
+    // Every group has at least one newsletter, so max() is never null
+    return rows.map((row) => ({ ...row, latestPublishedAt: row.latestPublishedAt! }));
+  }
+
+  async getPublishers(visibility: VisibilityOptions = {}): Promise<PublisherSummary[]> {
+    return this.queryPublishers(this.visibilityFilters(visibility));
+  }
+
+  async getPublisher(publisher: string, visibility: VisibilityOptions = {}): Promise<PublisherSummary | undefined> {
+    const [summary] = await this.queryPublishers([eq(newsletters.publisher, publisher), ...this.visibilityFilters(visibility)]);
+    return summary;
+  }
+
+  async getNewslettersByPublisher(publisher: string, visibility: VisibilityOptions = {}): Promise<NewsletterSummary[]> {
+    return this.queryNewsletters([eq(newsletters.publisher, publisher), ...this.visibilityFilters(visibility)], {});
+  }
+
+  async getPublisherActivity(since: Date): Promise<{ publisher: string; listens: number; saves: number }[]> {
+    const listens = await this.db
+      .select({ publisher: newsletters.publisher, count: count() })
+      .from(listeningProgress)
+      .innerJoin(newsletters, eq(listeningProgress.newsletterId, newsletters.id))
+      .where(and(gte(listeningProgress.updatedAt, since), isNull(newsletters.ownerId)))
+      .groupBy(newsletters.publisher);
+    const saves = await this.db
+      .select({ publisher: newsletters.publisher, count: count() })
+      .from(userNewsletters)
+      .innerJoin(newsletters, eq(userNewsletters.newsletterId, newsletters.id))
+      .where(and(gte(userNewsletters.savedAt, since), isNull(newsletters.ownerId)))
+      .groupBy(newsletters.publisher);
+
+    const activity = new Map<string, { publisher: string; listens: number; saves: number }>();
+    for (const row of listens) {
+      activity.set(row.publisher, { publisher: row.publisher, listens: row.count, saves: 0 });
+    }
+    for (const row of saves) {
+      const entry = activity.get(row.publisher) ?? { publisher: row.publisher, listens: 0, saves: 0 };
+      activity.set(row.publisher, { ...entry, saves: row.count });
+    }
+    return Array.from(activity.values());
+  }
+
+  // User Newsletter methods
+  async getUserNewsletters(userId: number): Promise<{ newsletter: NewsletterSummary; savedAt: Date }[]> {
+    return this.db
+      .select({ newsletter: newsletterSummaryColumns, savedAt: userNewsletters.savedAt })
+      .from(userNewsletters)
+      .innerJoin(newsletters, eq(userNewsletters.newsletterId, newsletters.id))
+      .where(eq(userNewsletters.userId, userId))
+      .orderBy(userNewsletters.id);
+  }
+
+  async getUserNewsletterByIds(userId: number, newsletterId: number): Promise<UserNewsletter | undefined> {
+    const [userNewsletter] = await this.db
+      .select()
+      .from(userNewsletters)
+      .where(and(eq(userNewsletters.userId, userId), eq(userNewsletters.newsletterId, newsletterId)));
+    return userNewsletter;
+  }
+
+  async saveNewsletterForUser(data: InsertUserNewsletter): Promise<UserNewsletter> {
+    const [userNewsletter] = await this.db.insert(userNewsletters).values(data).returning();
+    return userNewsletter;
+  }
+
+  async removeNewsletterForUser(userId: number, newsletterId: number): Promise<void> {
+    await this.db
+      .delete(userNewsletters)
+      .where(and(eq(userNewsletters.userId, userId), eq(userNewsletters.newsletterId, newsletterId)));
+  }
+
+  // Newsletter Sender methods
+  async getNewsletterSenders(): Promise<NewsletterSender[]> {
+    return this.db.select().from(newsletterSenders).orderBy(newsletterSenders.id);
+  }
+
+  async createNewsletterSender(insertSender: InsertNewsletterSender): Promise<NewsletterSender> {
+    const [sender] = await this.db.insert(newsletterSenders).values(insertSender).returning();
+    return sender;
+  }
+
+  async getNewsletterSenderByEmail(email: string): Promise<NewsletterSender | undefined> {
+    const [sender] = await this.db
+      .select()
+      .from(newsletterSenders)
+      .where(eq(newsletterSenders.email, email));
+    return sender;
+  }
+
+  async updateNewsletterSender(id: number, senderData: Partial<NewsletterSender>): Promise<NewsletterSender | undefined> {
+    const { id: _, ...data } = senderData;
+    const [sender] = await this.db
+      .update(newsletterSenders)
+      .set(data)
+      .where(eq(newsletterSenders.id, id))
+      .returning();
+    return sender;
+  }
+
+  // User Newsletter Sender methods
+  async getUserNewsletterSenders(userId: number): Promise<UserNewsletterSender[]> {
+    return this.db
+      .select()
+      .from(userNewsletterSenders)
+      .where(eq(userNewsletterSenders.userId, userId))
+      .orderBy(userNewsletterSenders.id);
+  }
+
+  async saveUserNewsletterSender(data: InsertUserNewsletterSender): Promise<UserNewsletterSender> {
+    const [subscription] = await this.db.insert(userNewsletterSenders).values(data).returning();
+    return subscription;
+  }
+
+  async updateUserNewsletterSender(userId: number, senderEmail: string, subscribed: boolean): Promise<UserNewsletterSender | undefined> {
+    const [subscription] = await this.db
+      .update(userNewsletterSenders)
+      .set({ subscribed })
+      .where(and(eq(userNewsletterSenders.userId, userId), eq(userNewsletterSenders.senderEmail, senderEmail)))
+      .returning();
+    return subscription;
+  }
+
+  async getUserNewsletterSender(userId: number, senderEmail: string): Promise<UserNewsletterSender | undefined> {
+    const [subscription] = await this.db
+      .select()
+      .from(userNewsletterSenders)
+      .where(and(eq(userNewsletterSenders.userId, userId), eq(userNewsletterSenders.senderEmail, senderEmail)));
+    return subscription;
+  }
+
+  async getUserSenderIds(userId: number, subscribed: boolean): Promise<number[]> {
+    const rows = await this.db
+      .select({ id: newsletterSenders.id })
+      .from(userNewsletterSenders)
+      .innerJoin(newsletterSenders, eq(userNewsletterSenders.senderEmail, newsletterSenders.email))
+      .where(and(eq(userNewsletterSenders.userId, userId), eq(userNewsletterSenders.subscribed, subscribed)))
+      .orderBy(userNewsletterSenders.id);
+    return rows.map((row) => row.id);
+  }
+
+  // Discovered Sender methods
+  async getDiscoveredSenders(userId: number): Promise<{ sender: NewsletterSender; discovered: DiscoveredSender }[]> {
+    return this.db
+      .select({ sender: newsletterSenders, discovered: discoveredSenders })
+      .from(discoveredSenders)
+      .innerJoin(newsletterSenders, eq(discoveredSenders.senderId, newsletterSenders.id))
+      .where(eq(discoveredSenders.userId, userId))
+      .orderBy(newsletterSenders.domain, newsletterSenders.email);
+  }
+
+  async saveDiscoveredSender(data: InsertDiscoveredSender): Promise<DiscoveredSender> {
+    const values = { ...data, lastSeenAt: new Date() };
+    const [discovered] = await this.db
+      .insert(discoveredSenders)
+      .values(values)
+      .onConflictDoUpdate({
+        target: [discoveredSenders.userId, discoveredSenders.senderId],
+        set: { emailCount: values.emailCount, lastSeenAt: values.lastSeenAt },
+      })
+      .returning();
+    return discovered;
+  }
+
+  // Listening Progress methods
+  async getListeningProgress(userId: number, newsletterId: number): Promise<ListeningProgress | undefined> {
+    const [progress] = await this.db
+      .select()
+      .from(listeningProgress)
+      .where(and(eq(listeningProgress.userId, userId), eq(listeningProgress.newsletterId, newsletterId)));
+    return progress;
+  }
+
+  async getUserListeningProgress(userId: number): Promise<ListeningProgress[]> {
+    return this.db
+      .select()
+      .from(listeningProgress)
+      .where(eq(listeningProgress.userId, userId))
+      .orderBy(desc(listeningProgress.updatedAt));
+  }
+
+  async getUserListeningHistory(userId: number): Promise<{ newsletter: NewsletterSummary; progress: ListeningProgress }[]> {
+    return this.db
+      .select({ newsletter: newsletterSummaryColumns, progress: listeningProgress })
+      .from(listeningProgress)
+      .innerJoin(newsletters, eq(listeningProgress.newsletterId, newsletters.id))
+      .where(eq(listeningProgress.userId, userId))
+      .orderBy(desc(listeningProgress.updatedAt));
+  }
+
+  async saveListeningProgress(data: InsertListeningProgress): Promise<ListeningProgress> {
+    const values = { ...data, updatedAt: new Date() };
+    const [progress] = await this.db
+      .insert(listeningProgress)
+      .values(values)
+      .onConflictDoUpdate({
+        target: [listeningProgress.userId, listeningProgress.newsletterId],
+        set: { position: values.position, completed: values.completed, updatedAt: values.updatedAt },
+      })
+      .returning();
+    return progress;
+  }
+
+  async deleteListeningProgress(userId: number, newsletterId: number): Promise<void> {
+    await this.db
+      .delete(listeningProgress)
+      .where(and(eq(listeningProgress.userId, userId), eq(listeningProgress.newsletterId, newsletterId)));
+  }
+
+  // Listening Event methods
+  async createListeningEvent(event: InsertListeningEvent): Promise<ListeningEvent> {
+    const [listeningEvent] = await this.db.insert(listeningEvents).values(event).returning();
+    return listeningEvent;
+  }
+
+  async getListeningHistory(userId: number, limit: number, before?: number): Promise<{ event: ListeningEvent; newsletter: NewsletterSummary }[]> {
+    const filters = [eq(listeningEvents.userId, userId)];
+    if (before !== undefined) {
+      filters.push(lt(listeningEvents.id, before));
+    }
+
+    return this.db
+      .select({ event: listeningEvents, newsletter: newsletterSummaryColumns })
+      .from(listeningEvents)
+      .innerJoin(newsletters, eq(listeningEvents.newsletterId, newsletters.id))
+      .where(and(...filters))
+      .orderBy(desc(listeningEvents.id))
+      .limit(limit);
+  }
+
+  async getListeningEventsSince(userId: number, since: Date): Promise<{ event: ListeningEvent; newsletter: NewsletterSummary }[]> {
+    return this.db
+      .select({ event: listeningEvents, newsletter: newsletterSummaryColumns })
+      .from(listeningEvents)
+      .innerJoin(newsletters, eq(listeningEvents.newsletterId, newsletters.id))
+      .where(and(eq(listeningEvents.userId, userId), gte(listeningEvents.createdAt, since)))
+      .orderBy(listeningEvents.id);
+  }
+
+  // Play Queue methods
+  async getPlayQueue(userId: number): Promise<NewsletterSummary[]> {
+    const rows = await this.db
+      .select({ newsletter: newsletterSummaryColumns })
+      .from(playQueueItems)
+      .innerJoin(newsletters, eq(playQueueItems.newsletterId, newsletters.id))
+      .where(eq(playQueueItems.userId, userId))
+      .orderBy(playQueueItems.position);
+    return rows.map((row) => row.newsletter);
+  }
+
+  async setPlayQueue(userId: number, newsletterIds: number[]): Promise<NewsletterSummary[]> {
+    const uniqueIds = Array.from(new Set(newsletterIds));
+
+    // Replace the whole queue so positions stay contiguous
+    await this.db.transaction(async (tx) => {
+      await tx.delete(playQueueItems).where(eq(playQueueItems.userId, userId));
+      if (uniqueIds.length > 0) {
+        await tx.insert(playQueueItems).values(
+          uniqueIds.map((newsletterId, position) => ({ userId, newsletterId, position }))
+        );
+      }
     });
-    
-    // Create sample newsletters
-    const newsletterData: (Omit<InsertNewsletter, "categoryId"> & { categoryName: string; featured?: boolean })[] = [
-      {
-        title: "Tech Insider Daily",
-        publisher: "TechCrunch",
-        description: "Daily tech news and insights from Silicon Valley and beyond.",
-        imageUrl: "https://images.unsplash.com/photo-1589903308904-1010c2294adc?ixlib=rb-1.2.1&auto=format&fit=crop&w=800&q=80",
-        audioUrl: "https://cdn.pixabay.com/download/audio/2021/11/13/audio_cb31232ebb.mp3?filename=lofi-study-112191.mp3",
-        duration: 900, // 15 min
-        categoryName: "Technology",
-        featured: true
-      },
-      {
-        title: "Financial Digest",
-        publisher: "Bloomberg",
-        description: "Expert financial analysis and market insights delivered to your ears.",
-        imageUrl: "https://images.unsplash.com/photo-1526304640581-d334cdbbf45e?ixlib=rb-1.2.1&auto=format&fit=crop&w=800&q=80",
-        audioUrl: "https://cdn.pixabay.com/download/audio/2022/03/15/audio_628ce3666f.mp3?filename=ambient-piano-amp-strings-10711.mp3",
-        duration: 1320, // 22 min
-        categoryName: "Business",
-        featured: true
-      },
-      {
-        title: "Wellness Weekly",
-        publisher: "Health Insider",
-        description: "The latest health research and wellness tips for a balanced lifestyle.",
-        imageUrl: "https://images.unsplash.com/photo-1505751172876-fa1923c5c528?ixlib=rb-1.2.1&auto=format&fit=crop&w=800&q=80",
-        audioUrl: "https://cdn.pixabay.com/download/audio/2022/03/10/audio_270f49bc27.mp3?filename=forest-lullaby-110624.mp3",
-        duration: 1080, // 18 min
-        categoryName: "Health",
-        featured: true
-      },
-      {
-        title: "AI Breakthrough Weekly",
-        publisher: "MIT Technology",
-        description: "Latest research and developments in artificial intelligence and machine learning.",
-        imageUrl: "https://images.unsplash.com/photo-1519389950473-47ba0277781c?ixlib=rb-1.2.1&auto=format&fit=crop&w=100&h=100&q=80",
-        audioUrl: "https://cdn.pixabay.com/download/audio/2021/11/25/audio_00cb9ae7bc.mp3?filename=electronic-future-beats-117997.mp3",
-        duration: 720, // 12 min
-        categoryName: "Technology"
-      },
-      {
-        title: "Climate Change Update",
-        publisher: "Nature Publishing",
-        description: "Research and news about climate change, sustainability, and environmental protection.",
-        imageUrl: "https://images.unsplash.com/photo-1551288049-bebda4e38f71?ixlib=rb-1.2.1&auto=format&fit=crop&w=100&h=100&q=80",
-        audioUrl: "https://cdn.pixabay.com/download/audio/2022/05/16/audio_d1d14b027d.mp3?filename=inspiring-dream-140960.mp3",
-        duration: 1200, // 20 min
-        categoryName: "Science"
-      },
-      {
-        title: "Startup Funding Roundup",
-        publisher: "Venture Beat",
-        description: "Weekly summary of startup fundraising, acquisitions, and venture capital trends.",
-        imageUrl: "https://images.unsplash.com/photo-1460925895917-afdab827c52f?ixlib=rb-1.2.1&auto=format&fit=crop&w=100&h=100&q=80",
-        audioUrl: "https://cdn.pixabay.com/download/audio/2022/10/25/audio_f1b7e16d32.mp3?filename=relaxing-145038.mp3",
-        duration: 1020, // 17 min
-        categoryName: "Business"
-      },
-      {
-        title: "Political Analysis",
-        publisher: "The Washington Post",
-        description: "In-depth analysis of politics, policy, and international relations.",
-        imageUrl: "https://images.unsplash.com/photo-1540910419892-4a36d2c3266c?ixlib=rb-1.2.1&auto=format&fit=crop&w=800&q=80",
-        audioUrl: "https://cdn.pixabay.com/download/audio/2022/05/27/audio_d18fb3ef5a.mp3?filename=life-of-a-wanderer-15500.mp3",
-        duration: 1500, // 25 min
-        categoryName: "Politics"
-      },
-      {
-        title: "Medical Breakthroughs",
-        publisher: "JAMA Network",
-        description: "Latest medical research, treatments, and healthcare innovations.",
-        imageUrl: "https://images.unsplash.com/photo-1576671334150-d2d56ebf2b53?ixlib=rb-1.2.1&auto=format&fit=crop&w=800&q=80",
-        audioUrl: "https://cdn.pixabay.com/download/audio/2022/01/18/audio_d0c6bf3069.mp3?filename=cinematic-chill-hip-hop-131453.mp3",
-        duration: 840, // 14 min
-        categoryName: "Health"
+
+    return this.getPlayQueue(userId);
+  }
+
+  // Playlist methods
+  async getUserPlaylists(userId: number): Promise<Playlist[]> {
+    return this.db
+      .select()
+      .from(playlists)
+      .where(eq(playlists.userId, userId))
+      .orderBy(playlists.createdAt, playlists.id);
+  }
+
+  async getPlaylistById(id: number): Promise<Playlist | undefined> {
+    const [playlist] = await this.db.select().from(playlists).where(eq(playlists.id, id));
+    return playlist;
+  }
+
+  async createPlaylist(insertPlaylist: InsertPlaylist): Promise<Playlist> {
+    const [playlist] = await this.db.insert(playlists).values(insertPlaylist).returning();
+    return playlist;
+  }
+
+  async updatePlaylist(id: number, playlistData: Partial<Playlist>): Promise<Playlist | undefined> {
+    const { id: _, ...data } = playlistData;
+    const [playlist] = await this.db
+      .update(playlists)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(playlists.id, id))
+      .returning();
+    return playlist;
+  }
+
+  async deletePlaylist(id: number): Promise<void> {
+    // Items are removed by the ON DELETE CASCADE foreign key
+    await this.db.delete(playlists).where(eq(playlists.id, id));
+  }
+
+  async getPlaylistNewsletters(playlistId: number): Promise<NewsletterSummary[]> {
+    const rows = await this.db
+      .select({ newsletter: newsletterSummaryColumns })
+      .from(playlistItems)
+      .innerJoin(newsletters, eq(playlistItems.newsletterId, newsletters.id))
+      .where(eq(playlistItems.playlistId, playlistId))
+      .orderBy(playlistItems.position);
+    return rows.map((row) => row.newsletter);
+  }
+
+  async setPlaylistNewsletters(playlistId: number, newsletterIds: number[]): Promise<NewsletterSummary[]> {
+    const uniqueIds = Array.from(new Set(newsletterIds));
+
+    // Replace all items so positions stay contiguous
+    await this.db.transaction(async (tx) => {
+      await tx.delete(playlistItems).where(eq(playlistItems.playlistId, playlistId));
+      if (uniqueIds.length > 0) {
+        await tx.insert(playlistItems).values(
+          uniqueIds.map((newsletterId, position) => ({ playlistId, newsletterId, position }))
+        );
       }
-    ];
-    
-    const now = new Date();
-    let daysAgo = 0;
-    
-    newsletterData.forEach(data => {
-      const categoryId = categories.find(c => c.name === data.categoryName)?.id;
-      if (!categoryId) return;
-      
-      const publishDate = new Date(now);
-      publishDate.setDate(publishDate.getDate() - daysAgo++);
-      
-      const newsletter: Newsletter = {
-        id: this.newsletterId++,
-        title: data.title,
-        publisher: data.publisher,
-        description: data.description,
-        imageUrl: data.imageUrl,
-        audioUrl: data.audioUrl,
-        duration: data.duration,
-        categoryId,
-        publishedAt: publishDate,
-        featured: data.featured || false
-      };
-      
-      this.newsletters.set(newsletter.id, newsletter);
+      await tx.update(playlists).set({ updatedAt: new Date() }).where(eq(playlists.id, playlistId));
     });
+
+    return this.getPlaylistNewsletters(playlistId);
+  }
+
+  // Gmail Sync State methods
+  async getGmailSyncState(userId: number, scope: GmailSyncScope): Promise<GmailSyncState | undefined> {
+    const [state] = await this.db
+      .select()
+      .from(gmailSyncStates)
+      .where(and(eq(gmailSyncStates.userId, userId), eq(gmailSyncStates.scope, scope)));
+    return state;
+  }
+
+  async saveGmailSyncState(data: InsertGmailSyncState): Promise<GmailSyncState> {
+    const values = { ...data, syncedAt: new Date() };
+    const [state] = await this.db
+      .insert(gmailSyncStates)
+      .values(values)
+      .onConflictDoUpdate({
+        target: [gmailSyncStates.userId, gmailSyncStates.scope],
+        set: {
+          historyId: values.historyId,
+          syncedAt: values.syncedAt,
+          // Keep the previous full sync time unless this was a full sync
+          fullSyncedAt: values.fullSyncedAt ?? sql`${gmailSyncStates.fullSyncedAt}`,
+        },
+      })
+      .returning();
+    return state;
+  }
+
+  async deleteGmailSyncState(userId: number, scope: GmailSyncScope): Promise<void> {
+    await this.db
+      .delete(gmailSyncStates)
+      .where(and(eq(gmailSyncStates.userId, userId), eq(gmailSyncStates.scope, scope)));
+  }
+
+  // Job methods
+  async createJob(insertJob: InsertJob): Promise<Job> {
+    const [job] = await this.db.insert(jobs).values(insertJob).returning();
+    return job;
+  }
+
+  async getJobById(id: number): Promise<Job | undefined> {
+    const [job] = await this.db.select().from(jobs).where(eq(jobs.id, id));
+    return job;
+  }
+
+  async getActiveJobsByType(type: string): Promise<Job[]> {
+    return this.db
+      .select()
+      .from(jobs)
+      .where(and(eq(jobs.type, type), inArray(jobs.status, ["pending", "running"])))
+      .orderBy(jobs.id);
+  }
+
+  async claimNextJob(): Promise<Job | undefined> {
+    const now = new Date();
+
+    // SKIP LOCKED lets several workers claim jobs without picking the same one
+    const next = this.db
+      .select({ id: jobs.id })
+      .from(jobs)
+      .where(and(eq(jobs.status, "pending"), lte(jobs.runAt, now)))
+      .orderBy(asc(jobs.runAt), asc(jobs.id))
+      .limit(1)
+      .for("update", { skipLocked: true });
+
+    const [job] = await this.db
+      .update(jobs)
+      .set({ status: "running", lockedAt: now, attempts: sql`${jobs.attempts} + 1`, updatedAt: now })
+      .where(inArray(jobs.id, next))
+      .returning();
+    return job;
+  }
+
+  async updateJob(id: number, jobData: Partial<Job>): Promise<Job | undefined> {
+    const { id: _, ...data } = jobData;
+    const [job] = await this.db
+      .update(jobs)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(jobs.id, id))
+      .returning();
+    return job;
+  }
+
+  async requeueStaleJobs(lockedBefore: Date): Promise<number> {
+    const requeued = await this.db
+      .update(jobs)
+      .set({ status: "pending", lockedAt: null, updatedAt: new Date() })
+      .where(and(
+        eq(jobs.status, "running"),
+        or(isNull(jobs.lockedAt), lt(jobs.lockedAt, lockedBefore)),
+      ))
+      .returning({ id: jobs.id });
+    return requeued.length;
+  }
+
+  // Category Override methods
+  async getCategoryOverride(newsletterId: number): Promise<CategoryOverride | undefined> {
+    const [override] = await this.db
+      .select()
+      .from(categoryOverrides)
+      .where(eq(categoryOverrides.newsletterId, newsletterId));
+    return override;
+  }
+
+  async getCategoryOverrides(): Promise<{ override: CategoryOverride; newsletter: Newsletter }[]> {
+    return this.db
+      .select({ override: categoryOverrides, newsletter: newsletters })
+      .from(categoryOverrides)
+      .innerJoin(newsletters, eq(categoryOverrides.newsletterId, newsletters.id))
+      .orderBy(categoryOverrides.id);
+  }
+
+  async saveCategoryOverride(data: InsertCategoryOverride): Promise<CategoryOverride> {
+    const values = { ...data, createdAt: new Date() };
+    const [override] = await this.db
+      .insert(categoryOverrides)
+      .values(values)
+      .onConflictDoUpdate({
+        target: categoryOverrides.newsletterId,
+        set: { userId: values.userId, categoryId: values.categoryId, createdAt: values.createdAt },
+      })
+      .returning();
+    return override;
+  }
+
+  // First-time login detection
+  async isFirstTimeLogin(userId: number): Promise<boolean> {
+    const saved = await this.getUserNewsletters(userId);
+    const subscriptions = await this.getUserNewsletterSenders(userId);
+    return saved.length === 0 && subscriptions.length === 0;
   }
 }
 
-export const storage = new MemStorage();
+// Use PostgreSQL when DATABASE_URL is configured, otherwise keep data in memory
+export const storage: IStorage = connection
+  ? new DbStorage(connection.db)
+  : new MemStorage();
@@ -0,0 +1,49 @@
+import { storage } from './storage';
+import { resetMailboxSync } from './gmailSync';
+import type { UserNewsletterSender } from '@shared/schema';
+
+// Subscribe a user to senders, creating or re-enabling each subscription
+export async function subscribeToSenders(userId: number, senderEmails: string[]): Promise<UserNewsletterSender[]> {
+  const subscriptions: UserNewsletterSender[] = [];
+  let hasNewSenders = false;
+
+  for (const senderEmail of senderEmails) {
+    const existing = await storage.getUserNewsletterSender(userId, senderEmail);
+    if (!existing?.subscribed) {
+      hasNewSenders = true;
+    }
+
+    const subscription = existing
+      ? await storage.updateUserNewsletterSender(userId, senderEmail, true)
+      : await storage.saveUserNewsletterSender({ userId, senderEmail, subscribed: true });
+    subscriptions.push(subscription ?? existing!);
+  }
+
+  // Older mail from new senders predates the sync position, so the next ingestion rescans
+  if (hasNewSenders) {
+    await resetMailboxSync(userId, 'newsletters');
+  }
+
+  return subscriptions;
+}
+
+// Ids of the senders the user is subscribed to; subscriptions to addresses
+// that have never sent a newsletter have no sender record and are left out
+export function getSubscribedSenderIds(userId: number): Promise<number[]> {
+  return storage.getUserSenderIds(userId, true);
+}
+
+// Ids of the senders the user turned off; their newsletters stay out of every list the user sees
+export function getUnsubscribedSenderIds(userId: number): Promise<number[]> {
+  return storage.getUserSenderIds(userId, false);
+}
+
+// Turn off the user's subscriptions to these senders; senders they never subscribed to are skipped
+export async function unsubscribeFromSenders(userId: number, senderEmails: string[]): Promise<UserNewsletterSender[]> {
+  const subscriptions: UserNewsletterSender[] = [];
+  for (const senderEmail of senderEmails) {
+    const subscription = await storage.updateUserNewsletterSender(userId, senderEmail, false);
+    if (subscription) subscriptions.push(subscription);
+  }
+  return subscriptions;
+}
@@ -0,0 +1,164 @@
+import { spawn } from 'child_process';
+
+// Raw 16-bit little-endian PCM audio
+export interface PcmAudio {
+  data: Buffer;
+  sampleRate: number;
+  channels: number;
+}
+
+// Text-to-speech engines turn a chunk of text into PCM audio
+export interface TtsProvider {
+  readonly name: string;
+  synthesize(text: string): Promise<PcmAudio>;
+}
+
+const BYTES_PER_SAMPLE = 2;
+
+export function pcmDuration(audio: PcmAudio): number {
+  return audio.data.length / (audio.sampleRate * audio.channels * BYTES_PER_SAMPLE);
+}
+
+// Wrap PCM data in a canonical 44-byte WAV header
+export function encodeWav(audio: PcmAudio): Buffer {
+  const header = Buffer.alloc(44);
+  const byteRate = audio.sampleRate * audio.channels * BYTES_PER_SAMPLE;
+
+  header.write('RIFF', 0);
+  header.writeUInt32LE(36 + audio.data.length, 4);
+  header.write('WAVE', 8);
+  header.write('fmt ', 12);
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(audio.channels, 22);
+  header.writeUInt32LE(audio.sampleRate, 24);
+  header.writeUInt32LE(byteRate, 28);
+  header.writeUInt16LE(audio.channels * BYTES_PER_SAMPLE, 32);
+  header.writeUInt16LE(BYTES_PER_SAMPLE * 8, 34);
+  header.write('data', 36);
+  header.writeUInt32LE(audio.data.length, 40);
+
+  return Buffer.concat([header, audio.data]);
+}
+
+// Read the fmt and data chunks of a 16-bit PCM WAV file
+export function decodeWav(wav: Buffer): PcmAudio {
+  if (wav.toString('ascii', 0, 4) !== 'RIFF' || wav.toString('ascii', 8, 12) !== 'WAVE') {
+    throw new Error('Not a WAV file');
+  }
+
+  let offset = 12;
+  let sampleRate = 0;
+  let channels = 0;
+
+  while (offset + 8 <= wav.length) {
+    const chunkId = wav.toString('ascii', offset, offset + 4);
+    let chunkSize = wav.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (chunkId === 'fmt ') {
+      channels = wav.readUInt16LE(body + 2);
+      sampleRate = wav.readUInt32LE(body + 4);
+      if (wav.readUInt16LE(body + 14) !== BYTES_PER_SAMPLE * 8) {
+        throw new Error('Only 16-bit PCM WAV audio is supported');
+      }
+    } else if (chunkId === 'data') {
+      // Streaming encoders write a placeholder size when the length is unknown
+      if (chunkSize === 0 || chunkSize === 0xffffffff || body + chunkSize > wav.length) {
+        chunkSize = wav.length - body;
+      }
+      return { data: wav.subarray(body, body + chunkSize), sampleRate, channels };
+    }
+
+    offset = body + chunkSize + (chunkSize % 2);
+  }
+
+  throw new Error('WAV file has no data chunk');
+}
+
+// Deterministic offline stub: a quiet tone per word followed by a short gap.
+// Useful in development and tests where no speech engine is installed.
+export class ToneTtsProvider implements TtsProvider {
+  readonly name = 'tone';
+
+  constructor(
+    private sampleRate = 16000,
+    private secondsPerWord = 0.35,
+    private frequency = 440
+  ) {}
+
+  async synthesize(text: string): Promise<PcmAudio> {
+    const words = text.split(/\s+/).filter(Boolean);
+    const samplesPerWord = Math.round(this.sampleRate * this.secondsPerWord);
+    const toneSamples = Math.round(samplesPerWord * 0.7);
+    const data = Buffer.alloc(words.length * samplesPerWord * BYTES_PER_SAMPLE);
+
+    for (let w = 0; w < words.length; w++) {
+      for (let i = 0; i < toneSamples; i++) {
+        const sample = Math.round(Math.sin((2 * Math.PI * this.frequency * i) / this.sampleRate) * 3000);
+        data.writeInt16LE(sample, (w * samplesPerWord + i) * BYTES_PER_SAMPLE);
+      }
+    }
+
+    return { data, sampleRate: this.sampleRate, channels: 1 };
+  }
+}
+
+// Local speech synthesis through the espeak-ng command line tool
+export class EspeakTtsProvider implements TtsProvider {
+  readonly name = 'espeak';
+
+  constructor(
+    private command = process.env.ESPEAK_PATH || 'espeak-ng',
+    private voice = process.env.TTS_VOICE || 'en-us',
+    private wordsPerMinute = 170
+  ) {}
+
+  synthesize(text: string): Promise<PcmAudio> {
+    return new Promise((resolve, reject) => {
+      const proc = spawn(this.command, ['--stdout', '--stdin', '-v', this.voice, '-s', String(this.wordsPerMinute)]);
+      const chunks: Buffer[] = [];
+      let stderr = '';
+
+      proc.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+      proc.stderr.on('data', (chunk: Buffer) => (stderr += chunk.toString()));
+      proc.on('error', reject);
+      proc.on('close', (code) => {
+        if (code !== 0) {
+          return reject(new Error(`${this.command} exited with code ${code}: ${stderr.trim()}`));
+        }
+        try {
+          resolve(decodeWav(Buffer.concat(chunks)));
+        } catch (error) {
+          reject(error);
+        }
+      });
+
+      proc.stdin.end(text);
+    });
+  }
+}
+
+let provider: TtsProvider | undefined;
+
+// Provider is chosen with TTS_PROVIDER ('tone' or 'espeak')
+export function getTtsProvider(): TtsProvider {
+  if (provider) return provider;
+
+  switch (process.env.TTS_PROVIDER || 'tone') {
+    case 'espeak':
+      provider = new EspeakTtsProvider();
+      break;
+    case 'tone':
+      provider = new ToneTtsProvider();
+      break;
+    default:
+      throw new Error(`Unknown TTS provider: ${process.env.TTS_PROVIDER}`);
+  }
+
+  return provider;
+}
+
+export function setTtsProvider(custom: TtsProvider) {
+  provider = custom;
+}
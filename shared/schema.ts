@@ -1,4 +1,5 @@
-import { pgTable, text, serial, integer, timestamp, boolean, varchar } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, timestamp, boolean, varchar, unique, jsonb, index, type AnyPgColumn } from "drizzle-orm/pg-core";
+import { sql, type SQL } from "drizzle-orm";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -13,11 +14,13 @@ export const users = pgTable("users", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
   provider: text("provider"), // 'local', 'google', 'facebook', 'twitter'
   providerId: text("provider_id"),
+  feedToken: text("feed_token").unique(), // secret for the private podcast feed URL
 });
 
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
   createdAt: true,
+  feedToken: true,
 });
 
 // Categories schema
@@ -32,6 +35,19 @@ export const insertCategorySchema = createInsertSchema(categories).omit({
 });
 
 // Newsletters schema
+// A narrated paragraph and where it falls in the audio, in seconds
+export const transcriptSegmentSchema = z.object({
+  text: z.string(),
+  start: z.number(),
+  end: z.number(),
+});
+
+// A section of a newsletter's audio, starting `start` seconds in
+export const chapterSchema = z.object({
+  title: z.string(),
+  start: z.number(),
+});
+
 export const newsletters = pgTable("newsletters", {
   id: serial("id").primaryKey(),
   title: text("title").notNull(),
@@ -45,9 +61,48 @@ export const newsletters = pgTable("newsletters", {
     .notNull(),
   publishedAt: timestamp("published_at").defaultNow().notNull(),
   featured: boolean("featured").default(false),
-});
+  bodyText: text("body_text"), // cleaned text that is narrated
+  bodyHtml: text("body_html"), // original email HTML, kept for display
+  transcript: jsonb("transcript").$type<TranscriptSegment[]>(), // when each narrated paragraph is spoken
+  chapters: jsonb("chapters").$type<Chapter[]>(), // sections of the audio, from the email's headings
+  senderEmail: text("sender_email"),
+  senderId: integer("sender_id").references(() => newsletterSenders.id), // set for ingested newsletters
+  // User whose mailbox an ingested newsletter came from; only they can see it.
+  // Newsletters without an owner are shared with everyone.
+  ownerId: integer("owner_id").references(() => users.id),
+  sourceMessageId: text("source_message_id"), // Gmail message id for ingested newsletters
+}, (table) => [
+  index("newsletters_search_idx").using("gin", newsletterSearchVector(table)),
+  index("newsletters_sender_id_idx").on(table.senderId),
+  unique("newsletters_owner_source_message_unique").on(table.ownerId, table.sourceMessageId),
+]);
+
+// Full-text document for a newsletter, with the title and publisher weighted
+// above the description and body. Queries must use this same expression for
+// Postgres to pick the index above.
+export function newsletterSearchVector(columns: {
+  title: AnyPgColumn;
+  publisher: AnyPgColumn;
+  description: AnyPgColumn;
+  bodyText: AnyPgColumn;
+}): SQL {
+  return sql`(
+    setweight(to_tsvector('english'::regconfig, coalesce(${columns.title}, '')), 'A') ||
+    setweight(to_tsvector('english'::regconfig, coalesce(${columns.publisher}, '')), 'A') ||
+    setweight(to_tsvector('english'::regconfig, coalesce(${columns.description}, '')), 'B') ||
+    setweight(to_tsvector('english'::regconfig, coalesce(${columns.bodyText}, '')), 'C')
+  )`;
+}
 
-export const insertNewsletterSchema = createInsertSchema(newsletters).omit({
+// Orders for paginated newsletter lists, by publishedAt and then id
+export const newsletterSorts = ["newest", "oldest"] as const;
+// Whose newsletters a signed-in user's feed shows
+export const newsletterFeedScopes = ["subscribed", "all"] as const;
+
+export const insertNewsletterSchema = createInsertSchema(newsletters, {
+  transcript: z.array(transcriptSegmentSchema).nullable().optional(),
+  chapters: z.array(chapterSchema).nullable().optional(),
+}).omit({
   id: true,
 });
 
@@ -120,6 +175,186 @@ export const insertUserNewsletterSenderSchema = createInsertSchema(userNewslette
   subscribedAt: true,
 });
 
+// Discovered senders schema (newsletter senders found in each user's mailbox, followed or not)
+export const discoveredSenders = pgTable("discovered_senders", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id")
+    .references(() => users.id)
+    .notNull(),
+  senderId: integer("sender_id")
+    .references(() => newsletterSenders.id)
+    .notNull(),
+  emailCount: integer("email_count").notNull().default(0), // newsletters from this sender seen in the user's mailbox
+  lastSeenAt: timestamp("last_seen_at").defaultNow().notNull(),
+}, (table) => [
+  unique("discovered_senders_user_sender_unique").on(table.userId, table.senderId),
+]);
+
+export const insertDiscoveredSenderSchema = createInsertSchema(discoveredSenders).omit({
+  id: true,
+  lastSeenAt: true,
+});
+
+// Listening progress schema (playback position per user and newsletter)
+export const listeningProgress = pgTable("listening_progress", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id")
+    .references(() => users.id)
+    .notNull(),
+  newsletterId: integer("newsletter_id")
+    .references(() => newsletters.id)
+    .notNull(),
+  position: integer("position").notNull().default(0), // in seconds
+  completed: boolean("completed").default(false).notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  unique("listening_progress_user_newsletter_unique").on(table.userId, table.newsletterId),
+]);
+
+export const insertListeningProgressSchema = createInsertSchema(listeningProgress).omit({
+  id: true,
+  updatedAt: true,
+});
+
+// Listening events schema (what a user did in the player, for history and stats)
+export const listeningEventTypes = ["play", "pause", "seek", "complete"] as const;
+
+export const listeningEvents = pgTable("listening_events", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id")
+    .references(() => users.id)
+    .notNull(),
+  newsletterId: integer("newsletter_id")
+    .references(() => newsletters.id)
+    .notNull(),
+  type: text("type", { enum: listeningEventTypes }).notNull(),
+  position: integer("position").notNull(), // in seconds; for seeks, where playback jumped to
+  fromPosition: integer("from_position"), // for seeks, where playback jumped from
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("listening_events_user_created_at_idx").on(table.userId, table.createdAt),
+]);
+
+export const insertListeningEventSchema = createInsertSchema(listeningEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Play queue schema (upcoming newsletters per user, in order)
+export const playQueueItems = pgTable("play_queue_items", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id")
+    .references(() => users.id)
+    .notNull(),
+  newsletterId: integer("newsletter_id")
+    .references(() => newsletters.id)
+    .notNull(),
+  position: integer("position").notNull(),
+  addedAt: timestamp("added_at").defaultNow().notNull(),
+}, (table) => [
+  unique("play_queue_items_user_newsletter_unique").on(table.userId, table.newsletterId),
+]);
+
+// Playlists schema (named, user-ordered collections of newsletters)
+export const playlists = pgTable("playlists", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id")
+    .references(() => users.id)
+    .notNull(),
+  name: text("name").notNull(),
+  description: text("description"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertPlaylistSchema = createInsertSchema(playlists).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const playlistItems = pgTable("playlist_items", {
+  id: serial("id").primaryKey(),
+  playlistId: integer("playlist_id")
+    .references(() => playlists.id, { onDelete: "cascade" })
+    .notNull(),
+  newsletterId: integer("newsletter_id")
+    .references(() => newsletters.id)
+    .notNull(),
+  position: integer("position").notNull(),
+  addedAt: timestamp("added_at").defaultNow().notNull(),
+}, (table) => [
+  unique("playlist_items_playlist_newsletter_unique").on(table.playlistId, table.newsletterId),
+]);
+
+// Gmail sync state schema (where each user's last mailbox sync left off)
+export const gmailSyncScopes = ["newsletters", "senders"] as const;
+
+export const gmailSyncStates = pgTable("gmail_sync_states", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id")
+    .references(() => users.id)
+    .notNull(),
+  scope: text("scope", { enum: gmailSyncScopes }).notNull(), // each consumer of the mailbox keeps its own position
+  historyId: text("history_id").notNull(),
+  syncedAt: timestamp("synced_at").defaultNow().notNull(),
+  fullSyncedAt: timestamp("full_synced_at"),
+}, (table) => [
+  unique("gmail_sync_states_user_scope_unique").on(table.userId, table.scope),
+]);
+
+export const insertGmailSyncStateSchema = createInsertSchema(gmailSyncStates).omit({
+  id: true,
+  syncedAt: true,
+});
+
+// Background jobs schema (ingestion, audio generation and feed refreshes)
+export const jobStatuses = ["pending", "running", "completed", "failed"] as const;
+
+export const jobs = pgTable("jobs", {
+  id: serial("id").primaryKey(),
+  type: text("type").notNull(),
+  payload: jsonb("payload").notNull().default({}),
+  status: text("status", { enum: jobStatuses }).notNull().default("pending"),
+  userId: integer("user_id").references(() => users.id),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  runAt: timestamp("run_at").defaultNow().notNull(), // not picked up before this time
+  lockedAt: timestamp("locked_at"),
+  result: jsonb("result"),
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("jobs_status_run_at_idx").on(table.status, table.runAt),
+]);
+
+export const insertJobSchema = createInsertSchema(jobs).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Category corrections made by users; the latest one per newsletter trains the classifier
+export const categoryOverrides = pgTable("category_overrides", {
+  id: serial("id").primaryKey(),
+  newsletterId: integer("newsletter_id")
+    .references(() => newsletters.id, { onDelete: "cascade" })
+    .notNull()
+    .unique(),
+  userId: integer("user_id")
+    .references(() => users.id)
+    .notNull(),
+  categoryId: integer("category_id")
+    .references(() => categories.id)
+    .notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertCategoryOverrideSchema = createInsertSchema(categoryOverrides).omit({
+  id: true,
+  createdAt: true,
+});
 
 // Types
 export type User = typeof users.$inferSelect;
@@ -130,6 +365,25 @@ export type InsertCategory = z.infer<typeof insertCategorySchema>;
 
 export type Newsletter = typeof newsletters.$inferSelect;
 export type InsertNewsletter = z.infer<typeof insertNewsletterSchema>;
+// What lists carry: everything but the email body and transcript
+export type NewsletterSummary = Omit<Newsletter, "bodyText" | "bodyHtml" | "transcript">;
+export type TranscriptSegment = z.infer<typeof transcriptSegmentSchema>;
+export type Chapter = z.infer<typeof chapterSchema>;
+export type NewsletterSort = (typeof newsletterSorts)[number];
+export type NewsletterFeedScope = (typeof newsletterFeedScopes)[number];
+// nextCursor is null on the last page
+export type NewsletterPage = { items: NewsletterSummary[]; nextCursor: string | null };
+// Highlights are [start, end) character offsets into text
+export type SearchSnippet = { text: string; highlights: [number, number][] };
+// Higher ranks are better matches; rank is 0 when the query only has filters
+export type SearchResult = { newsletter: NewsletterSummary; rank: number; snippet: SearchSnippet };
+// timed is false until audio has been generated; segments then have no start or end times yet
+export type NewsletterTranscript = {
+  newsletterId: number;
+  html: string | null;
+  segments: TranscriptSegment[];
+  timed: boolean;
+};
 
 export type UserToken = typeof userTokens.$inferSelect;
 export type InsertUserToken = z.infer<typeof insertUserTokenSchema>;
@@ -137,8 +391,63 @@ export type InsertUserToken = z.infer<typeof insertUserTokenSchema>;
 export type UserNewsletter = typeof userNewsletters.$inferSelect;
 export type InsertUserNewsletter = z.infer<typeof insertUserNewsletterSchema>;
 
+// Newsletters grouped by publisher; senderEmails are the addresses a user can follow
+export type PublisherSummary = {
+  publisher: string;
+  imageUrl: string;
+  newsletterCount: number;
+  latestPublishedAt: Date;
+  senderEmails: string[];
+};
+// Listens and saves over the trending window
+export type TrendingPublisher = PublisherSummary & { listens: number; saves: number };
+export type PublisherDetail = PublisherSummary & { newsletters: NewsletterSummary[] };
+export type CategoryArrivals = { category: Category; newsletters: NewsletterSummary[] };
+
+// What a For You recommendation mostly owes its score to
+export type RecommendationReason = "subscribed" | "publisher" | "category" | "recent";
+export type Recommendation = { newsletter: NewsletterSummary; score: number; reason: RecommendationReason };
+
 export type NewsletterSender = typeof newsletterSenders.$inferSelect;
 export type InsertNewsletterSender = z.infer<typeof insertNewsletterSenderSchema>;
 
 export type UserNewsletterSender = typeof userNewsletterSenders.$inferSelect;
 export type InsertUserNewsletterSender = z.infer<typeof insertUserNewsletterSenderSchema>;
+
+export type DiscoveredSender = typeof discoveredSenders.$inferSelect;
+export type InsertDiscoveredSender = z.infer<typeof insertDiscoveredSenderSchema>;
+
+export type ListeningProgress = typeof listeningProgress.$inferSelect;
+export type InsertListeningProgress = z.infer<typeof insertListeningProgressSchema>;
+
+export type ListeningEvent = typeof listeningEvents.$inferSelect;
+export type InsertListeningEvent = z.infer<typeof insertListeningEventSchema>;
+export type ListeningEventType = (typeof listeningEventTypes)[number];
+// Minutes are of newsletter audio, so listening at 2x speed counts double
+export type ListeningStats = {
+  totalMinutes: number;
+  daily: { date: string; minutes: number }[];
+  weekly: { weekStart: string; minutes: number }[];
+  topPublishers: { publisher: string; minutes: number }[];
+  topCategories: { category: string; minutes: number }[];
+  completion: { started: number; completed: number; rate: number };
+  streak: { current: number; longest: number };
+};
+
+export type PlayQueueItem = typeof playQueueItems.$inferSelect;
+
+export type Playlist = typeof playlists.$inferSelect;
+export type InsertPlaylist = z.infer<typeof insertPlaylistSchema>;
+export type PlaylistItem = typeof playlistItems.$inferSelect;
+export type PlaylistWithNewsletters = Playlist & { newsletters: NewsletterSummary[] };
+
+export type GmailSyncState = typeof gmailSyncStates.$inferSelect;
+export type InsertGmailSyncState = z.infer<typeof insertGmailSyncStateSchema>;
+export type GmailSyncScope = (typeof gmailSyncScopes)[number];
+
+export type Job = typeof jobs.$inferSelect;
+export type InsertJob = z.infer<typeof insertJobSchema>;
+export type JobStatus = (typeof jobStatuses)[number];
+
+export type CategoryOverride = typeof categoryOverrides.$inferSelect;
+export type InsertCategoryOverride = z.infer<typeof insertCategoryOverrideSchema>;
@@ -0,0 +1,17 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["server/**/*.test.ts"],
+    environment: "node",
+    // Modules that use the shared storage get the in-memory one; the storage
+    // tests connect to TEST_DATABASE_URL themselves
+    env: { DATABASE_URL: "" },
+  },
+});